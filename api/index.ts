@@ -2,7 +2,7 @@
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { createRemoteServer } from "../src/server/remote.js";
-import { getStorageFromEnv } from "../src/auth/storage/index.js";
+import { getStorageFromEnv, getOAuthStateStorageFromEnv } from "../src/auth/storage/index.js";
 
 function validateEnv(): void {
   const required = ["SERVER_URL", "JWT_SECRET"];
@@ -20,10 +20,12 @@ function getApp() {
   if (!app) {
     validateEnv();
     const tokenStorage = getStorageFromEnv();
+    const oauthStateStorage = getOAuthStateStorageFromEnv();
     app = createRemoteServer({
       serverUrl: process.env.SERVER_URL!,
       jwtSecret: process.env.JWT_SECRET!,
       tokenStorage,
+      oauthStateStorage,
     });
   }
   return app;
@@ -12,6 +12,27 @@ export function getCurrentUserId(): string | undefined {
   return requestContext.getStore()?.userId;
 }
 
+/**
+ * Key for per-tenant state (response cache, ledger cache): the user,
+ * plus the Fortnox company if a linked company is active
+ */
+export function getCurrentTenantKey(): string {
+  const context = requestContext.getStore();
+  const userId = context?.userId || "local";
+  return context?.companyId ? `${userId}:${context.companyId}` : userId;
+}
+
+/**
+ * Key for per-company state (Fortnox rate limit): the Fortnox company (database number)
+ * of the active linked company or of the user's own company, shared by every user of it.
+ * Falls back to the user for user IDs without a company, and is "local" in local mode.
+ */
+export function getCurrentCompanyKey(): string {
+  const context = requestContext.getStore();
+  const companyId = context?.companyId || context?.userId?.match(/^fortnox:([^:]+):/)?.[1];
+  return companyId ? `company:${companyId}` : context?.userId || "local";
+}
+
 export function runWithContext<T>(context: RequestContext, fn: () => T): T {
   return requestContext.run(context, fn);
 }
@@ -51,8 +51,15 @@ export function hasFortnoxCredentials(): boolean {
  */
 export const FORTNOX_SCOPES = [
   "companyinformation",
+  "profile",
   "customer",
   "invoice",
   "supplier",
-  "bookkeeping"
+  "bookkeeping",
+  "project",
+  "costcenter",
+  "article",
+  "price",
+  "payment",
+  "supplierinvoice"
 ];
@@ -1,9 +1,21 @@
 import axios, { AxiosError } from "axios";
-import { FORTNOX_OAUTH_URL, TOKEN_REFRESH_BUFFER_MS } from "../constants.js";
+import { FORTNOX_API_BASE_URL, FORTNOX_OAUTH_URL, TOKEN_REFRESH_BUFFER_MS } from "../constants.js";
 import { ITokenProvider, TokenInfo, AuthRequiredError } from "./types.js";
-import { ITokenStorage } from "./storage/types.js";
+import { CompanyLink, FortnoxIdentity, ITokenStorage } from "./storage/types.js";
 import { getFortnoxCredentials } from "./credentials.js";
 
+/**
+ * A Fortnox company a user can work with: their own or a linked one
+ */
+export interface UserCompany {
+  fortnoxCompanyId: string | null;
+  fortnoxCompanyName: string | null;
+  /** The company the user signed in with */
+  own: boolean;
+  /** Used when a tool call doesn't pick a company */
+  isDefault: boolean;
+}
+
 // Token provider for remote mode (multi-user with database storage)
 export class DatabaseTokenProvider implements ITokenProvider {
   private clientId: string;
@@ -18,11 +30,21 @@ export class DatabaseTokenProvider implements ITokenProvider {
     this.storage = storage;
   }
 
-  async getAccessToken(userId?: string): Promise<string> {
+  async getAccessToken(userId?: string, companyId?: string): Promise<string> {
     if (!userId) {
       throw new AuthRequiredError();
     }
 
+    // Tokens of a linked company are stored under their own user ID
+    if (companyId) {
+      const companies = await this.storage.getUserCompanies(userId);
+      const link = companies?.links.find(l => l.fortnoxCompanyId === companyId);
+      if (!link) {
+        throw new Error(`Fortnox company ${companyId} is not linked. Use fortnox_link_company to link it.`);
+      }
+      userId = link.tokenUserId;
+    }
+
     const tokens = await this.storage.get(userId);
     if (!tokens) {
       throw new AuthRequiredError(userId);
@@ -59,19 +81,28 @@ export class DatabaseTokenProvider implements ITokenProvider {
     return this.storage.get(userId);
   }
 
-  async storeTokens(userId: string, tokens: TokenInfo): Promise<void> {
-    await this.storage.set(userId, tokens);
+  async storeTokens(userId: string, tokens: TokenInfo, identity?: FortnoxIdentity): Promise<void> {
+    await this.storage.set(userId, tokens, identity);
   }
 
   async deleteTokens(userId: string): Promise<void> {
     await this.storage.delete(userId);
   }
 
+  /**
+   * Exchange a Fortnox authorization code and store the tokens
+   *
+   * The tokens are stored under a stable user ID derived from the Fortnox
+   * company and user, so re-authorizing updates the same record. Older records
+   * for the same company and user are deleted. Fails (storing nothing) if the
+   * Fortnox company or user cannot be resolved, since the tokens of different
+   * people would otherwise end up under one ID.
+   */
   async exchangeAuthorizationCode(
     code: string,
     redirectUri: string,
-    userId: string
-  ): Promise<TokenInfo> {
+    mcpClientId: string
+  ): Promise<{ userId: string; tokens: TokenInfo; identity: FortnoxIdentity }> {
     const tokenUrl = `${FORTNOX_OAUTH_URL}/token`;
     const auth = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64");
 
@@ -104,13 +135,177 @@ export class DatabaseTokenProvider implements ITokenProvider {
         scope: response.data.scope
       };
 
-      await this.storeTokens(userId, tokens);
-      return tokens;
+      const identity = await this.resolveIdentity(tokens.accessToken);
+      if (!identity) {
+        throw new Error(
+          "Could not identify the Fortnox company and user. The Fortnox app needs the companyinformation and profile scopes."
+        );
+      }
+
+      const userId = `fortnox:${identity.fortnoxCompanyId}:${identity.fortnoxUserId}`;
+      await this.storeTokens(userId, tokens, identity);
+      await this.removeStaleTokens(userId, identity, mcpClientId);
+      return { userId, tokens, identity };
     } catch (error) {
       throw this.handleAuthError(error, "Failed to exchange authorization code");
     }
   }
 
+  /**
+   * Look up the Fortnox company and user an access token belongs to
+   * Returns null if either cannot be looked up
+   */
+  private async resolveIdentity(accessToken: string): Promise<FortnoxIdentity | null> {
+    const get = <T>(endpoint: string) => axios.get<T>(`${FORTNOX_API_BASE_URL}${endpoint}`, {
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "Accept": "application/json"
+      },
+      timeout: 30000
+    });
+
+    let fortnoxCompanyId: string;
+    let fortnoxCompanyName: string;
+    try {
+      const response = await get<{ CompanyInformation: { DatabaseNumber: number; CompanyName: string } }>(
+        "/3/companyinformation"
+      );
+      fortnoxCompanyId = String(response.data.CompanyInformation.DatabaseNumber);
+      fortnoxCompanyName = response.data.CompanyInformation.CompanyName;
+    } catch (error) {
+      console.error("[Auth] Could not look up Fortnox company:", error instanceof Error ? error.message : error);
+      return null;
+    }
+
+    try {
+      // Needs the profile scope
+      const response = await get<{ Me: { Id: string } }>("/3/me");
+      return { fortnoxCompanyId, fortnoxCompanyName, fortnoxUserId: String(response.data.Me.Id) };
+    } catch (error) {
+      console.error("[Auth] Could not look up Fortnox user:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * List the companies a user can work with: their own, then the linked ones
+   */
+  async listCompanies(userId: string): Promise<UserCompany[]> {
+    const own = await this.storage.getIdentity(userId);
+    const companies = await this.storage.getUserCompanies(userId);
+    const defaultCompanyId = companies?.defaultCompanyId;
+
+    return [
+      {
+        fortnoxCompanyId: own?.fortnoxCompanyId || null,
+        fortnoxCompanyName: own?.fortnoxCompanyName || null,
+        own: true,
+        isDefault: !defaultCompanyId
+      },
+      ...(companies?.links || []).map(link => ({
+        fortnoxCompanyId: link.fortnoxCompanyId,
+        fortnoxCompanyName: link.fortnoxCompanyName,
+        own: false,
+        isDefault: link.fortnoxCompanyId === defaultCompanyId
+      }))
+    ];
+  }
+
+  /**
+   * Resolve the company for a tool call: the requested one, else the user's default
+   * Returns the linked company's ID, or undefined for the user's own company
+   */
+  async resolveCompany(userId: string, requestedCompanyId?: string): Promise<string | undefined> {
+    const companies = await this.storage.getUserCompanies(userId);
+    const companyId = requestedCompanyId || companies?.defaultCompanyId;
+    if (!companyId) return undefined;
+
+    if (companies?.links.some(l => l.fortnoxCompanyId === companyId)) {
+      return companyId;
+    }
+
+    const own = await this.storage.getIdentity(userId);
+    if (own?.fortnoxCompanyId === companyId) {
+      return undefined;
+    }
+
+    throw new Error(
+      `Fortnox company ${companyId} is not linked. Use fortnox_list_companies to see linked companies or fortnox_link_company to link it.`
+    );
+  }
+
+  /**
+   * Set the company used when a tool call doesn't pick one
+   * @param companyId - Linked company ID, or undefined for the user's own company
+   */
+  async setDefaultCompany(userId: string, companyId?: string): Promise<void> {
+    const companies = (await this.storage.getUserCompanies(userId)) || { links: [] };
+    const resolved = companyId ? await this.resolveCompany(userId, companyId) : undefined;
+    await this.storage.setUserCompanies(userId, { ...companies, defaultCompanyId: resolved });
+  }
+
+  /**
+   * Link a company to a user, after its tokens were stored under tokenUserId
+   * Linking the user's own company again does nothing
+   */
+  async linkCompany(userId: string, tokenUserId: string, identity: FortnoxIdentity): Promise<void> {
+    const own = await this.storage.getIdentity(userId);
+    if (own?.fortnoxCompanyId === identity.fortnoxCompanyId) return;
+
+    const companies = (await this.storage.getUserCompanies(userId)) || { links: [] };
+    const link: CompanyLink = {
+      fortnoxCompanyId: identity.fortnoxCompanyId,
+      fortnoxCompanyName: identity.fortnoxCompanyName || null,
+      tokenUserId,
+      linkedAt: Date.now()
+    };
+
+    await this.storage.setUserCompanies(userId, {
+      ...companies,
+      links: [...companies.links.filter(l => l.fortnoxCompanyId !== identity.fortnoxCompanyId), link]
+    });
+  }
+
+  /**
+   * Unlink a company from a user
+   * The company's tokens are kept (another user may have linked or signed in with
+   * the same Fortnox account) and expire when unused.
+   * @returns False if the company was not linked
+   */
+  async unlinkCompany(userId: string, companyId: string): Promise<boolean> {
+    const companies = await this.storage.getUserCompanies(userId);
+    if (!companies?.links.some(l => l.fortnoxCompanyId === companyId)) return false;
+
+    await this.storage.setUserCompanies(userId, {
+      links: companies.links.filter(l => l.fortnoxCompanyId !== companyId),
+      defaultCompanyId: companies.defaultCompanyId === companyId ? undefined : companies.defaultCompanyId
+    });
+    return true;
+  }
+
+  /**
+   * Delete token records replaced by a new authorization: other records for the
+   * same Fortnox company and user, and records the same MCP client stored for
+   * the company before the Fortnox user was resolved (they could be shared by
+   * several people, who get their own records when they sign in again)
+   */
+  private async removeStaleTokens(
+    userId: string,
+    identity: FortnoxIdentity,
+    mcpClientId: string
+  ): Promise<void> {
+    try {
+      const records = await this.storage.findByCompany(identity.fortnoxCompanyId);
+      const stale = records.filter(r => r.userId !== userId && (
+        r.fortnoxUserId === identity.fortnoxUserId ||
+        r.userId === `fortnox:${identity.fortnoxCompanyId}:client:${mcpClientId}`
+      ));
+      await Promise.all(stale.map(r => this.storage.delete(r.userId)));
+    } catch (error) {
+      console.error("[Auth] Could not remove stale tokens:", error instanceof Error ? error.message : error);
+    }
+  }
+
   private async refreshAccessToken(userId: string, tokens: TokenInfo): Promise<string> {
     if (!tokens.refreshToken) {
       throw new Error("No refresh token available");
@@ -147,7 +342,12 @@ export class DatabaseTokenProvider implements ITokenProvider {
         scope: response.data.scope
       };
 
-      await this.storeTokens(userId, newTokens);
+      // Records stored before identities were resolved get theirs on the next refresh
+      const identity = (await this.storage.getIdentity(userId))
+        ? undefined
+        : await this.resolveIdentity(newTokens.accessToken);
+
+      await this.storeTokens(userId, newTokens, identity || undefined);
       return newTokens.accessToken;
     } catch (error) {
       // Clear invalid tokens
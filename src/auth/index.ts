@@ -1,6 +1,7 @@
 export * from "./types.js";
 export * from "./context.js";
 export * from "./credentials.js";
+export * from "./scopes.js";
 export { EnvVarTokenProvider } from "./envVarProvider.js";
 export { DatabaseTokenProvider } from "./databaseProvider.js";
 export { FortnoxProxyOAuthProvider, getUserIdFromAuth } from "./oauthProvider.js";
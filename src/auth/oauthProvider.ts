@@ -12,15 +12,22 @@ import {
   OAuthTokenRevocationRequest,
 } from "@modelcontextprotocol/sdk/shared/auth.js";
 import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
-import { ITokenStorage } from "./storage/types.js";
+import { InvalidScopeError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { IOAuthStateStorage, ITokenStorage } from "./storage/types.js";
 import { DatabaseTokenProvider } from "./databaseProvider.js";
 import { FORTNOX_SCOPES } from "./credentials.js";
+import { MCP_SCOPES, grantScopes } from "./scopes.js";
 
 // JWT configuration
 const JWT_ALGORITHM = "HS256";
 const ACCESS_TOKEN_EXPIRES_IN = 3600; // 1 hour
 const REFRESH_TOKEN_EXPIRES_IN = 90 * 24 * 3600; // 90 days
 
+// OAuth proxy state TTLs
+const PENDING_AUTHORIZATION_TTL = 10 * 60; // 10 minutes
+const AUTHORIZATION_CODE_TTL = 5 * 60; // 5 minutes
+const CLIENT_TTL = REFRESH_TOKEN_EXPIRES_IN; // Extended whenever the client gets new tokens
+
 // Links MCP <-> Fortnox OAuth
 interface PendingAuthorization {
   mcpClient: OAuthClientInformationFull;
@@ -29,6 +36,22 @@ interface PendingAuthorization {
   createdAt: number;
 }
 
+// Links a company to a signed-in user (see fortnox_link_company)
+interface PendingLink {
+  userId: string;
+  mcpClientId: string;
+  createdAt: number;
+}
+
+/**
+ * Result of the Fortnox OAuth callback
+ * - authorize: redirect back to the MCP client with our authorization code
+ * - link: a company was linked to a signed-in user
+ */
+export type FortnoxCallbackResult =
+  | { type: "authorize"; redirectUri: string; code: string; state?: string }
+  | { type: "link"; companyName: string | null };
+
 interface IssuedCode {
   userId: string;
   clientId: string;
@@ -55,12 +78,8 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
   private jwtSecret: Uint8Array;
   private serverUrl: string;
   private tokenProvider: DatabaseTokenProvider;
-  private _clientsStore: InMemoryClientsStore;
-
-  // State storage (should use Redis/DB in production)
-  private pendingAuthorizations: Map<string, PendingAuthorization> = new Map();
-  private issuedCodes: Map<string, IssuedCode> = new Map();
-  private revokedTokens: Set<string> = new Set();
+  private stateStorage: IOAuthStateStorage;
+  private _clientsStore: StoredClientsStore;
 
   // Skip local PKCE validation since we handle it ourselves
   skipLocalPkceValidation = false;
@@ -68,12 +87,14 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
   constructor(
     jwtSecret: string,
     serverUrl: string,
-    tokenStorage: ITokenStorage
+    tokenStorage: ITokenStorage,
+    stateStorage: IOAuthStateStorage
   ) {
     this.jwtSecret = new TextEncoder().encode(jwtSecret);
     this.serverUrl = serverUrl;
     this.tokenProvider = new DatabaseTokenProvider(tokenStorage);
-    this._clientsStore = new InMemoryClientsStore();
+    this.stateStorage = stateStorage;
+    this._clientsStore = new StoredClientsStore(stateStorage);
   }
 
   get clientsStore(): OAuthRegisteredClientsStore {
@@ -92,16 +113,14 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
     // Generate state to link MCP request to Fortnox OAuth
     const oauthState = crypto.randomUUID();
 
-    // Store pending authorization
-    this.pendingAuthorizations.set(oauthState, {
+    // Store pending authorization (expires after 10 minutes)
+    const pending: PendingAuthorization = {
       mcpClient: client,
-      mcpParams: params,
+      mcpParams: { ...params, scopes: grantScopes(params.scopes) },
       codeChallenge: params.codeChallenge,
       createdAt: Date.now(),
-    });
-
-    // Clean up old pending authorizations (older than 10 minutes)
-    this.cleanupPendingAuthorizations();
+    };
+    await this.stateStorage.set("pending", oauthState, pending, PENDING_AUTHORIZATION_TTL);
 
     // Redirect to Fortnox OAuth
     const fortnoxAuthUrl = this.tokenProvider.getAuthorizationUrl(
@@ -113,55 +132,81 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
     res.redirect(fortnoxAuthUrl);
   }
 
+  /**
+   * Start linking another Fortnox company to a signed-in user
+   * Returns the Fortnox authorization URL for the user to open
+   */
+  async createLinkAuthorizationUrl(userId: string, mcpClientId: string): Promise<string> {
+    const oauthState = crypto.randomUUID();
+
+    // Store pending link (expires after 10 minutes)
+    const pending: PendingLink = { userId, mcpClientId, createdAt: Date.now() };
+    await this.stateStorage.set("link", oauthState, pending, PENDING_AUTHORIZATION_TTL);
+
+    return this.tokenProvider.getAuthorizationUrl(
+      `${this.serverUrl}/oauth/fortnox/callback`,
+      FORTNOX_SCOPES,
+      oauthState
+    );
+  }
+
   async handleFortnoxCallback(
     code: string,
     state: string
-  ): Promise<{ redirectUri: string; code: string; state?: string }> {
-    // Look up pending authorization
-    const pending = this.pendingAuthorizations.get(state);
+  ): Promise<FortnoxCallbackResult> {
+    // Look up and remove pending authorization (or company link)
+    const pending = await this.stateStorage.take<PendingAuthorization>("pending", state);
     if (!pending) {
-      throw new Error("Invalid or expired OAuth state");
+      const link = await this.stateStorage.take<PendingLink>("link", state);
+      if (!link) {
+        throw new Error("Invalid or expired OAuth state");
+      }
+      return this.completeLink(code, link);
     }
 
-    // Remove from pending
-    this.pendingAuthorizations.delete(state);
-
-    // Exchange Fortnox code for tokens
-    // Generate a unique user ID based on client ID and a random component
-    const userId = `${pending.mcpClient.client_id}:${crypto.randomUUID()}`;
-
-    await this.tokenProvider.exchangeAuthorizationCode(
+    // Exchange Fortnox code for tokens, stored under a user ID derived from the Fortnox company and user
+    const { userId } = await this.tokenProvider.exchangeAuthorizationCode(
       code,
       `${this.serverUrl}/oauth/fortnox/callback`,
-      userId
+      pending.mcpClient.client_id
     );
 
-    // Issue our own authorization code
+    // Issue our own authorization code (expires after 5 minutes)
     const mcpAuthCode = crypto.randomUUID();
-    this.issuedCodes.set(mcpAuthCode, {
+    const issued: IssuedCode = {
       userId,
       clientId: pending.mcpClient.client_id,
       codeChallenge: pending.codeChallenge,
       redirectUri: pending.mcpParams.redirectUri,
       scopes: pending.mcpParams.scopes || [],
       createdAt: Date.now(),
-    });
-
-    // Clean up old codes
-    this.cleanupIssuedCodes();
+    };
+    await this.stateStorage.set("code", mcpAuthCode, issued, AUTHORIZATION_CODE_TTL);
 
     return {
+      type: "authorize",
       redirectUri: pending.mcpParams.redirectUri,
       code: mcpAuthCode,
       state: pending.mcpParams.state,
     };
   }
 
+  private async completeLink(code: string, link: PendingLink): Promise<FortnoxCallbackResult> {
+    const { userId: tokenUserId, identity } = await this.tokenProvider.exchangeAuthorizationCode(
+      code,
+      `${this.serverUrl}/oauth/fortnox/callback`,
+      link.mcpClientId
+    );
+
+    await this.tokenProvider.linkCompany(link.userId, tokenUserId, identity);
+    return { type: "link", companyName: identity.fortnoxCompanyName || null };
+  }
+
   async challengeForAuthorizationCode(
     _client: OAuthClientInformationFull,
     authorizationCode: string
   ): Promise<string> {
-    const issued = this.issuedCodes.get(authorizationCode);
+    const issued = await this.stateStorage.get<IssuedCode>("code", authorizationCode);
     if (!issued) {
       throw new Error("Invalid authorization code");
     }
@@ -175,7 +220,8 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
     _redirectUri?: string,
     _resource?: URL
   ): Promise<OAuthTokens> {
-    const issued = this.issuedCodes.get(authorizationCode);
+    // Look up and remove the code, so it can only be used once
+    const issued = await this.stateStorage.take<IssuedCode>("code", authorizationCode);
     if (!issued) {
       throw new Error("Invalid authorization code");
     }
@@ -185,15 +231,13 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
       throw new Error("Client mismatch");
     }
 
-    // Remove used code
-    this.issuedCodes.delete(authorizationCode);
-
     // Check if code is expired (5 minutes)
-    if (Date.now() - issued.createdAt > 5 * 60 * 1000) {
+    if (Date.now() - issued.createdAt > AUTHORIZATION_CODE_TTL * 1000) {
       throw new Error("Authorization code expired");
     }
 
     // Issue JWT tokens
+    await this._clientsStore.touchClient(client);
     return this.issueTokens(issued.userId, issued.clientId, issued.scopes);
   }
 
@@ -211,21 +255,27 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
     }
 
     // Check if revoked
-    if (this.revokedTokens.has(refreshToken)) {
+    if (await this.isRevoked(refreshToken)) {
       throw new Error("Token has been revoked");
     }
 
+    // A refresh can narrow the granted scopes, never widen them
+    if (scopes?.some(scope => !payload.scopes.includes(scope))) {
+      throw new InvalidScopeError(`Refresh token was granted: ${payload.scopes.join(" ")}`);
+    }
+
     // Issue new tokens
+    await this._clientsStore.touchClient(client);
     return this.issueTokens(
       payload.userId,
       payload.clientId,
-      scopes || payload.scopes
+      scopes && scopes.length > 0 ? scopes : payload.scopes
     );
   }
 
   async verifyAccessToken(token: string): Promise<AuthInfo> {
     // Check if revoked
-    if (this.revokedTokens.has(token)) {
+    if (await this.isRevoked(token)) {
       throw new Error("Token has been revoked");
     }
 
@@ -246,7 +296,19 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
     _client: OAuthClientInformationFull,
     request: OAuthTokenRevocationRequest
   ): Promise<void> {
-    this.revokedTokens.add(request.token);
+    // Keep the revocation until the token would have expired anyway
+    let ttl = REFRESH_TOKEN_EXPIRES_IN;
+    try {
+      const { exp } = jose.decodeJwt(request.token);
+      if (exp) ttl = Math.max(exp - Math.floor(Date.now() / 1000), 1);
+    } catch {
+      // Not one of our JWTs - keep for the longest token lifetime
+    }
+    await this.stateStorage.set("revoked", hashToken(request.token), true, ttl);
+  }
+
+  private async isRevoked(token: string): Promise<boolean> {
+    return (await this.stateStorage.get<boolean>("revoked", hashToken(token))) !== null;
   }
 
   private async issueTokens(
@@ -312,7 +374,8 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
       return {
         userId: payload.userId as string,
         clientId: payload.clientId as string,
-        scopes: payload.scopes as string[],
+        // Tokens issued before scopes were enforced may carry none
+        scopes: (payload.scopes as string[] | undefined)?.length ? payload.scopes as string[] : MCP_SCOPES,
         exp: payload.exp as number,
       };
     } catch (error) {
@@ -322,41 +385,33 @@ export class FortnoxProxyOAuthProvider implements OAuthServerProvider {
       throw new Error("Invalid token");
     }
   }
+}
 
-  private cleanupPendingAuthorizations(): void {
-    const maxAge = 10 * 60 * 1000; // 10 minutes
-    const now = Date.now();
-
-    for (const [state, pending] of this.pendingAuthorizations) {
-      if (now - pending.createdAt > maxAge) {
-        this.pendingAuthorizations.delete(state);
-      }
-    }
-  }
+// Revoked tokens are stored by hash, so token values never reach storage
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
 
-  private cleanupIssuedCodes(): void {
-    const maxAge = 5 * 60 * 1000; // 5 minutes
-    const now = Date.now();
+// Dynamic client registration store
+class StoredClientsStore implements OAuthRegisteredClientsStore {
+  private stateStorage: IOAuthStateStorage;
 
-    for (const [code, issued] of this.issuedCodes) {
-      if (now - issued.createdAt > maxAge) {
-        this.issuedCodes.delete(code);
-      }
-    }
+  constructor(stateStorage: IOAuthStateStorage) {
+    this.stateStorage = stateStorage;
   }
-}
 
-// Dynamic client registration store
-class InMemoryClientsStore implements OAuthRegisteredClientsStore {
-  private clients: Map<string, OAuthClientInformationFull> = new Map();
+  async getClient(clientId: string): Promise<OAuthClientInformationFull | undefined> {
+    return (await this.stateStorage.get<OAuthClientInformationFull>("client", clientId)) || undefined;
+  }
 
-  getClient(clientId: string): OAuthClientInformationFull | undefined {
-    return this.clients.get(clientId);
+  // Extend the registration of a client that is still in use
+  async touchClient(client: OAuthClientInformationFull): Promise<void> {
+    await this.stateStorage.set("client", client.client_id, client, CLIENT_TTL);
   }
 
-  registerClient(
+  async registerClient(
     client: Omit<OAuthClientInformationFull, "client_id" | "client_id_issued_at">
-  ): OAuthClientInformationFull {
+  ): Promise<OAuthClientInformationFull> {
     const clientId = `client_${crypto.randomUUID()}`;
     const fullClient: OAuthClientInformationFull = {
       ...client,
@@ -364,7 +419,7 @@ class InMemoryClientsStore implements OAuthRegisteredClientsStore {
       client_id_issued_at: Math.floor(Date.now() / 1000),
     };
 
-    this.clients.set(clientId, fullClient);
+    await this.stateStorage.set("client", clientId, fullClient, CLIENT_TTL);
     return fullClient;
   }
 }
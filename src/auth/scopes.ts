@@ -0,0 +1,54 @@
+import { InvalidScopeError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { getRequestContext } from "./context.js";
+
+/**
+ * MCP scopes granted to clients of the remote server
+ * - fortnox:read: read-only tools
+ * - fortnox:write: tools that create, change or delete data
+ */
+export const FORTNOX_READ_SCOPE = "fortnox:read";
+export const FORTNOX_WRITE_SCOPE = "fortnox:write";
+export const MCP_SCOPES = [FORTNOX_READ_SCOPE, FORTNOX_WRITE_SCOPE];
+
+// Tools that change only this server's state for the user (which companies are
+// linked and active) and never write to Fortnox
+const SERVER_STATE_TOOLS = new Set([
+  "fortnox_set_active_company",
+  "fortnox_link_company",
+  "fortnox_unlink_company"
+]);
+
+/**
+ * Scopes to grant for an authorization request
+ * Clients that request no scope get all of them; unknown scopes are ignored
+ */
+export function grantScopes(requested?: string[]): string[] {
+  if (!requested || requested.length === 0) {
+    return MCP_SCOPES;
+  }
+
+  const granted = MCP_SCOPES.filter(scope => requested.includes(scope));
+  if (granted.length === 0) {
+    throw new InvalidScopeError(`Supported scopes: ${MCP_SCOPES.join(", ")}`);
+  }
+  return granted;
+}
+
+/**
+ * Scope a tool needs: fortnox:write for tools that write to Fortnox, fortnox:read for
+ * read-only tools and tools that only change this server's state (e.g., the active company)
+ */
+export function getRequiredScope(toolName: string, annotations?: { readOnlyHint?: boolean }): string {
+  return annotations?.readOnlyHint === true || SERVER_STATE_TOOLS.has(toolName)
+    ? FORTNOX_READ_SCOPE
+    : FORTNOX_WRITE_SCOPE;
+}
+
+/**
+ * Check whether the current request was granted a scope
+ * Requests without scopes in their context (local mode) are not restricted
+ */
+export function hasScope(scope: string): boolean {
+  const scopes = getRequestContext()?.scopes;
+  return scopes === undefined || scopes.includes(scope);
+}
@@ -6,10 +6,14 @@ export {
   getVercelKVStorage,
   getUpstashRedisStorage
 } from "./vercelKV.js";
+export { MemoryOAuthStateStorage } from "./memoryOAuthState.js";
+export { UpstashRedisOAuthStateStorage } from "./redisOAuthState.js";
 
-import { ITokenStorage } from "./types.js";
+import { IOAuthStateStorage, ITokenStorage } from "./types.js";
 import { MemoryTokenStorage } from "./memory.js";
 import { UpstashRedisTokenStorage } from "./vercelKV.js";
+import { MemoryOAuthStateStorage } from "./memoryOAuthState.js";
+import { UpstashRedisOAuthStateStorage } from "./redisOAuthState.js";
 
 export type StorageType = "memory" | "vercel-kv" | "upstash-redis";
 
@@ -40,3 +44,33 @@ export function getStorageFromEnv(): ITokenStorage {
   console.error("[Storage] Warning: Using in-memory storage. Tokens will be lost on restart.");
   return new MemoryTokenStorage();
 }
+
+export function createOAuthStateStorage(type: StorageType): IOAuthStateStorage {
+  switch (type) {
+    case "vercel-kv":
+    case "upstash-redis":
+      return new UpstashRedisOAuthStateStorage();
+    case "memory":
+    default:
+      return new MemoryOAuthStateStorage();
+  }
+}
+
+/**
+ * OAuth proxy state storage, using the same backend as token storage (TOKEN_STORAGE)
+ */
+export function getOAuthStateStorageFromEnv(): IOAuthStateStorage {
+  const storageType = process.env.TOKEN_STORAGE as StorageType | undefined;
+
+  if (storageType) {
+    return createOAuthStateStorage(storageType);
+  }
+
+  // Auto-detect based on environment
+  if (process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL) {
+    return new UpstashRedisOAuthStateStorage();
+  }
+
+  console.error("[Storage] Warning: Using in-memory OAuth state. Registered clients will be lost on restart.");
+  return new MemoryOAuthStateStorage();
+}
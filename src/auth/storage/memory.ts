@@ -1,5 +1,5 @@
 import { TokenInfo } from "../types.js";
-import { ITokenStorage, StoredTokenInfo } from "./types.js";
+import { FortnoxIdentity, ITokenStorage, StoredTokenInfo, UserCompanies } from "./types.js";
 
 /**
  * In-memory token storage
@@ -8,6 +8,7 @@ import { ITokenStorage, StoredTokenInfo } from "./types.js";
  */
 export class MemoryTokenStorage implements ITokenStorage {
   private tokens: Map<string, StoredTokenInfo> = new Map();
+  private companies: Map<string, UserCompanies> = new Map();
 
   async get(userId: string): Promise<TokenInfo | null> {
     const stored = this.tokens.get(userId);
@@ -22,12 +23,15 @@ export class MemoryTokenStorage implements ITokenStorage {
     };
   }
 
-  async set(userId: string, tokens: TokenInfo): Promise<void> {
+  async set(userId: string, tokens: TokenInfo, identity?: FortnoxIdentity): Promise<void> {
     const existing = this.tokens.get(userId);
     const now = Date.now();
 
     const stored: StoredTokenInfo = {
       ...tokens,
+      fortnoxCompanyId: identity?.fortnoxCompanyId ?? existing?.fortnoxCompanyId,
+      fortnoxUserId: identity ? identity.fortnoxUserId : existing?.fortnoxUserId,
+      fortnoxCompanyName: identity ? identity.fortnoxCompanyName : existing?.fortnoxCompanyName,
       createdAt: existing?.createdAt || now,
       updatedAt: now
     };
@@ -35,6 +39,30 @@ export class MemoryTokenStorage implements ITokenStorage {
     this.tokens.set(userId, stored);
   }
 
+  async getIdentity(userId: string): Promise<FortnoxIdentity | null> {
+    const stored = this.tokens.get(userId);
+    if (!stored?.fortnoxCompanyId) return null;
+    return {
+      fortnoxCompanyId: stored.fortnoxCompanyId,
+      fortnoxUserId: stored.fortnoxUserId,
+      fortnoxCompanyName: stored.fortnoxCompanyName
+    };
+  }
+
+  async findByCompany(fortnoxCompanyId: string): Promise<Array<FortnoxIdentity & { userId: string }>> {
+    return Array.from(this.tokens.entries())
+      .filter(([, stored]) => stored.fortnoxCompanyId === fortnoxCompanyId)
+      .map(([userId, stored]) => ({ userId, fortnoxCompanyId, fortnoxUserId: stored.fortnoxUserId }));
+  }
+
+  async getUserCompanies(userId: string): Promise<UserCompanies | null> {
+    return this.companies.get(userId) || null;
+  }
+
+  async setUserCompanies(userId: string, companies: UserCompanies): Promise<void> {
+    this.companies.set(userId, companies);
+  }
+
   async delete(userId: string): Promise<void> {
     this.tokens.delete(userId);
   }
@@ -0,0 +1,48 @@
+import { IOAuthStateStorage, OAuthStateKind } from "./types.js";
+
+/**
+ * In-memory OAuth proxy state storage
+ * Useful for development and single-instance servers
+ * WARNING: Registered clients and pending authorizations are lost when the server restarts
+ */
+export class MemoryOAuthStateStorage implements IOAuthStateStorage {
+  private entries: Map<string, { value: unknown; expiresAt: number }> = new Map();
+
+  private key(kind: OAuthStateKind, key: string): string {
+    return `${kind}:${key}`;
+  }
+
+  async get<T>(kind: OAuthStateKind, key: string): Promise<T | null> {
+    const entry = this.entries.get(this.key(kind, key));
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(this.key(kind, key));
+      return null;
+    }
+    return entry.value as T;
+  }
+
+  async set(kind: OAuthStateKind, key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    this.cleanup();
+    this.entries.set(this.key(kind, key), { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async take<T>(kind: OAuthStateKind, key: string): Promise<T | null> {
+    const value = await this.get<T>(kind, key);
+    this.entries.delete(this.key(kind, key));
+    return value;
+  }
+
+  /**
+   * Remove expired entries
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
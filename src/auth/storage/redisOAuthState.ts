@@ -0,0 +1,63 @@
+import { IOAuthStateStorage, OAuthStateKind } from "./types.js";
+
+/**
+ * Upstash Redis OAuth proxy state storage
+ * Shared between all server instances (e.g., on Vercel), so the Fortnox callback
+ * and the token exchange can land on a different instance than /authorize
+ *
+ * Uses the same Redis as UpstashRedisTokenStorage:
+ * - UPSTASH_REDIS_REST_URL: Upstash Redis REST URL (or KV_REST_API_URL for backwards compat)
+ * - UPSTASH_REDIS_REST_TOKEN: Upstash Redis REST token (or KV_REST_API_TOKEN)
+ */
+export class UpstashRedisOAuthStateStorage implements IOAuthStateStorage {
+  private prefix: string;
+  private redis: import("@upstash/redis").Redis | null = null;
+
+  constructor(prefix = "fortnox_oauth:") {
+    this.prefix = prefix;
+  }
+
+  /**
+   * Lazy load the Redis client to avoid issues when @upstash/redis is not installed
+   */
+  private async getRedis() {
+    if (!this.redis) {
+      try {
+        const { Redis } = await import("@upstash/redis");
+
+        const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+        const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+
+        if (!url || !token) {
+          throw new Error("Missing Redis configuration");
+        }
+
+        this.redis = new Redis({ url, token });
+      } catch (error) {
+        throw new Error(
+          "Upstash Redis not available. Install @upstash/redis and configure UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN."
+        );
+      }
+    }
+    return this.redis;
+  }
+
+  private key(kind: OAuthStateKind, key: string): string {
+    return `${this.prefix}${kind}:${key}`;
+  }
+
+  async get<T>(kind: OAuthStateKind, key: string): Promise<T | null> {
+    const redis = await this.getRedis();
+    return redis.get<T>(this.key(kind, key));
+  }
+
+  async set(kind: OAuthStateKind, key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    const redis = await this.getRedis();
+    await redis.set(this.key(kind, key), value, { ex: ttlSeconds });
+  }
+
+  async take<T>(kind: OAuthStateKind, key: string): Promise<T | null> {
+    const redis = await this.getRedis();
+    return redis.getdel<T>(this.key(kind, key));
+  }
+}
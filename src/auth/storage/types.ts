@@ -16,8 +16,36 @@ export interface ITokenStorage {
    * Store tokens for a user
    * @param userId - Unique user identifier
    * @param tokens - Token information to store
+   * @param identity - Fortnox company and user the tokens belong to (kept from the stored record if omitted)
    */
-  set(userId: string, tokens: TokenInfo): Promise<void>;
+  set(userId: string, tokens: TokenInfo, identity?: FortnoxIdentity): Promise<void>;
+
+  /**
+   * Get the Fortnox company and user a user's tokens belong to
+   * @param userId - Unique user identifier
+   * @returns Identity or null if not found or not known (records stored before identities were resolved)
+   */
+  getIdentity(userId: string): Promise<FortnoxIdentity | null>;
+
+  /**
+   * Find the users with tokens for a Fortnox company
+   * @param fortnoxCompanyId - Fortnox company ID
+   */
+  findByCompany(fortnoxCompanyId: string): Promise<Array<FortnoxIdentity & { userId: string }>>;
+
+  /**
+   * Get the Fortnox companies linked to a user
+   * @param userId - Unique user identifier
+   * @returns Linked companies or null if the user has not linked any
+   */
+  getUserCompanies(userId: string): Promise<UserCompanies | null>;
+
+  /**
+   * Store the Fortnox companies linked to a user
+   * @param userId - Unique user identifier
+   * @param companies - Linked companies and the default
+   */
+  setUserCompanies(userId: string, companies: UserCompanies): Promise<void>;
 
   /**
    * Delete tokens for a user
@@ -32,14 +60,93 @@ export interface ITokenStorage {
   exists(userId: string): Promise<boolean>;
 }
 
+/**
+ * Fortnox company and user that tokens were issued for
+ */
+export interface FortnoxIdentity {
+  /** Fortnox company ID (the company's database number) */
+  fortnoxCompanyId: string;
+  /** Fortnox user ID (missing on records stored before users were resolved) */
+  fortnoxUserId?: string;
+  /** Company name */
+  fortnoxCompanyName?: string;
+}
+
+/**
+ * Fortnox company linked to a user in addition to the one they signed in with
+ */
+export interface CompanyLink {
+  fortnoxCompanyId: string;
+  fortnoxCompanyName: string | null;
+  /** User ID the company's tokens are stored under */
+  tokenUserId: string;
+  /** When the company was linked (ms since epoch) */
+  linkedAt: number;
+}
+
+/**
+ * Fortnox companies linked to a user
+ */
+export interface UserCompanies {
+  links: CompanyLink[];
+  /** Company used when a tool call doesn't pick one (the user's own company if not set) */
+  defaultCompanyId?: string;
+}
+
 /**
  * Extended token info with additional metadata for storage
  */
 export interface StoredTokenInfo extends TokenInfo {
   /** Fortnox company ID associated with these tokens */
   fortnoxCompanyId?: string;
+  /** Fortnox user ID associated with these tokens */
+  fortnoxUserId?: string;
+  /** Name of the Fortnox company */
+  fortnoxCompanyName?: string;
   /** When the tokens were first stored */
   createdAt: number;
   /** When the tokens were last updated */
   updatedAt: number;
 }
+
+/**
+ * Kinds of OAuth proxy state (see FortnoxProxyOAuthProvider)
+ * - pending: MCP authorization waiting for the Fortnox callback, by OAuth state
+ * - link: company link waiting for the Fortnox callback, by OAuth state
+ * - code: authorization code issued to an MCP client, by code
+ * - client: dynamically registered MCP client, by client ID
+ * - revoked: revoked access or refresh token, by token hash
+ */
+export type OAuthStateKind = "pending" | "link" | "code" | "client" | "revoked";
+
+/**
+ * Interface for OAuth proxy state backends (memory, Upstash Redis)
+ * Shared between server instances so an OAuth flow can continue on another instance
+ */
+export interface IOAuthStateStorage {
+  /**
+   * Get a state entry
+   * @param kind - Kind of state
+   * @param key - Entry key
+   * @returns The entry or null if not found or expired
+   */
+  get<T>(kind: OAuthStateKind, key: string): Promise<T | null>;
+
+  /**
+   * Store a state entry
+   * @param kind - Kind of state
+   * @param key - Entry key
+   * @param value - Entry to store
+   * @param ttlSeconds - Time to live in seconds
+   */
+  set(kind: OAuthStateKind, key: string, value: unknown, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Get and delete a state entry in one step, so single-use entries
+   * (OAuth states, authorization codes) can be used only once
+   * @param kind - Kind of state
+   * @param key - Entry key
+   * @returns The entry or null if not found or expired
+   */
+  take<T>(kind: OAuthStateKind, key: string): Promise<T | null>;
+}
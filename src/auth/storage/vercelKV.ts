@@ -1,5 +1,5 @@
 import { TokenInfo } from "../types.js";
-import { ITokenStorage, StoredTokenInfo } from "./types.js";
+import { FortnoxIdentity, ITokenStorage, StoredTokenInfo, UserCompanies } from "./types.js";
 
 // Token TTL: 90 days in seconds
 const TOKEN_TTL_SECONDS = 90 * 24 * 60 * 60;
@@ -7,6 +7,7 @@ const TOKEN_TTL_SECONDS = 90 * 24 * 60 * 60;
 /**
  * Upstash Redis token storage
  * Uses Upstash's serverless Redis for token persistence on Vercel
+ * Keeps a set of user IDs per Fortnox company to find a company's records
  *
  * Required environment variables:
  * - UPSTASH_REDIS_REST_URL: Upstash Redis REST URL (or KV_REST_API_URL for backwards compat)
@@ -50,6 +51,14 @@ export class UpstashRedisTokenStorage implements ITokenStorage {
     return `${this.prefix}${userId}`;
   }
 
+  private companyKey(fortnoxCompanyId: string): string {
+    return `${this.prefix}company:${fortnoxCompanyId}`;
+  }
+
+  private userCompaniesKey(userId: string): string {
+    return `${this.prefix}companies:${userId}`;
+  }
+
   async get(userId: string): Promise<TokenInfo | null> {
     const redis = await this.getRedis();
     const stored = await redis.get<StoredTokenInfo>(this.key(userId));
@@ -64,24 +73,81 @@ export class UpstashRedisTokenStorage implements ITokenStorage {
     };
   }
 
-  async set(userId: string, tokens: TokenInfo): Promise<void> {
+  async set(userId: string, tokens: TokenInfo, identity?: FortnoxIdentity): Promise<void> {
     const redis = await this.getRedis();
     const existing = await redis.get<StoredTokenInfo>(this.key(userId));
     const now = Date.now();
 
     const stored: StoredTokenInfo = {
       ...tokens,
+      fortnoxCompanyId: identity?.fortnoxCompanyId ?? existing?.fortnoxCompanyId,
+      fortnoxUserId: identity ? identity.fortnoxUserId : existing?.fortnoxUserId,
+      fortnoxCompanyName: identity ? identity.fortnoxCompanyName : existing?.fortnoxCompanyName,
       createdAt: existing?.createdAt || now,
       updatedAt: now
     };
 
     // Set with TTL for automatic cleanup
     await redis.set(this.key(userId), stored, { ex: TOKEN_TTL_SECONDS });
+
+    if (stored.fortnoxCompanyId) {
+      const companyKey = this.companyKey(stored.fortnoxCompanyId);
+      await redis.sadd(companyKey, userId);
+      await redis.expire(companyKey, TOKEN_TTL_SECONDS);
+    }
+  }
+
+  async getIdentity(userId: string): Promise<FortnoxIdentity | null> {
+    const redis = await this.getRedis();
+    const stored = await redis.get<StoredTokenInfo>(this.key(userId));
+    if (!stored?.fortnoxCompanyId) return null;
+    return {
+      fortnoxCompanyId: stored.fortnoxCompanyId,
+      fortnoxUserId: stored.fortnoxUserId,
+      fortnoxCompanyName: stored.fortnoxCompanyName
+    };
+  }
+
+  async findByCompany(fortnoxCompanyId: string): Promise<Array<FortnoxIdentity & { userId: string }>> {
+    const redis = await this.getRedis();
+    const companyKey = this.companyKey(fortnoxCompanyId);
+    const userIds = await redis.smembers(companyKey);
+
+    const records: Array<FortnoxIdentity & { userId: string }> = [];
+    for (const userId of userIds) {
+      const stored = await redis.get<StoredTokenInfo>(this.key(userId));
+      if (stored?.fortnoxCompanyId === fortnoxCompanyId) {
+        records.push({ userId, fortnoxCompanyId, fortnoxUserId: stored.fortnoxUserId });
+      } else {
+        // Expired or moved to another company
+        await redis.srem(companyKey, userId);
+      }
+    }
+    return records;
+  }
+
+  async getUserCompanies(userId: string): Promise<UserCompanies | null> {
+    const redis = await this.getRedis();
+    const companies = await redis.get<UserCompanies>(this.userCompaniesKey(userId));
+    if (companies) {
+      // Links stay as long as the user is active
+      await redis.expire(this.userCompaniesKey(userId), TOKEN_TTL_SECONDS);
+    }
+    return companies;
+  }
+
+  async setUserCompanies(userId: string, companies: UserCompanies): Promise<void> {
+    const redis = await this.getRedis();
+    await redis.set(this.userCompaniesKey(userId), companies, { ex: TOKEN_TTL_SECONDS });
   }
 
   async delete(userId: string): Promise<void> {
     const redis = await this.getRedis();
+    const existing = await redis.get<StoredTokenInfo>(this.key(userId));
     await redis.del(this.key(userId));
+    if (existing?.fortnoxCompanyId) {
+      await redis.srem(this.companyKey(existing.fortnoxCompanyId), userId);
+    }
   }
 
   async exists(userId: string): Promise<boolean> {
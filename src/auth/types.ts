@@ -7,7 +7,7 @@ export interface TokenInfo {
 
 // Abstraction for local/remote token retrieval
 export interface ITokenProvider {
-  getAccessToken(userId?: string): Promise<string>;
+  getAccessToken(userId?: string, companyId?: string): Promise<string>;
   isAuthenticated(userId?: string): boolean;
   getTokenInfo(userId?: string): TokenInfo | null;
 }
@@ -15,6 +15,12 @@ export interface ITokenProvider {
 export interface RequestContext {
   userId?: string;
   sessionId?: string;
+  /** MCP client the user authorized (remote mode) */
+  clientId?: string;
+  /** Linked Fortnox company to use instead of the user's own (remote mode) */
+  companyId?: string;
+  /** Scopes granted to the MCP client (remote mode); tools are not restricted when unset */
+  scopes?: string[];
 }
 
 export class AuthRequiredError extends Error {
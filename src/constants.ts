@@ -6,8 +6,15 @@ export const FORTNOX_OAUTH_URL = "https://apps.fortnox.se/oauth-v1";
 export const RATE_LIMIT_REQUESTS = 25;
 export const RATE_LIMIT_WINDOW_MS = 5000;
 
+// Retries for rate limited (429), server error (5xx) and network failures
+export const MAX_RETRIES = 3;
+export const RETRY_BASE_DELAY_MS = 1000;
+export const RETRY_MAX_DELAY_MS = 10000;
+export const RETRY_AFTER_MAX_MS = 30000; // Give up if Fortnox asks us to wait longer than this
+
 // Response limits
 export const CHARACTER_LIMIT = 25000;
+export const SIE_RESOURCE_CHARACTER_LIMIT = 1000000; // Larger SIE files are not attached as a resource
 export const DEFAULT_PAGE_SIZE = 20;
 export const MAX_PAGE_SIZE = 100;
 
@@ -19,6 +26,25 @@ export const MAX_FETCH_ALL_RESULTS = 10000;
 export const MAX_FETCH_ALL_PAGES = 100;
 export const FETCH_ALL_PAGE_SIZE = 100;
 export const FETCH_ALL_DELAY_MS = 250; // Stay under 25 req/5sec rate limit
+export const FETCH_ALL_CONCURRENCY = 5; // Parallel page requests once the total is known
+export const DETAIL_FETCH_BATCH_SIZE = 10; // Parallel detail requests per batch
+
+// Response cache for GET requests
+export const RESPONSE_CACHE_TTL_SECONDS = 300;
+
+// Confirmation tokens for destructive tools
+export const CONFIRMATION_TOKEN_TTL_SECONDS = 300;
+
+// Audit log
+export const AUDIT_LOG_REDIS_MAX_ENTRIES = 10000; // Per user, oldest entries are dropped
+export const AUDIT_LOG_DEFAULT_LIMIT = 50;
+export const AUDIT_LOG_MAX_LIMIT = 500;
+
+// Ledger cache
+export const LEDGER_CACHE_REFRESH_INTERVAL_MS = 60 * 1000; // Min time between incremental refreshes
+export const LEDGER_CACHE_MODIFIED_MARGIN_MS = 5 * 60 * 1000; // lastmodified overlap to cover clock skew
+export const LEDGER_CACHE_MEMORY_MAX_ENTRIES = 50; // Ledgers (user and financial year) kept by the memory cache
+export const LEDGER_CACHE_REDIS_TTL_SECONDS = 30 * 24 * 60 * 60; // Redis ledgers not synced for 30 days expire
 
 // Response format enum
 export enum ResponseFormat {
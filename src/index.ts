@@ -31,8 +31,9 @@ import express from "express";
 
 import { loadConfig, validateEnvironment, logConfig } from "./config.js";
 import { getFortnoxAuth } from "./services/auth.js";
-import { getStorageFromEnv } from "./auth/storage/index.js";
+import { getStorageFromEnv, getOAuthStateStorageFromEnv } from "./auth/storage/index.js";
 import { runRemoteServer } from "./server/remote.js";
+import { instrumentToolCalls } from "./services/toolInstrumentation.js";
 import { registerCustomerTools } from "./tools/customers.js";
 import { registerInvoiceTools } from "./tools/invoices.js";
 import { registerSupplierTools } from "./tools/suppliers.js";
@@ -43,6 +44,12 @@ import { registerAnalyticsTools } from "./tools/analytics.js";
 import { registerSupplierInvoiceTools } from "./tools/supplierInvoices.js";
 import { registerOrderTools } from "./tools/orders.js";
 import { registerBIAnalyticsTools } from "./tools/biAnalytics.js";
+import { registerProjectTools } from "./tools/projects.js";
+import { registerArticleTools } from "./tools/articles.js";
+import { registerInvoicePaymentTools } from "./tools/invoicePayments.js";
+import { registerSieTools } from "./tools/sie.js";
+import { registerFinancialStatementTools } from "./tools/financialStatements.js";
+import { registerAuditTools } from "./tools/audit.js";
 
 function createMcpServer(): McpServer {
   const server = new McpServer({
@@ -50,6 +57,8 @@ function createMcpServer(): McpServer {
     version: "1.0.0"
   });
 
+  instrumentToolCalls(server);
+
   registerCustomerTools(server);
   registerInvoiceTools(server);
   registerSupplierTools(server);
@@ -60,6 +69,12 @@ function createMcpServer(): McpServer {
   registerAnalyticsTools(server);
   registerOrderTools(server);
   registerBIAnalyticsTools(server);
+  registerProjectTools(server);
+  registerArticleTools(server);
+  registerInvoicePaymentTools(server);
+  registerSieTools(server);
+  registerFinancialStatementTools(server);
+  registerAuditTools(server);
 
   return server;
 }
@@ -129,10 +144,12 @@ async function main(): Promise<void> {
     if (config.authMode === "remote") {
       // Remote mode: OAuth with token storage
       const tokenStorage = getStorageFromEnv();
+      const oauthStateStorage = getOAuthStateStorageFromEnv();
       await runRemoteServer({
         serverUrl: config.serverUrl!,
         jwtSecret: config.jwtSecret!,
         tokenStorage,
+        oauthStateStorage,
         port: config.port,
       });
     } else if (config.transport === "http") {
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { ResponseFormat } from "../constants.js";
 import { DatePeriodEnum } from "./invoices.js";
+import { CursorSchema } from "./common.js";
 
 /**
  * Schema for invoice summary analytics tool
@@ -36,6 +37,7 @@ export const InvoiceSummarySchema = z.object({
   include_details: z.boolean()
     .default(false)
     .describe("Include list of individual invoices in the response"),
+  cursor: CursorSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
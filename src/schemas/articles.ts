@@ -0,0 +1,260 @@
+import { z } from "zod";
+import { ResponseFormat, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../constants.js";
+import { CursorSchema } from "./common.js";
+
+/**
+ * Article type enum
+ */
+export const ArticleTypeEnum = z.enum(["STOCK", "SERVICE"]);
+
+/**
+ * Schema for listing articles/products
+ */
+export const ListArticlesSchema = z.object({
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .default(DEFAULT_PAGE_SIZE)
+    .describe("Maximum number of results to return (1-100)"),
+  page: z.number()
+    .int()
+    .min(1)
+    .default(1)
+    .describe("Page number for pagination"),
+  filter: z.enum(["active", "inactive"])
+    .optional()
+    .describe("Filter by article status"),
+  search_description: z.string()
+    .max(200)
+    .optional()
+    .describe("Search articles by description (partial match)"),
+  article_number: z.string()
+    .max(50)
+    .optional()
+    .describe("Filter by article number"),
+  supplier_number: z.string()
+    .max(50)
+    .optional()
+    .describe("Filter by supplier number"),
+  sort_by: z.enum(["articlenumber", "quantityinstock", "reservedquantity", "stockvalue"])
+    .optional()
+    .describe("Field to sort results by"),
+  fetch_all: z.boolean()
+    .default(false)
+    .describe("Fetch all results by auto-paginating (max 10,000 results)"),
+  cursor: CursorSchema,
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type ListArticlesInput = z.infer<typeof ListArticlesSchema>;
+
+/**
+ * Schema for getting a single article
+ */
+export const GetArticleSchema = z.object({
+  article_number: z.string()
+    .min(1)
+    .describe("The article number to retrieve"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type GetArticleInput = z.infer<typeof GetArticleSchema>;
+
+/**
+ * Schema for creating an article
+ */
+export const CreateArticleSchema = z.object({
+  description: z.string()
+    .min(1)
+    .max(200)
+    .describe("Article description/name (required)"),
+  article_number: z.string()
+    .max(50)
+    .optional()
+    .describe("Article number (auto-generated if not provided)"),
+  type: ArticleTypeEnum
+    .optional()
+    .describe("Article type: 'STOCK' for goods, 'SERVICE' for services"),
+  unit: z.string()
+    .max(50)
+    .optional()
+    .describe("Unit code (e.g., 'st', 'h'). Use fortnox_list_units to see available units."),
+  sales_price: z.number()
+    .min(0)
+    .optional()
+    .describe("Sales price in the default price list (excluding VAT)"),
+  purchase_price: z.number()
+    .min(0)
+    .optional()
+    .describe("Purchase price (used for margin calculations)"),
+  vat: z.number()
+    .min(0)
+    .max(100)
+    .optional()
+    .describe("VAT percentage (e.g., 25, 12, 6, 0)"),
+  stock_goods: z.boolean()
+    .optional()
+    .describe("Whether the article is tracked in stock"),
+  quantity_in_stock: z.number()
+    .optional()
+    .describe("Current quantity in stock (only for stock goods)"),
+  stock_place: z.string()
+    .max(100)
+    .optional()
+    .describe("Stock place/location"),
+  ean: z.string()
+    .max(30)
+    .optional()
+    .describe("EAN barcode"),
+  sales_account: z.number()
+    .int()
+    .min(1000)
+    .max(9999)
+    .optional()
+    .describe("Sales account number (e.g., 3001)"),
+  purchase_account: z.number()
+    .int()
+    .min(1000)
+    .max(9999)
+    .optional()
+    .describe("Purchase account number (e.g., 4000)"),
+  supplier_number: z.string()
+    .max(50)
+    .optional()
+    .describe("Default supplier number"),
+  note: z.string()
+    .max(10000)
+    .optional()
+    .describe("Internal note"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type CreateArticleInput = z.infer<typeof CreateArticleSchema>;
+
+/**
+ * Schema for updating an article
+ */
+export const UpdateArticleSchema = z.object({
+  article_number: z.string()
+    .min(1)
+    .describe("The article number to update (required)"),
+  description: z.string()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe("Article description/name"),
+  type: ArticleTypeEnum
+    .optional()
+    .describe("Article type: 'STOCK' for goods, 'SERVICE' for services"),
+  unit: z.string()
+    .max(50)
+    .optional()
+    .describe("Unit code (e.g., 'st', 'h')"),
+  sales_price: z.number()
+    .min(0)
+    .optional()
+    .describe("Sales price in the default price list (excluding VAT)"),
+  purchase_price: z.number()
+    .min(0)
+    .optional()
+    .describe("Purchase price"),
+  vat: z.number()
+    .min(0)
+    .max(100)
+    .optional()
+    .describe("VAT percentage (e.g., 25, 12, 6, 0)"),
+  stock_goods: z.boolean()
+    .optional()
+    .describe("Whether the article is tracked in stock"),
+  quantity_in_stock: z.number()
+    .optional()
+    .describe("Current quantity in stock (only for stock goods)"),
+  stock_place: z.string()
+    .max(100)
+    .optional()
+    .describe("Stock place/location"),
+  ean: z.string()
+    .max(30)
+    .optional()
+    .describe("EAN barcode"),
+  sales_account: z.number()
+    .int()
+    .min(1000)
+    .max(9999)
+    .optional()
+    .describe("Sales account number"),
+  purchase_account: z.number()
+    .int()
+    .min(1000)
+    .max(9999)
+    .optional()
+    .describe("Purchase account number"),
+  supplier_number: z.string()
+    .max(50)
+    .optional()
+    .describe("Default supplier number"),
+  active: z.boolean()
+    .optional()
+    .describe("Whether the article is active"),
+  note: z.string()
+    .max(10000)
+    .optional()
+    .describe("Internal note"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type UpdateArticleInput = z.infer<typeof UpdateArticleSchema>;
+
+/**
+ * Schema for listing units
+ */
+export const ListUnitsSchema = z.object({
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type ListUnitsInput = z.infer<typeof ListUnitsSchema>;
+
+/**
+ * Schema for listing price lists
+ */
+export const ListPriceListsSchema = z.object({
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type ListPriceListsInput = z.infer<typeof ListPriceListsSchema>;
+
+/**
+ * Schema for getting the prices of an article in a price list
+ */
+export const GetArticlePriceSchema = z.object({
+  article_number: z.string()
+    .min(1)
+    .describe("The article number to look up prices for"),
+  price_list: z.string()
+    .min(1)
+    .max(50)
+    .default("A")
+    .describe("Price list code (default: 'A', the standard price list). Use fortnox_list_price_lists to see available lists."),
+  quantity: z.number()
+    .positive()
+    .optional()
+    .describe("Quantity to price. Selects the applicable quantity-tier price."),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type GetArticlePriceInput = z.infer<typeof GetArticlePriceSchema>;
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { ResponseFormat, AUDIT_LOG_DEFAULT_LIMIT, AUDIT_LOG_MAX_LIMIT } from "../constants.js";
+
+/**
+ * Schema for querying the audit log
+ */
+export const AuditLogSchema = z.object({
+  tool: z.string()
+    .optional()
+    .describe("Only writes sent by this tool (e.g., 'fortnox_bookkeep_invoice')"),
+  from_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Only writes on or after this date (YYYY-MM-DD, UTC)"),
+  to_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Only writes on or before this date (YYYY-MM-DD, UTC)"),
+  result: z.enum(["success", "error"])
+    .optional()
+    .describe("Only successful or only failed writes"),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(AUDIT_LOG_MAX_LIMIT)
+    .default(AUDIT_LOG_DEFAULT_LIMIT)
+    .describe(`Maximum number of entries to return, newest first (1-${AUDIT_LOG_MAX_LIMIT})`),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type AuditLogInput = z.infer<typeof AuditLogSchema>;
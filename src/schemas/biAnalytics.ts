@@ -96,18 +96,24 @@ export const ProductPerformanceSchema = z.object({
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
     .optional()
     .describe("End date for analysis (YYYY-MM-DD). Ignored if period is specified."),
-  metric: z.enum(["revenue", "quantity", "invoice_count"])
+  metric: z.enum(["revenue", "quantity", "invoice_count", "margin"])
     .default("revenue")
-    .describe("Metric to rank products by: 'revenue', 'quantity', or 'invoice_count'"),
+    .describe("Metric to rank products by: 'revenue', 'quantity', 'invoice_count', or 'margin'"),
   top_n: z.number()
     .int()
     .min(1)
     .max(100)
     .default(20)
-    .describe("Number of top products to return (1-100, default: 20)"),
+    .describe("Number of top and bottom products to return (1-100, default: 20)"),
   include_trends: z.boolean()
     .default(false)
-    .describe("Compare to previous period to show trends"),
+    .describe("Compare to previous period to show trends (requires period)"),
+  max_invoices: z.number()
+    .int()
+    .min(10)
+    .max(500)
+    .default(200)
+    .describe("Maximum invoices to fetch row details for, per period (10-500, default: 200)"),
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
@@ -247,12 +253,18 @@ export const ExpenseAnalysisSchema = z.object({
     .int()
     .default(8999)
     .describe("End of expense account range (default: 8999)"),
-  group_by: z.enum(["account", "account_class"])
+  group_by: z.enum(["account", "account_class", "month"])
     .default("account_class")
-    .describe("Group expenses by individual account or account class (e.g., 4xxx, 5xxx)"),
+    .describe("Group expenses by individual account, account class (e.g., 4xxx, 5xxx) or month"),
   compare_to: DatePeriodEnum
     .optional()
     .describe("Optional period to compare against"),
+  max_vouchers: z.number()
+    .int()
+    .min(10)
+    .max(500)
+    .default(500)
+    .describe("Maximum vouchers to scan per period (10-500). Use date filtering for larger datasets."),
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
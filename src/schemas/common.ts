@@ -49,3 +49,11 @@ export const DateRangeSchema = z.object({
 }).strict();
 
 export type DateRangeInput = z.infer<typeof DateRangeSchema>;
+
+/**
+ * Continuation cursor for tools that auto-paginate
+ */
+export const CursorSchema = z.string()
+  .min(1)
+  .optional()
+  .describe("Continuation cursor (next_cursor from a previous truncated response). Continues where that call stopped, using the filters encoded in the cursor.");
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { ResponseFormat } from "../constants.js";
+
+/**
+ * Schema for listing the Fortnox companies a user can work with
+ */
+export const ListCompaniesSchema = z.object({
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type ListCompaniesInput = z.infer<typeof ListCompaniesSchema>;
+
+/**
+ * Schema for setting the default Fortnox company
+ */
+export const SetActiveCompanySchema = z.object({
+  company_id: z.string()
+    .min(1)
+    .optional()
+    .describe("Fortnox company (database number) from fortnox_list_companies. Omit to go back to your own company."),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type SetActiveCompanyInput = z.infer<typeof SetActiveCompanySchema>;
+
+/**
+ * Schema for linking another Fortnox company
+ */
+export const LinkCompanySchema = z.object({
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type LinkCompanyInput = z.infer<typeof LinkCompanySchema>;
+
+/**
+ * Schema for unlinking a Fortnox company
+ */
+export const UnlinkCompanySchema = z.object({
+  company_id: z.string()
+    .min(1)
+    .describe("Fortnox company (database number) to unlink, from fortnox_list_companies"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type UnlinkCompanyInput = z.infer<typeof UnlinkCompanySchema>;
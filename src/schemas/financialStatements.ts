@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { ResponseFormat } from "../constants.js";
+
+/**
+ * Schema for financial statements (income statement, balance sheet, trial balance)
+ */
+export const FinancialStatementsSchema = z.object({
+  statement: z.enum(["both", "income_statement", "balance_sheet", "trial_balance"])
+    .default("both")
+    .describe("Which statement to produce: 'both' (income statement and balance sheet), 'income_statement', 'balance_sheet' or 'trial_balance'"),
+  financial_year: z.number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Fortnox financial year ID (1, 2, 3...). NOT calendar year. Defaults to the year containing to_date (or today). Use fortnox_list_financial_years to find the correct ID."),
+  from_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Period start (YYYY-MM-DD) within the financial year. Defaults to the start of the financial year."),
+  to_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Period end (YYYY-MM-DD) within the financial year. Defaults to the end of the financial year."),
+  compare_previous_year: z.boolean()
+    .default(true)
+    .describe("Add a comparison column for the same period in the previous financial year"),
+  include_accounts: z.boolean()
+    .default(true)
+    .describe("Show individual accounts under each BAS group (false shows group totals only)"),
+  max_vouchers: z.number()
+    .int()
+    .min(100)
+    .max(10000)
+    .default(2000)
+    .describe("Maximum vouchers to scan per financial year (100-10000). Larger years take longer."),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict().refine(
+  (data) => !data.from_date || !data.to_date || data.from_date <= data.to_date,
+  { message: "from_date must be on or before to_date" }
+);
+
+export type FinancialStatementsInput = z.infer<typeof FinancialStatementsSchema>;
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { ResponseFormat, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../constants.js";
+
+/**
+ * Schema for listing invoice payments
+ */
+export const ListInvoicePaymentsSchema = z.object({
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .default(DEFAULT_PAGE_SIZE)
+    .describe("Maximum number of results to return (1-100)"),
+  page: z.number()
+    .int()
+    .min(1)
+    .default(1)
+    .describe("Page number for pagination"),
+  invoice_number: z.number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Only show payments for this invoice document number"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type ListInvoicePaymentsInput = z.infer<typeof ListInvoicePaymentsSchema>;
+
+/**
+ * Schema for creating an invoice payment
+ */
+export const CreateInvoicePaymentSchema = z.object({
+  invoice_number: z.number()
+    .int()
+    .positive()
+    .describe("Invoice document number the payment is for (required)"),
+  amount: z.number()
+    .positive()
+    .optional()
+    .describe("Paid amount in SEK. Defaults to the invoice's remaining balance (converted with the currency rate for foreign-currency invoices)."),
+  amount_currency: z.number()
+    .positive()
+    .optional()
+    .describe("Paid amount in the invoice currency (foreign-currency invoices only). Defaults to the remaining balance."),
+  currency_rate: z.number()
+    .positive()
+    .optional()
+    .describe("Currency rate on the payment date (foreign-currency invoices only). Defaults to the invoice's currency rate."),
+  payment_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Payment date (YYYY-MM-DD). Defaults to today."),
+  mode_of_payment: z.string()
+    .max(10)
+    .optional()
+    .describe("Mode of payment code (e.g., 'BG', 'PG', 'BANK'). Determines the bank account debited."),
+  bookkeep: z.boolean()
+    .default(false)
+    .describe("Bookkeep the payment immediately after creating it"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type CreateInvoicePaymentInput = z.infer<typeof CreateInvoicePaymentSchema>;
+
+/**
+ * Schema for actions on an existing invoice payment (bookkeep)
+ */
+export const InvoicePaymentActionSchema = z.object({
+  payment_number: z.string()
+    .min(1)
+    .describe("Invoice payment number"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type InvoicePaymentActionInput = z.infer<typeof InvoicePaymentActionSchema>;
+
+/**
+ * Schema for deleting an invoice payment
+ */
+export const DeleteInvoicePaymentSchema = z.object({
+  payment_number: z.string()
+    .min(1)
+    .describe("Invoice payment number to delete")
+}).strict();
+
+export type DeleteInvoicePaymentInput = z.infer<typeof DeleteInvoicePaymentSchema>;
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ResponseFormat, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../constants.js";
+import { CursorSchema } from "./common.js";
 
 /**
  * Date period enum for convenience date filtering
@@ -112,6 +113,7 @@ export const ListInvoicesSchema = z.object({
   fetch_all: z.boolean()
     .default(false)
     .describe("Fetch all results by auto-paginating through all pages. WARNING: May take time for large datasets (max 10,000 results)."),
+  cursor: CursorSchema,
   min_amount: z.number()
     .min(0)
     .optional()
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { ResponseFormat, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../constants.js";
 import { DatePeriodEnum } from "./invoices.js";
+import { CursorSchema } from "./common.js";
 
 /**
  * Order filter enum for Fortnox orders API
@@ -68,6 +69,7 @@ export const ListOrdersSchema = z.object({
   fetch_all: z.boolean()
     .default(false)
     .describe("Fetch all results by auto-paginating through all pages. WARNING: May take time for large datasets (max 10,000 results)."),
+  cursor: CursorSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
@@ -131,6 +133,7 @@ export const ListOffersSchema = z.object({
   fetch_all: z.boolean()
     .default(false)
     .describe("Fetch all results by auto-paginating through all pages. WARNING: May take time for large datasets (max 10,000 results)."),
+  cursor: CursorSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { ResponseFormat, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../constants.js";
 import { DatePeriodEnum } from "./invoices.js";
+import { CursorSchema } from "./common.js";
 
 /**
  * Project status enum for filtering
@@ -31,6 +32,7 @@ export const ListProjectsSchema = z.object({
   fetch_all: z.boolean()
     .default(false)
     .describe("Fetch all results by auto-paginating (max 10,000 results)"),
+  cursor: CursorSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
@@ -52,6 +54,90 @@ export const GetProjectSchema = z.object({
 
 export type GetProjectInput = z.infer<typeof GetProjectSchema>;
 
+/**
+ * Schema for creating a project
+ */
+export const CreateProjectSchema = z.object({
+  description: z.string()
+    .min(1)
+    .max(200)
+    .describe("Project description/name (required)"),
+  project_number: z.string()
+    .max(20)
+    .optional()
+    .describe("Project number (auto-generated if not provided)"),
+  status: ProjectStatusEnum
+    .optional()
+    .describe("Project status: 'NOTSTARTED', 'ONGOING' or 'COMPLETED'"),
+  start_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Project start date (YYYY-MM-DD)"),
+  end_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Project end date (YYYY-MM-DD)"),
+  project_leader: z.string()
+    .max(50)
+    .optional()
+    .describe("Project leader"),
+  contact_person: z.string()
+    .max(50)
+    .optional()
+    .describe("Contact person"),
+  comments: z.string()
+    .max(512)
+    .optional()
+    .describe("Comments about the project"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type CreateProjectInput = z.infer<typeof CreateProjectSchema>;
+
+/**
+ * Schema for updating a project
+ */
+export const UpdateProjectSchema = z.object({
+  project_number: z.string()
+    .min(1)
+    .describe("Project number to update (required)"),
+  description: z.string()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe("Project description/name"),
+  status: ProjectStatusEnum
+    .optional()
+    .describe("Project status: 'NOTSTARTED', 'ONGOING' or 'COMPLETED'"),
+  start_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Project start date (YYYY-MM-DD)"),
+  end_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Project end date (YYYY-MM-DD)"),
+  project_leader: z.string()
+    .max(50)
+    .optional()
+    .describe("Project leader"),
+  contact_person: z.string()
+    .max(50)
+    .optional()
+    .describe("Contact person"),
+  comments: z.string()
+    .max(512)
+    .optional()
+    .describe("Comments about the project"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type UpdateProjectInput = z.infer<typeof UpdateProjectSchema>;
+
 /**
  * Schema for listing cost centers
  */
@@ -70,6 +156,7 @@ export const ListCostCentersSchema = z.object({
   fetch_all: z.boolean()
     .default(false)
     .describe("Fetch all results by auto-paginating (max 10,000 results)"),
+  cursor: CursorSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
@@ -92,37 +179,64 @@ export const GetCostCenterSchema = z.object({
 export type GetCostCenterInput = z.infer<typeof GetCostCenterSchema>;
 
 /**
- * Schema for listing financial years
+ * Schema for creating a cost center
  */
-export const ListFinancialYearsSchema = z.object({
+export const CreateCostCenterSchema = z.object({
+  code: z.string()
+    .min(1)
+    .max(6)
+    .describe("Cost center code (required)"),
+  description: z.string()
+    .min(1)
+    .max(40)
+    .describe("Cost center description (required)"),
+  active: z.boolean()
+    .default(true)
+    .describe("Whether the cost center is active"),
+  note: z.string()
+    .max(512)
+    .optional()
+    .describe("Note about the cost center"),
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
 }).strict();
 
-export type ListFinancialYearsInput = z.infer<typeof ListFinancialYearsSchema>;
+export type CreateCostCenterInput = z.infer<typeof CreateCostCenterSchema>;
 
 /**
- * Schema for listing articles/products
+ * Schema for updating a cost center
  */
-export const ListArticlesSchema = z.object({
-  limit: z.number()
-    .int()
+export const UpdateCostCenterSchema = z.object({
+  code: z.string()
     .min(1)
-    .max(MAX_PAGE_SIZE)
-    .default(DEFAULT_PAGE_SIZE)
-    .describe("Maximum number of results to return (1-100)"),
-  page: z.number()
-    .int()
+    .describe("Cost center code to update (required)"),
+  description: z.string()
     .min(1)
-    .default(1)
-    .describe("Page number for pagination"),
-  fetch_all: z.boolean()
-    .default(false)
-    .describe("Fetch all results by auto-paginating (max 10,000 results)"),
+    .max(40)
+    .optional()
+    .describe("Cost center description"),
+  active: z.boolean()
+    .optional()
+    .describe("Whether the cost center is active"),
+  note: z.string()
+    .max(512)
+    .optional()
+    .describe("Note about the cost center"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type UpdateCostCenterInput = z.infer<typeof UpdateCostCenterSchema>;
+
+/**
+ * Schema for listing financial years
+ */
+export const ListFinancialYearsSchema = z.object({
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
 }).strict();
 
-export type ListArticlesInput = z.infer<typeof ListArticlesSchema>;
+export type ListFinancialYearsInput = z.infer<typeof ListFinancialYearsSchema>;
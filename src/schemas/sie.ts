@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { ResponseFormat } from "../constants.js";
+
+/**
+ * Schema for exporting a SIE file
+ */
+export const ExportSieSchema = z.object({
+  financial_year: z.number()
+    .int()
+    .positive()
+    .describe("Fortnox financial year ID (1, 2, 3...). NOT calendar year. Use fortnox_list_financial_years to find the correct ID."),
+  sie_type: z.number()
+    .int()
+    .min(1)
+    .max(4)
+    .default(4)
+    .describe("SIE type: 1 = year-end balances, 2 = period balances, 3 = object balances, 4 = transactions (default: 4)"),
+  output: z.enum(["summary", "raw"])
+    .default("summary")
+    .describe("'summary' parses the file into accounts, balances and vouchers; 'raw' returns the SIE file as an embedded resource"),
+  max_vouchers: z.number()
+    .int()
+    .min(0)
+    .max(500)
+    .default(20)
+    .describe("Maximum number of vouchers to list in the summary (0-500)"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type ExportSieInput = z.infer<typeof ExportSieSchema>;
+
+/**
+ * Schema for importing vouchers from a SIE4 file
+ */
+export const ImportSieSchema = z.object({
+  content: z.string()
+    .min(1)
+    .describe("SIE4 file contents as text (#VER/#TRANS records)"),
+  dry_run: z.boolean()
+    .default(true)
+    .describe("Validate and preview only (default: true). Set to false to create the vouchers."),
+  voucher_series: z.string()
+    .min(1)
+    .max(2)
+    .optional()
+    .describe("Create all vouchers in this series instead of the series in the file"),
+  account_mapping: z.record(z.string(), z.number().int().min(1000).max(9999))
+    .optional()
+    .describe("Map SIE account numbers to Fortnox accounts, e.g. {\"1930\": 1920}. Unmapped accounts are used as-is."),
+  skip_invalid: z.boolean()
+    .default(false)
+    .describe("When creating, skip vouchers that fail validation instead of aborting the import"),
+  skip_sources: z.array(z.string())
+    .optional()
+    .describe("Source vouchers to skip, as series and number (e.g. 'A12'). Pass skip_sources from an import that stopped on an error to continue it without creating its vouchers again."),
+  max_vouchers: z.number()
+    .int()
+    .min(1)
+    .max(1000)
+    .default(200)
+    .describe("Maximum number of vouchers to import (1-1000)"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type ImportSieInput = z.infer<typeof ImportSieSchema>;
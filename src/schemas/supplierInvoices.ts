@@ -1,6 +1,48 @@
 import { z } from "zod";
 import { ResponseFormat, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../constants.js";
 import { DatePeriodEnum } from "./invoices.js";
+import { CursorSchema } from "./common.js";
+
+/**
+ * Schema for supplier invoice row (cost line)
+ */
+export const SupplierInvoiceRowSchema = z.object({
+  account_number: z.number()
+    .int()
+    .describe("Cost account number for bookkeeping (e.g., 4010, 5410, 6110)"),
+  description: z.string()
+    .max(100)
+    .optional()
+    .describe("Description of the row"),
+  article_number: z.string()
+    .max(50)
+    .optional()
+    .describe("Article number from article register"),
+  quantity: z.number()
+    .optional()
+    .describe("Quantity (default: 1)"),
+  unit: z.string()
+    .max(8)
+    .optional()
+    .describe("Unit code (e.g., 'st', 'h', 'kg')"),
+  price: z.number()
+    .describe("Unit price excluding VAT. Negative amounts are booked as credit."),
+  vat: z.number()
+    .min(0)
+    .max(100)
+    .optional()
+    .describe("VAT percentage (e.g., 25, 12, 6, 0). Default: 25"),
+  cost_center: z.string()
+    .max(20)
+    .optional()
+    .describe("Cost center code for this row"),
+  project: z.string()
+    .max(20)
+    .optional()
+    .describe("Project number for this row")
+}).strict();
+
+export type SupplierInvoiceRowInput = z.infer<typeof SupplierInvoiceRowSchema>;
 
 /**
  * Schema for listing supplier invoices
@@ -59,6 +101,7 @@ export const ListSupplierInvoicesSchema = z.object({
   fetch_all: z.boolean()
     .default(false)
     .describe("Fetch all results by auto-paginating through all pages. WARNING: May take time for large datasets (max 10,000 results)."),
+  cursor: CursorSchema,
   min_amount: z.number()
     .min(0)
     .optional()
@@ -126,3 +169,210 @@ export const PayablesReportSchema = z.object({
 }).strict();
 
 export type PayablesReportInput = z.infer<typeof PayablesReportSchema>;
+
+/**
+ * Schema for registering a supplier invoice payment
+ */
+export const CreateSupplierInvoicePaymentSchema = z.object({
+  given_number: z.string()
+    .min(1)
+    .describe("Supplier invoice given number the payment is for (required)"),
+  amount: z.number()
+    .positive()
+    .optional()
+    .describe("Paid amount in SEK. Defaults to the invoice's remaining balance (converted with the currency rate for foreign-currency invoices)."),
+  amount_currency: z.number()
+    .positive()
+    .optional()
+    .describe("Paid amount in the invoice currency (foreign-currency invoices only). Defaults to the remaining balance."),
+  currency_rate: z.number()
+    .positive()
+    .optional()
+    .describe("Currency rate on the payment date (foreign-currency invoices only). Defaults to the invoice's currency rate."),
+  payment_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Payment date (YYYY-MM-DD). Defaults to today."),
+  mode_of_payment: z.string()
+    .max(10)
+    .optional()
+    .describe("Mode of payment code (e.g., 'BG', 'PG', 'BANK'). Determines the bank account credited."),
+  bookkeep: z.boolean()
+    .default(false)
+    .describe("Bookkeep the payment immediately after registering it"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type CreateSupplierInvoicePaymentInput = z.infer<typeof CreateSupplierInvoicePaymentSchema>;
+
+/**
+ * Schema for bookkeeping a supplier invoice payment
+ */
+export const BookkeepSupplierInvoicePaymentSchema = z.object({
+  payment_number: z.number()
+    .int()
+    .positive()
+    .describe("Supplier invoice payment number to bookkeep"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type BookkeepSupplierInvoicePaymentInput = z.infer<typeof BookkeepSupplierInvoicePaymentSchema>;
+
+/**
+ * Schema for building a supplier payment run proposal
+ */
+export const SupplierPaymentRunSchema = z.object({
+  due_before: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .describe("Include approved invoices due on or before this date (YYYY-MM-DD)"),
+  budget: z.number()
+    .positive()
+    .optional()
+    .describe("Maximum total amount (SEK) to pay in this run. Invoices that don't fit are deferred."),
+  supplier_number: z.string()
+    .max(50)
+    .optional()
+    .describe("Only include invoices from this supplier"),
+  payment_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Planned payment date for the proposal (YYYY-MM-DD). Defaults to today."),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type SupplierPaymentRunInput = z.infer<typeof SupplierPaymentRunSchema>;
+
+/**
+ * Schema for creating a supplier invoice
+ */
+export const CreateSupplierInvoiceSchema = z.object({
+  supplier_number: z.string()
+    .min(1)
+    .describe("Supplier number (required)"),
+  rows: z.array(SupplierInvoiceRowSchema)
+    .min(1)
+    .describe("Supplier invoice cost rows (at least one required)"),
+  invoice_number: z.string()
+    .max(30)
+    .optional()
+    .describe("The supplier's own invoice number"),
+  invoice_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Invoice date (YYYY-MM-DD, defaults to today)"),
+  due_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Due date (YYYY-MM-DD, defaults to the supplier's payment terms)"),
+  ocr: z.string()
+    .max(30)
+    .optional()
+    .describe("OCR/payment reference"),
+  currency: z.string()
+    .length(3)
+    .optional()
+    .describe("Currency code (e.g., 'SEK', 'EUR')"),
+  currency_rate: z.number()
+    .positive()
+    .optional()
+    .describe("Currency rate (foreign-currency invoices)"),
+  cost_center: z.string()
+    .max(20)
+    .optional()
+    .describe("Default cost center for the invoice"),
+  project: z.string()
+    .max(20)
+    .optional()
+    .describe("Default project for the invoice"),
+  our_reference: z.string()
+    .max(50)
+    .optional()
+    .describe("Our reference person"),
+  your_reference: z.string()
+    .max(50)
+    .optional()
+    .describe("Supplier's reference person"),
+  comments: z.string()
+    .max(1024)
+    .optional()
+    .describe("Comments on the supplier invoice"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type CreateSupplierInvoiceInput = z.infer<typeof CreateSupplierInvoiceSchema>;
+
+/**
+ * Schema for updating a supplier invoice
+ */
+export const UpdateSupplierInvoiceSchema = z.object({
+  given_number: z.string()
+    .min(1)
+    .describe("Supplier invoice given number to update (required)"),
+  rows: z.array(SupplierInvoiceRowSchema)
+    .min(1)
+    .optional()
+    .describe("Updated cost rows (replaces all existing rows)"),
+  invoice_number: z.string()
+    .max(30)
+    .optional()
+    .describe("The supplier's own invoice number"),
+  invoice_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Invoice date (YYYY-MM-DD)"),
+  due_date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Due date (YYYY-MM-DD)"),
+  ocr: z.string()
+    .max(30)
+    .optional()
+    .describe("OCR/payment reference"),
+  cost_center: z.string()
+    .max(20)
+    .optional()
+    .describe("Default cost center for the invoice"),
+  project: z.string()
+    .max(20)
+    .optional()
+    .describe("Default project for the invoice"),
+  our_reference: z.string()
+    .max(50)
+    .optional()
+    .describe("Our reference person"),
+  your_reference: z.string()
+    .max(50)
+    .optional()
+    .describe("Supplier's reference person"),
+  comments: z.string()
+    .max(1024)
+    .optional()
+    .describe("Comments on the supplier invoice"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type UpdateSupplierInvoiceInput = z.infer<typeof UpdateSupplierInvoiceSchema>;
+
+/**
+ * Schema for supplier invoice actions (bookkeep, cancel, credit)
+ */
+export const SupplierInvoiceActionSchema = z.object({
+  given_number: z.string()
+    .min(1)
+    .describe("Supplier invoice given number"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type SupplierInvoiceActionInput = z.infer<typeof SupplierInvoiceActionSchema>;
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { ResponseFormat, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../constants.js";
 import { DatePeriodEnum } from "./invoices.js";
+import { CursorSchema } from "./common.js";
 
 /**
  * Voucher row schema for creating vouchers
@@ -191,6 +192,7 @@ export const AccountActivitySchema = z.object({
     .max(500)
     .default(500)
     .describe("Maximum vouchers to scan (10-500). Use date filtering for larger datasets."),
+  cursor: CursorSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
@@ -240,9 +242,27 @@ export const SearchVouchersSchema = z.object({
     .max(500)
     .default(500)
     .describe("Maximum vouchers to scan (10-500). Use date filtering for larger datasets."),
+  cursor: CursorSchema,
   response_format: z.nativeEnum(ResponseFormat)
     .default(ResponseFormat.MARKDOWN)
     .describe("Output format: 'markdown' or 'json'")
 }).strict();
 
 export type SearchVouchersInput = z.infer<typeof SearchVouchersSchema>;
+
+/**
+ * Schema for refreshing the local ledger cache
+ */
+export const RefreshLedgerCacheSchema = z.object({
+  financial_year: z.number()
+    .int()
+    .describe("Fortnox financial year ID (1, 2, 3...). NOT calendar year. Use fortnox_list_financial_years to find the correct ID."),
+  full: z.boolean()
+    .default(false)
+    .describe("Rebuild the cache from scratch instead of fetching only vouchers modified since the last sync"),
+  response_format: z.nativeEnum(ResponseFormat)
+    .default(ResponseFormat.MARKDOWN)
+    .describe("Output format: 'markdown' or 'json'")
+}).strict();
+
+export type RefreshLedgerCacheInput = z.infer<typeof RefreshLedgerCacheSchema>;
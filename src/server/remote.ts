@@ -8,8 +8,10 @@ import {
   FortnoxProxyOAuthProvider,
   getUserIdFromAuth,
   initializeTokenProvider,
+  MCP_SCOPES,
 } from "../auth/index.js";
-import { runWithContext } from "../auth/context.js";
+import { getCurrentUserId, runWithContext } from "../auth/context.js";
+import { instrumentToolCalls } from "../services/toolInstrumentation.js";
 import { registerCustomerTools } from "../tools/customers.js";
 import { registerInvoiceTools } from "../tools/invoices.js";
 import { registerSupplierTools } from "../tools/suppliers.js";
@@ -20,22 +22,31 @@ import { registerCompanyTools } from "../tools/company.js";
 import { registerAnalyticsTools } from "../tools/analytics.js";
 import { registerOrderTools } from "../tools/orders.js";
 import { registerBIAnalyticsTools } from "../tools/biAnalytics.js";
-import { ITokenStorage } from "../auth/storage/types.js";
+import { registerProjectTools } from "../tools/projects.js";
+import { registerArticleTools } from "../tools/articles.js";
+import { registerInvoicePaymentTools } from "../tools/invoicePayments.js";
+import { registerSieTools } from "../tools/sie.js";
+import { registerFinancialStatementTools } from "../tools/financialStatements.js";
+import { registerAuditTools } from "../tools/audit.js";
+import { registerCompanyLinkTools } from "../tools/companyLinks.js";
+import { IOAuthStateStorage, ITokenStorage } from "../auth/storage/types.js";
 
 export interface RemoteServerOptions {
   serverUrl: string;
   jwtSecret: string;
   tokenStorage: ITokenStorage;
+  oauthStateStorage: IOAuthStateStorage;
   port?: number;
 }
 
 export function createRemoteServer(options: RemoteServerOptions): Express {
-  const { serverUrl, jwtSecret, tokenStorage } = options;
+  const { serverUrl, jwtSecret, tokenStorage, oauthStateStorage } = options;
 
   const oauthProvider = new FortnoxProxyOAuthProvider(
     jwtSecret,
     serverUrl,
-    tokenStorage
+    tokenStorage,
+    oauthStateStorage
   );
 
   initializeTokenProvider(oauthProvider.getTokenProvider());
@@ -59,7 +70,7 @@ export function createRemoteServer(options: RemoteServerOptions): Express {
     mcpAuthRouter({
       provider: oauthProvider,
       issuerUrl: new URL(serverUrl),
-      scopesSupported: ["fortnox:read", "fortnox:write"],
+      scopesSupported: MCP_SCOPES,
       resourceName: "Fortnox MCP Server",
     })
   );
@@ -85,6 +96,13 @@ export function createRemoteServer(options: RemoteServerOptions): Express {
         state as string
       );
 
+      if (result.type === "link") {
+        res.type("text/plain").send(
+          `${result.companyName || "The Fortnox company"} is now linked. You can close this window and pick it with the company_id parameter or fortnox_set_active_company.`
+        );
+        return;
+      }
+
       // Redirect back to Claude with our authorization code
       const redirectUrl = new URL(result.redirectUri);
       redirectUrl.searchParams.set("code", result.code);
@@ -104,6 +122,14 @@ export function createRemoteServer(options: RemoteServerOptions): Express {
     version: "1.0.0",
   });
 
+  // Tools can run against any Fortnox company the user has linked
+  instrumentToolCalls(mcpServer, {
+    resolveCompany: async (requestedCompanyId) => {
+      const userId = getCurrentUserId();
+      return userId ? oauthProvider.getTokenProvider().resolveCompany(userId, requestedCompanyId) : undefined;
+    },
+  });
+
   registerCustomerTools(mcpServer);
   registerInvoiceTools(mcpServer);
   registerSupplierTools(mcpServer);
@@ -114,6 +140,13 @@ export function createRemoteServer(options: RemoteServerOptions): Express {
   registerAnalyticsTools(mcpServer);
   registerOrderTools(mcpServer);
   registerBIAnalyticsTools(mcpServer);
+  registerProjectTools(mcpServer);
+  registerArticleTools(mcpServer);
+  registerInvoicePaymentTools(mcpServer);
+  registerSieTools(mcpServer);
+  registerFinancialStatementTools(mcpServer);
+  registerAuditTools(mcpServer);
+  registerCompanyLinkTools(mcpServer, oauthProvider);
 
   // Protected MCP endpoint
   app.post(
@@ -138,7 +171,7 @@ export function createRemoteServer(options: RemoteServerOptions): Express {
 
         res.on("close", () => transport.close());
 
-        await runWithContext({ userId }, async () => {
+        await runWithContext({ userId, clientId: req.auth?.clientId, scopes: req.auth?.scopes }, async () => {
           await mcpServer.connect(transport);
           await transport.handleRequest(req, res, req.body);
         });
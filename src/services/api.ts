@@ -1,66 +1,104 @@
 import axios, { AxiosError, AxiosRequestConfig } from "axios";
 import { getTokenProvider } from "../auth/index.js";
-import { getCurrentUserId } from "../auth/context.js";
+import { getCurrentUserId, getCurrentCompanyKey, getRequestContext } from "../auth/context.js";
+import { waitForRateLimit } from "./rateLimiter/index.js";
+import { recordRetry, getToolCallState, DryRunInterrupt, type DryRunRequest } from "./toolCallContext.js";
+import { getCachedResponse, cacheResponse, invalidateResponses } from "./responseCache/index.js";
+import { FortnoxApiError, getFortnoxErrorKind } from "./errors.js";
+import { recordWrite } from "./audit/index.js";
+import { encodePageCursor, decodePageCursor } from "./pageCursor.js";
 import {
   FORTNOX_API_BASE_URL,
-  RATE_LIMIT_REQUESTS,
-  RATE_LIMIT_WINDOW_MS,
+  MAX_RETRIES,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  RETRY_AFTER_MAX_MS,
   MAX_FETCH_ALL_RESULTS,
   MAX_FETCH_ALL_PAGES,
   FETCH_ALL_PAGE_SIZE,
-  FETCH_ALL_DELAY_MS
+  FETCH_ALL_DELAY_MS,
+  FETCH_ALL_CONCURRENCY,
+  DETAIL_FETCH_BATCH_SIZE
 } from "../constants.js";
 
-// Rate limiting state
-let requestTimestamps: number[] = [];
+/**
+ * Rate limit key for the current request: the Fortnox company in remote mode, "local" otherwise
+ * (Fortnox counts the limit per integration and company, so users of the same company share it)
+ */
+function getRateLimitKey(): string {
+  return getCurrentCompanyKey();
+}
 
 /**
- * Simple rate limiter for Fortnox API (25 requests per 5 seconds)
+ * Options for a single Fortnox request
  */
-async function waitForRateLimit(): Promise<void> {
-  const now = Date.now();
+export interface FortnoxRequestOptions {
+  /**
+   * Retry on 429, 5xx and network errors (default: true for GET)
+   * Writes are only retried on 429 by default: after a 5xx or a timeout the
+   * write may have been applied (e.g., PUT /3/invoices/{n}/credit creates a new
+   * credit invoice on every call). Set to true only for writes that are safe to repeat.
+   */
+  retry?: boolean;
+  /** Use the response cache for GET requests (default: true) */
+  cache?: boolean;
+  /**
+   * Endpoint of the record a PUT or DELETE changes, shown in dry-run previews
+   * (default: the request endpoint; set it for actions such as /3/invoices/{n}/bookkeep)
+   */
+  readEndpoint?: string;
+}
 
-  // Remove timestamps outside the window
-  requestTimestamps = requestTimestamps.filter(
-    (ts) => now - ts < RATE_LIMIT_WINDOW_MS
-  );
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
 
-  // If at limit, wait for oldest request to expire
-  if (requestTimestamps.length >= RATE_LIMIT_REQUESTS) {
-    const oldestTimestamp = requestTimestamps[0];
-    const waitTime = RATE_LIMIT_WINDOW_MS - (now - oldestTimestamp) + 50; // +50ms buffer
-    if (waitTime > 0) {
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
+/**
+ * Which failures a request is retried on
+ * - all: 429, 5xx and network errors
+ * - rate_limit: only 429 (Fortnox rejected the request without processing it)
+ * - none: never
+ */
+type RetryMode = "all" | "rate_limit" | "none";
+
+/**
+ * Get the delay before retrying a failed request, or null if it should not be retried
+ * Honors Retry-After; otherwise uses exponential backoff with jitter
+ */
+function getRetryDelay(error: unknown, attempt: number, mode: RetryMode): number | null {
+  if (mode === "none" || !(error instanceof AxiosError)) return null;
+  if (mode === "rate_limit" && error.response?.status !== 429) return null;
+
+  if (error.response) {
+    if (!RETRYABLE_STATUSES.has(error.response.status)) return null;
+    const retryAfter = parseRetryAfter(error.response.headers?.["retry-after"]);
+    if (retryAfter !== null) {
+      return retryAfter <= RETRY_AFTER_MAX_MS ? retryAfter : null;
     }
-    // Clean up again after waiting
-    requestTimestamps = requestTimestamps.filter(
-      (ts) => Date.now() - ts < RATE_LIMIT_WINDOW_MS
-    );
+  } else if (!error.request) {
+    // The request was never sent (invalid configuration)
+    return null;
   }
 
-  requestTimestamps.push(Date.now());
+  const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
 }
 
 /**
- * Make an authenticated request to the Fortnox API
- * Automatically uses the current user context in remote mode
+ * Remove undefined values from query parameters
  */
-export async function fortnoxRequest<T>(
-  endpoint: string,
-  method: "GET" | "POST" | "PUT" | "DELETE" = "GET",
-  data?: unknown,
+function cleanQueryParams(
   params?: Record<string, string | number | boolean | undefined>
-): Promise<T> {
-  await waitForRateLimit();
-
-  // Get access token using the token provider
-  // In local mode, userId is undefined and ignored
-  // In remote mode, userId comes from the request context
-  const tokenProvider = getTokenProvider();
-  const userId = getCurrentUserId();
-  const accessToken = await tokenProvider.getAccessToken(userId);
-
-  // Clean undefined params
+): Record<string, string | number | boolean> | undefined {
   const cleanParams: Record<string, string | number | boolean> = {};
   if (params) {
     for (const [key, value] of Object.entries(params)) {
@@ -69,78 +107,231 @@ export async function fortnoxRequest<T>(
       }
     }
   }
+  return Object.keys(cleanParams).length > 0 ? cleanParams : undefined;
+}
 
-  const config: AxiosRequestConfig = {
-    method,
-    url: `${FORTNOX_API_BASE_URL}${endpoint}`,
-    headers: {
-      "Authorization": `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-      "Accept": "application/json"
-    },
-    timeout: 30000,
-    params: Object.keys(cleanParams).length > 0 ? cleanParams : undefined,
-    data
-  };
+/**
+ * Send a request to the Fortnox API with rate limiting, authentication and retries
+ * Each attempt waits for the rate limiter and gets a fresh access token
+ */
+async function sendFortnoxRequest<T>(
+  endpoint: string,
+  retry: RetryMode,
+  send: (accessToken: string) => Promise<T>
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await waitForRateLimit(getRateLimitKey());
+
+    // Get access token using the token provider
+    // In local mode, userId is undefined and ignored
+    // In remote mode, userId comes from the request context
+    const tokenProvider = getTokenProvider();
+    const userId = getCurrentUserId();
+    const accessToken = await tokenProvider.getAccessToken(userId, getRequestContext()?.companyId);
+
+    try {
+      return await send(accessToken);
+    } catch (error) {
+      const retryDelay = attempt < MAX_RETRIES ? getRetryDelay(error, attempt, retry) : null;
+      if (retryDelay === null) {
+        const apiError = handleApiError(error, endpoint);
+        // A write that failed after reaching Fortnox may have been applied
+        if (retry !== "all" && apiError.status !== 429) {
+          apiError.retryable = false;
+        }
+        if (attempt > 0) {
+          apiError.message += ` (gave up after ${attempt} ${attempt === 1 ? "retry" : "retries"})`;
+        }
+        throw apiError;
+      }
+      recordRetry();
+      await delay(retryDelay);
+    }
+  }
+}
 
+/**
+ * Make an authenticated request to the Fortnox API
+ * Automatically uses the current user context in remote mode
+ */
+export async function fortnoxRequest<T>(
+  endpoint: string,
+  method: "GET" | "POST" | "PUT" | "DELETE" = "GET",
+  data?: unknown,
+  params?: Record<string, string | number | boolean | undefined>,
+  options?: FortnoxRequestOptions
+): Promise<T> {
+  const retry: RetryMode = options?.retry === undefined
+    ? method === "GET" ? "all" : "rate_limit"
+    : options.retry ? "all" : "none";
+  const queryParams = cleanQueryParams(params);
+  const toolCall = getToolCallState();
+
+  // In dry-run mode, writes are recorded for the preview instead of being sent
+  if (toolCall?.dryRun && method !== "GET") {
+    const request: DryRunRequest = {
+      method,
+      endpoint,
+      payload: data ?? null,
+      params: queryParams,
+      readEndpoint: options?.readEndpoint
+    };
+    toolCall.dryRunRequests.push(request);
+    throw new DryRunInterrupt(request);
+  }
+
+  // GET responses are cached unless the tool call asked for fresh data
+  const useCache = method === "GET" && options?.cache !== false;
+  if (useCache && !toolCall?.forceRefresh) {
+    const cached = await getCachedResponse<T>(endpoint, queryParams);
+    if (cached !== null) return cached;
+  }
+
+  let result: T | undefined;
+  let failure: unknown;
   try {
-    const response = await axios(config);
-    return response.data;
+    result = await sendFortnoxRequest(endpoint, retry, async (accessToken) => {
+      const config: AxiosRequestConfig = {
+        method,
+        url: `${FORTNOX_API_BASE_URL}${endpoint}`,
+        headers: {
+          "Authorization": `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+          "Accept": "application/json"
+        },
+        timeout: 30000,
+        params: queryParams,
+        data
+      };
+
+      const response = await axios(config);
+      return response.data as T;
+    });
+
+    if (useCache) {
+      await cacheResponse(endpoint, queryParams, result);
+    }
+    return result;
   } catch (error) {
-    throw handleApiError(error, endpoint);
+    failure = error;
+    throw error;
+  } finally {
+    // A write may have changed the resource even if the request failed
+    if (method !== "GET") {
+      await invalidateResponses(endpoint);
+      await recordWrite({ method, endpoint, payload: data, params: queryParams, response: result, error: failure });
+    }
   }
 }
 
+/**
+ * Download a file from the Fortnox API (e.g., SIE exports)
+ * Returns the raw response bytes; uses the same authentication, rate limiting and retries as fortnoxRequest
+ */
+export async function fortnoxDownload(
+  endpoint: string,
+  params?: Record<string, string | number | boolean | undefined>
+): Promise<Buffer> {
+  return sendFortnoxRequest(endpoint, "all", async (accessToken) => {
+    const config: AxiosRequestConfig = {
+      method: "GET",
+      url: `${FORTNOX_API_BASE_URL}${endpoint}`,
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "Accept": "*/*"
+      },
+      timeout: 120000,
+      params: cleanQueryParams(params),
+      responseType: "arraybuffer"
+    };
+
+    try {
+      const response = await axios(config);
+      return Buffer.from(response.data);
+    } catch (error) {
+      // Error bodies are JSON but arrive as bytes - decode them so the Fortnox message is kept
+      if (error instanceof AxiosError && error.response?.data) {
+        try {
+          error.response.data = JSON.parse(Buffer.from(error.response.data).toString("utf8"));
+        } catch {
+          // Not JSON - keep the raw body
+        }
+      }
+      throw error;
+    }
+  });
+}
+
 /**
  * Handle API errors with descriptive messages
+ * Returns a FortnoxApiError with the status, Fortnox error code and endpoint
  */
-export function handleApiError(error: unknown, context?: string): Error {
+export function handleApiError(error: unknown, context?: string): FortnoxApiError {
   const prefix = context ? `[${context}] ` : "";
 
-  if (error instanceof AxiosError) {
-    const status = error.response?.status;
-    const data = error.response?.data;
+  if (error instanceof FortnoxApiError) {
+    return error;
+  }
+
+  if (error instanceof AxiosError && error.response) {
+    const status = error.response.status;
+    const data = error.response.data;
 
-    // Extract Fortnox-specific error message
-    const fortnoxError = data?.ErrorInformation?.message ||
+    // Extract Fortnox-specific error message and code
+    const fortnoxError: string | undefined = data?.ErrorInformation?.message ||
       data?.ErrorInformation?.Message ||
       data?.message ||
       data?.error;
+    const rawCode = data?.ErrorInformation?.code ?? data?.ErrorInformation?.Code;
+    const code = rawCode !== undefined && !isNaN(Number(rawCode)) ? Number(rawCode) : undefined;
+
+    const kind = getFortnoxErrorKind(status, code);
+    const retryable = RETRYABLE_STATUSES.has(status);
+    const apiError = (message: string) =>
+      new FortnoxApiError(message, kind, context, status, code, fortnoxError, retryable);
+
+    if (kind === "permission" && status !== 403) {
+      return apiError(
+        `${prefix}Permission denied: ${fortnoxError?.replace(/\.$/, "") || "Missing access"}. ` +
+        `Check your Fortnox app scopes and the user's permissions.`
+      );
+    }
 
     switch (status) {
       case 400:
-        return new Error(
+        return apiError(
           `${prefix}Bad request: ${fortnoxError || "Invalid parameters"}. ` +
           `Check that all required fields are provided and values are valid.`
         );
       case 401:
-        return new Error(
+        return apiError(
           `${prefix}Authentication failed. The access token may be expired or invalid. ` +
           `Try refreshing authentication.`
         );
       case 403:
-        return new Error(
+        return apiError(
           `${prefix}Permission denied. Your API credentials don't have access to this resource. ` +
           `Check your Fortnox app scopes.`
         );
       case 404:
-        return new Error(
+        return apiError(
           `${prefix}Resource not found. The requested item does not exist or has been deleted.`
         );
       case 429:
-        return new Error(
+        return apiError(
           `${prefix}Rate limit exceeded. Fortnox allows 25 requests per 5 seconds. ` +
           `Please wait before retrying.`
         );
       case 500:
       case 502:
       case 503:
-        return new Error(
+      case 504:
+        return apiError(
           `${prefix}Fortnox server error (${status}). The service may be temporarily unavailable. ` +
           `Please try again later.`
         );
       default:
-        return new Error(
+        return apiError(
           `${prefix}API error ${status}: ${fortnoxError || JSON.stringify(data)}`
         );
     }
@@ -148,19 +339,24 @@ export function handleApiError(error: unknown, context?: string): Error {
 
   if (error instanceof Error) {
     if (error.message.includes("ECONNABORTED") || error.message.includes("timeout")) {
-      return new Error(
-        `${prefix}Request timed out. The Fortnox API is not responding. Please try again.`
+      return new FortnoxApiError(
+        `${prefix}Request timed out. The Fortnox API is not responding. Please try again.`,
+        "timeout", context, undefined, undefined, undefined, true
       );
     }
     if (error.message.includes("ENOTFOUND") || error.message.includes("ECONNREFUSED")) {
-      return new Error(
-        `${prefix}Cannot connect to Fortnox API. Check your internet connection.`
+      return new FortnoxApiError(
+        `${prefix}Cannot connect to Fortnox API. Check your internet connection.`,
+        "network", context, undefined, undefined, undefined, true
       );
     }
-    return new Error(`${prefix}${error.message}`);
+    if (error instanceof AxiosError && error.request) {
+      return new FortnoxApiError(`${prefix}${error.message}`, "network", context, undefined, undefined, undefined, true);
+    }
+    return new FortnoxApiError(`${prefix}${error.message}`, "unknown", context);
   }
 
-  return new Error(`${prefix}Unexpected error: ${String(error)}`);
+  return new FortnoxApiError(`${prefix}Unexpected error: ${String(error)}`, "unknown", context);
 }
 
 /**
@@ -187,8 +383,10 @@ export interface FetchAllConfig {
   maxPages?: number;
   /** Page size for each request (default: FETCH_ALL_PAGE_SIZE) */
   pageSize?: number;
-  /** Delay between page requests in ms (default: FETCH_ALL_DELAY_MS) */
-  delayBetweenPages?: number;
+  /** Pages fetched in parallel after the first page (default: FETCH_ALL_CONCURRENCY) */
+  concurrency?: number;
+  /** Cursor from a previous truncated fetch; resumes with its params, page and page size */
+  cursor?: string;
 }
 
 /**
@@ -205,6 +403,8 @@ export interface FetchAllResult<T> {
   truncated: boolean;
   /** Reason for truncation if truncated is true */
   truncationReason?: string;
+  /** Cursor to continue fetching where this fetch stopped, if truncated */
+  nextCursor?: string;
 }
 
 /**
@@ -218,7 +418,11 @@ function delay(ms: number): Promise<void> {
  * Fetch all pages of a paginated Fortnox API endpoint
  *
  * This function automatically paginates through all results from a Fortnox endpoint.
- * It includes safety limits to prevent runaway queries and respects rate limits.
+ * After the first page reveals the total, the remaining pages are fetched in parallel
+ * (bounded by config.concurrency and the rate limiter) and returned in page order.
+ * It includes safety limits to prevent runaway queries.
+ * When a limit is hit, the result includes a nextCursor; pass it as config.cursor
+ * to continue with the next page.
  *
  * @param endpoint - API endpoint (e.g., "/3/invoices")
  * @param params - Query parameters to pass to each request
@@ -244,64 +448,114 @@ export async function fetchAllPages<T, R>(
 ): Promise<FetchAllResult<T>> {
   const maxResults = config?.maxResults ?? MAX_FETCH_ALL_RESULTS;
   const maxPages = config?.maxPages ?? MAX_FETCH_ALL_PAGES;
-  const pageSize = config?.pageSize ?? FETCH_ALL_PAGE_SIZE;
-  const delayMs = config?.delayBetweenPages ?? FETCH_ALL_DELAY_MS;
+  const concurrency = Math.max(1, config?.concurrency ?? FETCH_ALL_CONCURRENCY);
 
-  const allItems: T[] = [];
-  let page = 1;
-  let total = 0;
-  let hasMore = true;
-  let truncated = false;
-  let truncationReason: string | undefined;
+  // Resume from a cursor: its params, page and page size replace the given ones
+  const cursor = config?.cursor ? decodePageCursor(config.cursor, endpoint) : undefined;
+  const queryParams = cursor ? cursor.params : cleanQueryParams(params) || {};
+  const pageSize = cursor ? cursor.pageSize : config?.pageSize ?? FETCH_ALL_PAGE_SIZE;
+  const firstPage = cursor ? cursor.page : 1;
 
-  while (hasMore) {
-    // Check page limit
-    if (page > maxPages) {
-      truncated = true;
-      truncationReason = `Reached maximum page limit (${maxPages} pages). Use filters to narrow results.`;
-      break;
-    }
+  const fetchPage = (page: number) =>
+    fortnoxRequest<R>(endpoint, "GET", undefined, { ...queryParams, limit: pageSize, page });
 
-    // Check result limit
-    if (allItems.length >= maxResults) {
-      truncated = true;
-      truncationReason = `Reached maximum result limit (${maxResults} items). Use filters to narrow results.`;
-      break;
-    }
+  // The first page reveals the total, and with it the number of pages
+  const firstResponse = await fetchPage(firstPage);
+  const firstItems = extractItems(firstResponse);
+  const total = extractTotal(firstResponse);
+  const totalPages = Math.ceil(total / pageSize);
 
-    // Make request
-    const response = await fortnoxRequest<R>(endpoint, "GET", undefined, {
-      ...params,
-      limit: pageSize,
-      page
-    });
+  // Last page to fetch within the page and result limits
+  const pageLimit = firstPage + maxPages - 1;
+  const resultLimit = firstPage + Math.max(1, Math.ceil(maxResults / pageSize)) - 1;
+  const lastPage = firstItems.length === 0 ? firstPage : Math.min(totalPages, pageLimit, resultLimit);
 
-    const items = extractItems(response);
-    total = extractTotal(response);
-
-    if (items.length === 0) {
-      hasMore = false;
-    } else {
-      allItems.push(...items);
-
-      // Check if we've fetched all available items
-      if (allItems.length >= total) {
-        hasMore = false;
-      } else {
-        page++;
-        // Delay to respect rate limits (except on last page)
-        if (hasMore) {
-          await delay(delayMs);
-        }
-      }
+  // Fetch the remaining pages concurrently (each request still passes through the
+  // rate limiter) and keep them in page order
+  const remainingPages: number[] = [];
+  for (let page = firstPage + 1; page <= lastPage; page++) {
+    remainingPages.push(page);
+  }
+
+  const pageItems: T[][] = new Array(remainingPages.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < remainingPages.length) {
+      const index = nextIndex++;
+      pageItems[index] = extractItems(await fetchPage(remainingPages[index]));
     }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, remainingPages.length) }, worker)
+  );
+
+  const allItems: T[] = [...firstItems];
+  for (const items of pageItems) {
+    allItems.push(...items);
+  }
+
+  let truncated = false;
+  let truncationReason: string | undefined;
+  if (lastPage < totalPages && firstItems.length > 0) {
+    truncated = true;
+    truncationReason = lastPage === resultLimit
+      ? `Reached maximum result limit (${maxResults} items). Use filters to narrow results.`
+      : `Reached maximum page limit (${maxPages} pages). Use filters to narrow results.`;
   }
 
   return {
     items: allItems,
     total,
-    pagesFetched: page,
+    pagesFetched: lastPage - firstPage + 1,
     truncated,
-    truncationReason
+    truncationReason,
+    nextCursor: truncated
+      ? encodePageCursor({ endpoint, params: queryParams, page: lastPage + 1, pageSize })
+      : undefined
   };
 }
+
+/**
+ * Fetch details for a list of items in parallel batches
+ *
+ * Requests within a batch run concurrently (each still passes through the rate
+ * limiter), with a delay between batches. Items whose fetch fails are skipped,
+ * and results are returned in the same order as the input items.
+ *
+ * @param items - Items to fetch details for (e.g., invoice list entries)
+ * @param fetchDetail - Function that fetches the detail for one item
+ * @param batchSize - Number of parallel requests per batch (default: DETAIL_FETCH_BATCH_SIZE)
+ * @returns Fetched details, excluding failed fetches
+ */
+export async function fetchDetailsInBatches<T, D>(
+  items: T[],
+  fetchDetail: (item: T) => Promise<D>,
+  batchSize = DETAIL_FETCH_BATCH_SIZE
+): Promise<D[]> {
+  const details: D[] = [];
+
+  for (let i = 0; i < items.length; i += batchSize) {
+    const batch = items.slice(i, i + batchSize);
+
+    const results = await Promise.all(
+      batch.map(async (item) => {
+        try {
+          return { ok: true as const, detail: await fetchDetail(item) };
+        } catch {
+          return { ok: false as const };
+        }
+      })
+    );
+
+    for (const result of results) {
+      if (result.ok) details.push(result.detail);
+    }
+
+    // Delay to respect rate limits (except after last batch)
+    if (i + batchSize < items.length) {
+      await delay(FETCH_ALL_DELAY_MS);
+    }
+  }
+
+  return details;
+}
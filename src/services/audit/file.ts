@@ -0,0 +1,44 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { AuditEntry, AuditQuery, IAuditSink } from "./types.js";
+import { matchesAuditQuery } from "./filter.js";
+
+/**
+ * File-based audit log
+ * Appends one JSON line per entry to a single file (all users).
+ */
+export class FileAuditSink implements IAuditSink {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async write(entry: AuditEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, "utf8");
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf8");
+    } catch {
+      // No writes recorded yet
+      return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        if (matchesAuditQuery(entry, query)) entries.push(entry);
+      } catch {
+        // Skip lines that are not valid JSON (e.g., a write cut short by a crash)
+      }
+    }
+
+    return entries.reverse().slice(0, query.limit);
+  }
+}
@@ -0,0 +1,13 @@
+import { AuditEntry, AuditQuery } from "./types.js";
+
+/**
+ * Check whether an entry matches a query's user and filters
+ */
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const date = entry.timestamp.substring(0, 10);
+  return entry.userId === query.userId
+    && (!query.tool || entry.tool === query.tool)
+    && (!query.fromDate || date >= query.fromDate)
+    && (!query.toDate || date <= query.toDate)
+    && (!query.result || entry.result === query.result);
+}
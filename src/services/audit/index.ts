@@ -0,0 +1,183 @@
+/**
+ * Audit Log
+ *
+ * Records every write request (POST, PUT, DELETE) sent to Fortnox through this
+ * server: who sent it (user and MCP client), from which tool, the endpoint, a
+ * hash of the payload and the result. Requests held back in dry-run mode are
+ * not recorded. The trail can be queried with fortnox_audit_log.
+ *
+ * Configuration:
+ * - AUDIT_LOG: Comma-separated sinks: "stdout", "file", "upstash-redis", or "off"
+ *   (default: "file" in local mode; in remote mode "upstash-redis" if Redis is configured, otherwise "stdout")
+ * - AUDIT_LOG_FILE: File for the file sink (default: ~/.fortnox-mcp/audit.log)
+ * - AUDIT_LOG_REDIS_MAX_ENTRIES: Entries kept per user by the upstash-redis sink (default: 10000)
+ */
+
+import { createHash } from "crypto";
+import * as os from "os";
+import * as path from "path";
+import { getCurrentUserId, getRequestContext } from "../../auth/context.js";
+import { getToolCallState } from "../toolCallContext.js";
+import { FortnoxApiError } from "../errors.js";
+import { AuditEntry, AuditQuery, IAuditSink } from "./types.js";
+import { StdoutAuditSink } from "./stdout.js";
+import { FileAuditSink } from "./file.js";
+import { UpstashRedisAuditSink } from "./redis.js";
+import { AUDIT_LOG_REDIS_MAX_ENTRIES } from "../../constants.js";
+
+export * from "./types.js";
+export { StdoutAuditSink } from "./stdout.js";
+export { FileAuditSink } from "./file.js";
+export { UpstashRedisAuditSink } from "./redis.js";
+
+export type AuditSinkType = "stdout" | "file" | "upstash-redis";
+
+// Response fields identifying the created or changed record, in order of preference
+const RECORD_ID_FIELDS = [
+  "DocumentNumber",
+  "GivenNumber",
+  "CustomerNumber",
+  "SupplierNumber",
+  "ArticleNumber",
+  "ProjectNumber",
+  "Number",
+  "Code",
+  "Id"
+];
+
+let sinks: IAuditSink[] | undefined;
+
+export function createAuditSink(type: AuditSinkType): IAuditSink {
+  switch (type) {
+    case "upstash-redis":
+      return new UpstashRedisAuditSink(undefined, getRedisMaxEntries());
+    case "file":
+      return new FileAuditSink(
+        process.env.AUDIT_LOG_FILE || path.join(os.homedir(), ".fortnox-mcp", "audit.log")
+      );
+    case "stdout":
+    default:
+      // With the stdio transport, stdout carries the MCP protocol
+      return new StdoutAuditSink(isStdioTransport() ? process.stderr : process.stdout);
+  }
+}
+
+function getRedisMaxEntries(): number {
+  const configured = Number(process.env.AUDIT_LOG_REDIS_MAX_ENTRIES);
+  return Number.isInteger(configured) && configured > 0 ? configured : AUDIT_LOG_REDIS_MAX_ENTRIES;
+}
+
+function isStdioTransport(): boolean {
+  return process.env.AUTH_MODE !== "remote" && (process.env.TRANSPORT || "stdio") === "stdio";
+}
+
+/**
+ * Get the configured audit sink types (empty if the audit log is off)
+ */
+export function getAuditSinkTypes(): AuditSinkType[] {
+  const configured = process.env.AUDIT_LOG;
+
+  if (configured) {
+    return configured
+      .split(",")
+      .map(type => type.trim())
+      .filter((type): type is AuditSinkType => type === "stdout" || type === "file" || type === "upstash-redis");
+  }
+
+  // Auto-detect based on environment
+  if (process.env.AUTH_MODE !== "remote") {
+    return ["file"];
+  }
+  if (process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL) {
+    return ["upstash-redis"];
+  }
+  return ["stdout"];
+}
+
+/**
+ * Get the audit sinks (none if the audit log is off)
+ */
+export function getAuditSinks(): IAuditSink[] {
+  if (sinks === undefined) {
+    sinks = getAuditSinkTypes().map(createAuditSink);
+  }
+  return sinks;
+}
+
+/**
+ * Number of the record in a Fortnox response (e.g., { Invoice: { DocumentNumber: "123" } })
+ */
+function getRecordId(response: unknown): string | null {
+  if (!response || typeof response !== "object") return null;
+  const record = Object.values(response as Record<string, unknown>)
+    .find(v => v && typeof v === "object" && !Array.isArray(v)) as Record<string, unknown> | undefined;
+  if (!record) return null;
+
+  if (record.VoucherSeries !== undefined && record.VoucherNumber !== undefined) {
+    return `${record.VoucherSeries}${record.VoucherNumber}`;
+  }
+  for (const field of RECORD_ID_FIELDS) {
+    const value = record[field];
+    if (typeof value === "string" || typeof value === "number") return String(value);
+  }
+  return null;
+}
+
+/**
+ * Record a write request sent to Fortnox in every audit sink
+ * Failures are logged but never fail the request (it has already been sent)
+ */
+export async function recordWrite(request: {
+  method: "POST" | "PUT" | "DELETE";
+  endpoint: string;
+  payload: unknown;
+  params?: Record<string, string | number | boolean>;
+  response?: unknown;
+  error?: unknown;
+}): Promise<void> {
+  const auditSinks = getAuditSinks();
+  if (auditSinks.length === 0) return;
+
+  const failed = request.error !== undefined;
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    userId: getCurrentUserId() || "local",
+    clientId: getRequestContext()?.clientId || null,
+    companyId: getRequestContext()?.companyId || null,
+    tool: getToolCallState()?.toolName || null,
+    method: request.method,
+    endpoint: request.endpoint,
+    params: request.params && Object.keys(request.params).length > 0 ? request.params : null,
+    payloadHash: request.payload === undefined || request.payload === null
+      ? null
+      : createHash("sha256").update(JSON.stringify(request.payload)).digest("hex"),
+    result: failed ? "error" : "success",
+    status: request.error instanceof FortnoxApiError ? request.error.status ?? null : null,
+    error: failed
+      ? request.error instanceof Error ? request.error.message : String(request.error)
+      : null,
+    recordId: failed ? null : getRecordId(request.response)
+  };
+
+  await Promise.all(auditSinks.map(async (sink) => {
+    try {
+      await sink.write(entry);
+    } catch (error) {
+      console.error("[AuditLog] Write failed:", error);
+    }
+  }));
+}
+
+/**
+ * Query the current user's audit trail, newest entries first
+ * Reads from the first configured sink that can be queried (file or Upstash Redis)
+ */
+export async function queryAuditLog(filter: Omit<AuditQuery, "userId">): Promise<AuditEntry[]> {
+  const sink = getAuditSinks().find(s => s.query);
+  if (!sink?.query) {
+    throw new Error(
+      "The audit log cannot be queried with the configured sinks. Set AUDIT_LOG to include 'file' or 'upstash-redis'."
+    );
+  }
+  return sink.query({ ...filter, userId: getCurrentUserId() || "local" });
+}
@@ -0,0 +1,76 @@
+import { AuditEntry, AuditQuery, IAuditSink } from "./types.js";
+import { matchesAuditQuery } from "./filter.js";
+import { AUDIT_LOG_REDIS_MAX_ENTRIES } from "../../constants.js";
+
+/**
+ * Upstash Redis audit log
+ * Keeps one list per user, newest entry first, capped at maxEntries
+ * (AUDIT_LOG_REDIS_MAX_ENTRIES, default 10,000). Older entries are dropped.
+ *
+ * Uses the same Redis as UpstashRedisTokenStorage:
+ * - UPSTASH_REDIS_REST_URL: Upstash Redis REST URL (or KV_REST_API_URL for backwards compat)
+ * - UPSTASH_REDIS_REST_TOKEN: Upstash Redis REST token (or KV_REST_API_TOKEN)
+ */
+export class UpstashRedisAuditSink implements IAuditSink {
+  private prefix: string;
+  private maxEntries: number;
+  private redis: import("@upstash/redis").Redis | null = null;
+  // Users whose dropped entries have been logged, to log once per user
+  private trimmedUsers = new Set<string>();
+
+  constructor(prefix = "fortnox_audit:", maxEntries = AUDIT_LOG_REDIS_MAX_ENTRIES) {
+    this.prefix = prefix;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Lazy load the Redis client to avoid issues when @upstash/redis is not installed
+   */
+  private async getRedis() {
+    if (!this.redis) {
+      try {
+        const { Redis } = await import("@upstash/redis");
+
+        const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+        const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+
+        if (!url || !token) {
+          throw new Error("Missing Redis configuration");
+        }
+
+        this.redis = new Redis({ url, token });
+      } catch (error) {
+        throw new Error(
+          "Upstash Redis not available. Install @upstash/redis and configure UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN."
+        );
+      }
+    }
+    return this.redis;
+  }
+
+  private key(userId: string): string {
+    return `${this.prefix}${userId}`;
+  }
+
+  async write(entry: AuditEntry): Promise<void> {
+    const redis = await this.getRedis();
+    const key = this.key(entry.userId);
+    const length = await redis.lpush(key, entry);
+    if (length > this.maxEntries) {
+      await redis.ltrim(key, 0, this.maxEntries - 1);
+      if (!this.trimmedUsers.has(entry.userId)) {
+        this.trimmedUsers.add(entry.userId);
+        console.error(
+          `[AuditLog] Audit log of ${entry.userId} reached ${this.maxEntries} entries in Redis; older entries are being dropped. ` +
+          "Set AUDIT_LOG_REDIS_MAX_ENTRIES to keep more."
+        );
+      }
+    }
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const redis = await this.getRedis();
+    const entries = await redis.lrange<AuditEntry>(this.key(query.userId), 0, -1);
+    return entries.filter(entry => matchesAuditQuery(entry, query)).slice(0, query.limit);
+  }
+}
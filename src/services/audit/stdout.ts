@@ -0,0 +1,18 @@
+import { AuditEntry, IAuditSink } from "./types.js";
+
+/**
+ * Audit sink writing one JSON line per entry to a stream, for log collectors
+ * Writes to stdout by default; with the stdio transport stdout carries the MCP
+ * protocol, so stderr is used instead (see getAuditSinks).
+ */
+export class StdoutAuditSink implements IAuditSink {
+  private stream: NodeJS.WritableStream;
+
+  constructor(stream: NodeJS.WritableStream = process.stdout) {
+    this.stream = stream;
+  }
+
+  async write(entry: AuditEntry): Promise<void> {
+    this.stream.write(`${JSON.stringify({ type: "fortnox_audit", ...entry })}\n`);
+  }
+}
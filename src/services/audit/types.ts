@@ -0,0 +1,60 @@
+/**
+ * One write request sent to Fortnox through this server
+ */
+export interface AuditEntry {
+  /** When the request finished (ISO 8601) */
+  timestamp: string;
+  /** User from the request context ("local" in local mode) */
+  userId: string;
+  /** MCP client the user authorized (remote mode only) */
+  clientId: string | null;
+  /** Linked Fortnox company the request was sent to, or null for the user's own company */
+  companyId: string | null;
+  /** Tool that sent the request, if sent from a tool call */
+  tool: string | null;
+  method: "POST" | "PUT" | "DELETE";
+  endpoint: string;
+  /** Query parameters (e.g., financialyear) */
+  params: Record<string, string | number | boolean> | null;
+  /** SHA-256 of the JSON request body, or null if the request had no body */
+  payloadHash: string | null;
+  result: "success" | "error";
+  /** HTTP status of a failed request */
+  status: number | null;
+  /** Error message of a failed request */
+  error: string | null;
+  /** Number of the created or changed record, if the response includes one */
+  recordId: string | null;
+}
+
+/**
+ * Filter for querying a user's audit trail
+ */
+export interface AuditQuery {
+  userId: string;
+  tool?: string;
+  /** Only entries on or after this date (YYYY-MM-DD) */
+  fromDate?: string;
+  /** Only entries on or before this date (YYYY-MM-DD) */
+  toDate?: string;
+  result?: "success" | "error";
+  limit: number;
+}
+
+/**
+ * Interface for audit log sinks (stdout, file, Upstash Redis)
+ */
+export interface IAuditSink {
+  /**
+   * Append an entry to the audit log
+   * @param entry - Write request to record
+   */
+  write(entry: AuditEntry): Promise<void>;
+
+  /**
+   * Query the audit trail, newest entries first
+   * Not implemented by sinks that cannot be read back (stdout)
+   * @param query - User and filters
+   */
+  query?(query: AuditQuery): Promise<AuditEntry[]>;
+}
@@ -0,0 +1,227 @@
+/**
+ * Confirmation Tokens
+ *
+ * Destructive tools (deleting, cancelling, bookkeeping) run in two steps. The
+ * first call only previews the action and returns a short-lived signed token
+ * describing it; the action is executed when the same tool is called again
+ * with the same arguments and the token. Tokens are JWTs signed with
+ * JWT_SECRET (the secret the remote OAuth provider uses), or with a random
+ * per-process secret when it is not set.
+ */
+
+import crypto from "crypto";
+import * as jose from "jose";
+import { getCurrentTenantKey } from "../auth/context.js";
+import { ConfirmationError } from "./errors.js";
+import { previewRequests } from "./dryRun.js";
+import { buildToolResponse } from "./formatters.js";
+import { CONFIRMATION_TOKEN_TTL_SECONDS, ResponseFormat } from "../constants.js";
+import type { DryRunRequest } from "./toolCallContext.js";
+
+const JWT_ALGORITHM = "HS256";
+
+// Irreversible tools that are not annotated as destructive (bookkeeping and crediting)
+const IRREVERSIBLE_TOOLS = new Set([
+  "fortnox_bookkeep_invoice",
+  "fortnox_credit_invoice",
+  "fortnox_bookkeep_invoice_payment",
+  "fortnox_bookkeep_supplier_invoice",
+  "fortnox_credit_supplier_invoice",
+  "fortnox_bookkeep_supplier_invoice_payment"
+]);
+
+// Tools that are irreversible only with some arguments: payments bookkept right
+// away, and SIE imports that create vouchers
+const CONDITIONALLY_IRREVERSIBLE_TOOLS: Record<string, (params: Record<string, unknown>) => boolean> = {
+  fortnox_create_invoice_payment: params => params.bookkeep === true,
+  fortnox_create_supplier_invoice_payment: params => params.bookkeep === true,
+  fortnox_import_sie: params => params.dry_run === false
+};
+
+// Arguments that do not change the action (only how the result is shown)
+const IGNORED_ARGUMENTS = new Set(["response_format"]);
+
+let secret: Uint8Array | null = null;
+
+// Tokens already used, by token id (until they expire)
+const usedTokens = new Map<string, number>();
+
+function getSecret(): Uint8Array {
+  if (!secret) {
+    secret = process.env.JWT_SECRET
+      ? new TextEncoder().encode(process.env.JWT_SECRET)
+      : new Uint8Array(crypto.randomBytes(32));
+  }
+  return secret;
+}
+
+/**
+ * Check whether a tool call must be confirmed with a token before it runs
+ * Without params, checks whether any call of the tool can need confirmation
+ */
+export function requiresConfirmation(
+  toolName: string,
+  annotations?: { destructiveHint?: boolean },
+  params?: unknown
+): boolean {
+  if (annotations?.destructiveHint === true || IRREVERSIBLE_TOOLS.has(toolName)) {
+    return true;
+  }
+  const condition = CONDITIONALLY_IRREVERSIBLE_TOOLS[toolName];
+  if (!condition) return false;
+  return params === undefined || condition((params as Record<string, unknown>) || {});
+}
+
+/**
+ * Serialize a value as JSON with sorted object keys
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Hash the tool arguments a token is bound to
+ */
+function hashArguments(params: unknown): string {
+  const args = Object.fromEntries(
+    Object.entries((params as Record<string, unknown>) || {}).filter(([key]) => !IGNORED_ARGUMENTS.has(key))
+  );
+  return crypto.createHash("sha256").update(canonicalJson(args)).digest("hex");
+}
+
+/**
+ * Describe the write requests a tool call would send (e.g., "DELETE /3/customers/1001")
+ * Repeated requests are counted (e.g., "POST /3/vouchers (x12)")
+ */
+function describeAction(requests: DryRunRequest[]): string {
+  const counts = new Map<string, number>();
+  for (const r of requests) {
+    const request = `${r.method} ${r.endpoint}`;
+    counts.set(request, (counts.get(request) || 0) + 1);
+  }
+  return Array.from(counts, ([request, count]) => count > 1 ? `${request} (x${count})` : request).join("; ");
+}
+
+/**
+ * Issue a token for a tool call, bound to the tool, its arguments and the current user and company
+ */
+async function issueConfirmationToken(
+  toolName: string,
+  params: unknown,
+  action: string
+): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + CONFIRMATION_TOKEN_TTL_SECONDS * 1000);
+  const token = await new jose.SignJWT({
+    type: "confirmation",
+    tool: toolName,
+    args: hashArguments(params),
+    tenant: getCurrentTenantKey(),
+    action
+  })
+    .setProtectedHeader({ alg: JWT_ALGORITHM })
+    .setJti(crypto.randomUUID())
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getSecret());
+
+  return { token, expiresAt };
+}
+
+/**
+ * Verify a token for a tool call and mark it as used
+ * Throws ConfirmationError if the token is invalid, expired, already used or
+ * was issued for another tool, other arguments, another user or another company
+ */
+export async function verifyConfirmationToken(
+  token: string,
+  toolName: string,
+  params: unknown
+): Promise<void> {
+  let payload: jose.JWTPayload;
+  try {
+    ({ payload } = await jose.jwtVerify(token, getSecret(), { algorithms: [JWT_ALGORITHM] }));
+  } catch (error) {
+    if (error instanceof jose.errors.JWTExpired) {
+      throw new ConfirmationError(
+        `Confirmation token expired. Call ${toolName} without confirmation_token to get a new one.`
+      );
+    }
+    throw new ConfirmationError("Invalid confirmation token");
+  }
+
+  if (payload.type !== "confirmation" || payload.tool !== toolName) {
+    throw new ConfirmationError(`Confirmation token was not issued for ${toolName}`);
+  }
+  if (payload.tenant !== getCurrentTenantKey()) {
+    throw new ConfirmationError("Confirmation token was issued to another user or for another company");
+  }
+  if (payload.args !== hashArguments(params)) {
+    throw new ConfirmationError(
+      "Confirmation token was issued for different arguments. Call the tool with the same arguments as when the token was issued."
+    );
+  }
+
+  const now = Date.now();
+  for (const [id, expires] of usedTokens) {
+    if (expires <= now) usedTokens.delete(id);
+  }
+  const tokenId = payload.jti as string;
+  if (usedTokens.has(tokenId)) {
+    throw new ConfirmationError("Confirmation token has already been used");
+  }
+  usedTokens.set(tokenId, (payload.exp as number) * 1000);
+}
+
+/**
+ * Build the response for the first call of a destructive tool: a preview of
+ * the held-back write requests and the token that confirms them
+ */
+export async function buildConfirmationResponse(
+  toolName: string,
+  params: unknown,
+  requests: DryRunRequest[],
+  responseFormat?: unknown
+) {
+  const action = describeAction(requests);
+  const { token, expiresAt } = await issueConfirmationToken(toolName, params, action);
+  const preview = await previewRequests(requests);
+
+  const output = {
+    confirmation_required: true,
+    tool: toolName,
+    action,
+    confirmation_token: token,
+    expires_at: expiresAt.toISOString(),
+    ...preview.output
+  };
+
+  let textContent: string;
+  if (responseFormat === ResponseFormat.JSON) {
+    textContent = JSON.stringify(output, null, 2);
+  } else {
+    const lines: string[] = [
+      `# Confirmation Required: ${toolName}`,
+      "",
+      `**Action**: ${action}`,
+      "",
+      "This action cannot be undone and nothing has been sent to Fortnox yet.",
+      "Follow-up requests that depend on the response below (e.g., bookkeeping a created payment) are not shown.",
+      `To execute it, call \`${toolName}\` again with the same arguments and this confirmation_token (valid until ${expiresAt.toISOString()}):`,
+      "",
+      `\`${token}\``,
+      ...preview.lines
+    ];
+    textContent = lines.join("\n");
+  }
+
+  return buildToolResponse(textContent, output);
+}
@@ -0,0 +1,301 @@
+/**
+ * Dry-Run Previews
+ *
+ * In dry-run mode a mutating tool runs as usual (including its own validation
+ * and lookups) but its write requests are held back by fortnoxRequest. This
+ * module turns the held-back requests into a preview: the exact payload, the
+ * current state of the record being changed, and the customers, suppliers,
+ * articles, accounts, projects and cost centers the payload refers to.
+ */
+
+import { fortnoxRequest } from "./api.js";
+import { buildToolResponse } from "./formatters.js";
+import { FortnoxApiError } from "./errors.js";
+import { ResponseFormat } from "../constants.js";
+import type { DryRunRequest } from "./toolCallContext.js";
+
+/**
+ * Payload fields that refer to other Fortnox records
+ */
+const REFERENCE_FIELDS: Record<string, { type: string; resource: string; nameField: string }> = {
+  CustomerNumber: { type: "customer", resource: "customers", nameField: "Name" },
+  SupplierNumber: { type: "supplier", resource: "suppliers", nameField: "Name" },
+  ArticleNumber: { type: "article", resource: "articles", nameField: "Description" },
+  AccountNumber: { type: "account", resource: "accounts", nameField: "Description" },
+  Account: { type: "account", resource: "accounts", nameField: "Description" },
+  Project: { type: "project", resource: "projects", nameField: "Description" },
+  CostCenter: { type: "cost_center", resource: "costcenters", nameField: "Description" }
+};
+
+export interface ResolvedReference {
+  type: string;
+  number: string;
+  /** null if the lookup failed */
+  found: boolean | null;
+  name: string | null;
+  active: boolean | null;
+  error: string | null;
+}
+
+export interface CurrentRecord {
+  endpoint: string;
+  /** null if the lookup failed */
+  found: boolean | null;
+  fields: Record<string, string | number | boolean | null>;
+  error: string | null;
+}
+
+/**
+ * Get the lookup result for a failed request: not found (404) or an error
+ */
+function getLookupFailure(error: unknown): { found: false | null; error: string | null } {
+  if (error instanceof FortnoxApiError && error.kind === "not_found") {
+    return { found: false, error: null };
+  }
+  return { found: null, error: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Collect referenced records from a payload (deduplicated)
+ */
+function collectReferences(
+  value: unknown,
+  found: Map<string, { field: string; number: string }> = new Map()
+): Map<string, { field: string; number: string }> {
+  if (Array.isArray(value)) {
+    for (const item of value) collectReferences(item, found);
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      const reference = REFERENCE_FIELDS[key];
+      if (reference && (typeof child === "string" || typeof child === "number") && String(child) !== "") {
+        found.set(`${reference.resource}:${child}`, { field: key, number: String(child) });
+      } else {
+        collectReferences(child, found);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Get the single record in a Fortnox response (e.g., { Customer: {...} })
+ */
+function unwrapRecord(response: unknown): Record<string, unknown> | null {
+  if (!response || typeof response !== "object") return null;
+  const values = Object.values(response as Record<string, unknown>);
+  const record = values.find(v => v && typeof v === "object" && !Array.isArray(v));
+  return (record as Record<string, unknown>) || null;
+}
+
+/**
+ * Look up the records a payload refers to
+ * Records created by the request itself (e.g., the customer in POST /3/customers) are skipped.
+ * Lookups are shared through the given map, so requests referring to the same record look it up once.
+ */
+async function resolveReferences(
+  request: DryRunRequest,
+  lookups: Map<string, Promise<ResolvedReference>>
+): Promise<ResolvedReference[]> {
+  const ownResource = request.endpoint.split("/")[2];
+  const references = Array.from(collectReferences(request.payload).values())
+    .filter(({ field }) => !(request.method === "POST" && REFERENCE_FIELDS[field].resource === ownResource));
+
+  return Promise.all(references.map(({ field, number }) => {
+    const key = `${REFERENCE_FIELDS[field].resource}:${number}`;
+    let lookup = lookups.get(key);
+    if (!lookup) {
+      lookup = lookUpReference(field, number);
+      lookups.set(key, lookup);
+    }
+    return lookup;
+  }));
+}
+
+/**
+ * Look up one referenced record
+ */
+async function lookUpReference(field: string, number: string): Promise<ResolvedReference> {
+  const reference = REFERENCE_FIELDS[field];
+  try {
+    const record = unwrapRecord(await fortnoxRequest<unknown>(
+      `/3/${reference.resource}/${encodeURIComponent(number)}`
+    ));
+    return {
+      type: reference.type,
+      number,
+      found: record !== null,
+      name: record ? String(record[reference.nameField] ?? "") || null : null,
+      active: record && typeof record.Active === "boolean" ? record.Active : null,
+      error: null
+    };
+  } catch (error) {
+    return { type: reference.type, number, name: null, active: null, ...getLookupFailure(error) };
+  }
+}
+
+/**
+ * Fetch the record a PUT or DELETE request would change
+ * Actions declare the record's endpoint (e.g., /3/invoices/123 for /3/invoices/123/credit);
+ * other requests change the record at their own endpoint.
+ */
+async function fetchCurrentRecord(request: DryRunRequest): Promise<CurrentRecord | null> {
+  if (request.method === "POST") return null;
+
+  const endpoint = request.readEndpoint || request.endpoint;
+
+  try {
+    const record = unwrapRecord(await fortnoxRequest<unknown>(endpoint));
+    const fields: Record<string, string | number | boolean | null> = {};
+    for (const [key, value] of Object.entries(record || {})) {
+      if (key.startsWith("@")) continue;
+      if (value === null || ["string", "number", "boolean"].includes(typeof value)) {
+        fields[key] = value as string | number | boolean | null;
+      }
+    }
+    return { endpoint, found: record !== null, fields, error: null };
+  } catch (error) {
+    return { endpoint, fields: {}, ...getLookupFailure(error) };
+  }
+}
+
+/**
+ * Format a payload as markdown: scalar fields as a list, arrays of rows as tables
+ */
+function formatPayload(payload: unknown, lines: string[], depth = 0): void {
+  if (!payload || typeof payload !== "object") {
+    lines.push(`- ${String(payload)}`);
+    return;
+  }
+
+  const entries = Object.entries(payload as Record<string, unknown>);
+  for (const [key, value] of entries) {
+    if (Array.isArray(value)) {
+      const rows = value.filter(v => v && typeof v === "object") as Record<string, unknown>[];
+      const columns = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+      lines.push("");
+      lines.push(`**${key}** (${value.length})`);
+      if (rows.length > 0 && columns.length > 0) {
+        lines.push("");
+        lines.push(`| ${columns.join(" | ")} |`);
+        lines.push(`|${columns.map(() => "---").join("|")}|`);
+        for (const row of rows) {
+          lines.push(`| ${columns.map(c => row[c] === undefined ? "" : String(row[c])).join(" | ")} |`);
+        }
+      }
+    } else if (value && typeof value === "object") {
+      if (depth === 0 && entries.length === 1) {
+        // Unwrap { Invoice: {...} }
+        formatPayload(value, lines, depth + 1);
+      } else {
+        lines.push(`- **${key}**: ${JSON.stringify(value)}`);
+      }
+    } else {
+      lines.push(`- **${key}**: ${value === null ? "-" : String(value)}`);
+    }
+  }
+}
+
+/**
+ * Preview held-back write requests: the current record, referenced records and payload of each
+ * Returns the structured preview and its markdown sections
+ */
+export async function previewRequests(requests: DryRunRequest[]) {
+  const lookups = new Map<string, Promise<ResolvedReference>>();
+  const previews = await Promise.all(requests.map(async (request) => ({
+    request,
+    current: await fetchCurrentRecord(request),
+    references: await resolveReferences(request, lookups)
+  })));
+
+  const output = {
+    requests: previews.map(({ request, current, references }) => ({
+      method: request.method,
+      endpoint: request.endpoint,
+      query: request.params || null,
+      payload: request.payload,
+      current_record: current,
+      references
+    })),
+    missing_references: previews.flatMap(p => p.references.filter(r => r.found === false)).length,
+    failed_lookups: previews.filter(p => p.current?.found === null).length +
+      previews.flatMap(p => p.references.filter(r => r.found === null)).length
+  };
+
+  const lines: string[] = [];
+  for (const { request, current, references } of previews) {
+    lines.push("");
+    lines.push(`## ${request.method} ${request.endpoint}`);
+
+    if (current) {
+      lines.push("");
+      lines.push(`### Current Record (${current.endpoint})`);
+      if (current.found === null) {
+        lines.push(`⚠️ Could not look up the record: ${current.error}`);
+      } else if (!current.found) {
+        lines.push("⚠️ Record not found");
+      } else {
+        for (const [key, value] of Object.entries(current.fields)) {
+          lines.push(`- **${key}**: ${value === null ? "-" : String(value)}`);
+        }
+      }
+    }
+
+    if (request.payload !== null) {
+      lines.push("");
+      lines.push("### Changes");
+      formatPayload(request.payload, lines);
+    }
+
+    if (references.length > 0) {
+      lines.push("");
+      lines.push("### Referenced Records");
+      lines.push("");
+      lines.push("| Type | Number | Name | Status |");
+      lines.push("|------|--------|------|--------|");
+      for (const r of references) {
+        const status = r.found === null
+          ? `⚠️ Lookup failed: ${r.error}`
+          : !r.found ? "⚠️ Not found" : r.active === false ? "⚠️ Inactive" : "OK";
+        lines.push(`| ${r.type} | ${r.number} | ${r.name || "-"} | ${status} |`);
+      }
+    }
+
+    if (request.payload !== null) {
+      lines.push("");
+      lines.push("### Payload");
+      lines.push("```json");
+      lines.push(JSON.stringify(request.payload, null, 2));
+      lines.push("```");
+    }
+  }
+
+  return { output, lines };
+}
+
+/**
+ * Build the preview response for a tool call whose write requests were held back
+ */
+export async function buildDryRunResponse(
+  toolName: string,
+  requests: DryRunRequest[],
+  responseFormat?: unknown
+) {
+  const preview = await previewRequests(requests);
+  const output = { dry_run: true, tool: toolName, ...preview.output };
+
+  let textContent: string;
+  if (responseFormat === ResponseFormat.JSON) {
+    textContent = JSON.stringify(output, null, 2);
+  } else {
+    const lines: string[] = [
+      `# Dry Run: ${toolName}`,
+      "",
+      "Nothing was sent to Fortnox. Run the tool again without `dry_run` to execute.",
+      "Follow-up requests that depend on the response below (e.g., bookkeeping a created record) are not shown.",
+      ...preview.lines
+    ];
+    textContent = lines.join("\n");
+  }
+
+  return buildToolResponse(textContent, output);
+}
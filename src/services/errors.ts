@@ -0,0 +1,181 @@
+/**
+ * Structured Errors
+ *
+ * Errors from the Fortnox API carry the HTTP status, Fortnox error code and
+ * endpoint, so tools and clients can branch on the kind of failure instead of
+ * matching on message text. buildErrorResponse exposes them as structuredContent.
+ */
+
+import { z } from "zod";
+import { AuthRequiredError } from "../auth/types.js";
+
+/**
+ * Category of a failed request
+ */
+export type FortnoxErrorKind =
+  | "bad_request"
+  | "authentication"
+  | "permission"
+  | "not_found"
+  | "rate_limit"
+  | "server"
+  | "timeout"
+  | "network"
+  | "unknown";
+
+// Fortnox error codes returned (with status 400) when the app lacks the scope or the user lacks access
+const FORTNOX_PERMISSION_ERROR_CODES = new Set([2000663]);
+
+/**
+ * Map an HTTP status and Fortnox error code to an error kind
+ */
+export function getFortnoxErrorKind(status?: number, code?: number): FortnoxErrorKind {
+  if (code !== undefined && FORTNOX_PERMISSION_ERROR_CODES.has(code)) return "permission";
+
+  switch (status) {
+    case 400:
+      return "bad_request";
+    case 401:
+      return "authentication";
+    case 403:
+      return "permission";
+    case 404:
+      return "not_found";
+    case 429:
+      return "rate_limit";
+    case undefined:
+      return "unknown";
+    default:
+      return status >= 500 ? "server" : "unknown";
+  }
+}
+
+/**
+ * Error from a Fortnox API request
+ */
+export class FortnoxApiError extends Error {
+  constructor(
+    message: string,
+    public kind: FortnoxErrorKind,
+    public endpoint?: string,
+    public status?: number,
+    public code?: number,
+    public fortnoxMessage?: string,
+    public retryable = false
+  ) {
+    super(message);
+    this.name = "FortnoxApiError";
+  }
+}
+
+/**
+ * Invalid tool input that the input schema cannot check (e.g., a malformed cursor)
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Missing, invalid or expired confirmation token for a destructive tool
+ */
+export class ConfirmationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfirmationError";
+  }
+}
+
+/**
+ * Tool call not allowed by the scopes granted to the MCP client
+ */
+export class InsufficientScopeError extends Error {
+  constructor(public toolName: string, public scope: string) {
+    super(`${toolName} requires the ${scope} scope. Reconnect the MCP client and grant ${scope} to use it.`);
+    this.name = "InsufficientScopeError";
+  }
+}
+
+/**
+ * Tool call denied by the tool policy (see toolPolicy.ts)
+ */
+export class PolicyDeniedError extends Error {
+  constructor(public toolName: string, public ruleName?: string, reason?: string) {
+    super(`${toolName} was denied by the tool policy${ruleName ? ` (rule "${ruleName}")` : ""}${reason ? `: ${reason}` : ""}`);
+    this.name = "PolicyDeniedError";
+  }
+}
+
+/**
+ * Structured error for isError tool results
+ */
+export type StructuredError = {
+  error: {
+    /** Error class: fortnox_api_error, authentication_required, insufficient_scope, policy_denied, confirmation_error, validation_error or internal_error */
+    type:
+      | "fortnox_api_error"
+      | "authentication_required"
+      | "insufficient_scope"
+      | "policy_denied"
+      | "confirmation_error"
+      | "validation_error"
+      | "internal_error";
+    kind: FortnoxErrorKind | "confirmation" | "validation";
+    message: string;
+    status: number | null;
+    code: number | null;
+    fortnox_message: string | null;
+    endpoint: string | null;
+    retryable: boolean;
+  };
+};
+
+/**
+ * Convert any thrown value to a structured error
+ * Invalid input (ValidationError, ZodError) is reported as a validation error; other
+ * errors raised by this server (e.g., a storage outage) as internal errors
+ */
+export function toStructuredError(error: unknown): StructuredError {
+  if (error instanceof FortnoxApiError) {
+    return {
+      error: {
+        type: "fortnox_api_error",
+        kind: error.kind,
+        message: error.message,
+        status: error.status ?? null,
+        code: error.code ?? null,
+        fortnox_message: error.fortnoxMessage ?? null,
+        endpoint: error.endpoint ?? null,
+        retryable: error.retryable
+      }
+    };
+  }
+
+  const [type, kind] = getLocalErrorType(error);
+  return {
+    error: {
+      type,
+      kind,
+      message: error instanceof Error ? error.message : String(error),
+      status: null,
+      code: null,
+      fortnox_message: null,
+      endpoint: null,
+      retryable: false
+    }
+  };
+}
+
+/**
+ * Type and kind of an error raised by this server rather than by Fortnox
+ */
+function getLocalErrorType(error: unknown): [StructuredError["error"]["type"], StructuredError["error"]["kind"]] {
+  if (error instanceof AuthRequiredError) return ["authentication_required", "authentication"];
+  if (error instanceof InsufficientScopeError) return ["insufficient_scope", "permission"];
+  if (error instanceof PolicyDeniedError) return ["policy_denied", "permission"];
+  if (error instanceof ConfirmationError) return ["confirmation_error", "confirmation"];
+  if (error instanceof ValidationError || error instanceof z.ZodError) return ["validation_error", "validation"];
+  return ["internal_error", "server"];
+}
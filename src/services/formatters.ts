@@ -1,4 +1,6 @@
 import { ResponseFormat, CHARACTER_LIMIT } from "../constants.js";
+import { getToolCallState } from "./toolCallContext.js";
+import { toStructuredError, type StructuredError } from "./errors.js";
 
 /**
  * Format a monetary amount with currency
@@ -39,6 +41,7 @@ export function truncateText(text: string, maxLength: number): string {
 
 /**
  * Build a tool response with text and structured content
+ * Adds api_retries (Fortnox requests retried during the call) to object outputs
  */
 export function buildToolResponse<T>(
   textContent: string,
@@ -51,23 +54,33 @@ export function buildToolResponse<T>(
       "\n\n---\n*Response truncated. Use filters or pagination to see more results.*";
   }
 
+  const state = getToolCallState();
+  const output = state && structuredOutput && typeof structuredOutput === "object" && !Array.isArray(structuredOutput)
+    ? { ...structuredOutput, api_retries: state.retries }
+    : structuredOutput;
+
   return {
     content: [{ type: "text", text: finalText }],
-    structuredContent: structuredOutput
+    structuredContent: output
   };
 }
 
 /**
  * Build an error response
+ * structuredContent carries the error kind, status, Fortnox error code and endpoint
+ * (see toStructuredError) so clients can branch on the type of failure
  */
 export function buildErrorResponse(error: unknown): {
   isError: true;
   content: Array<{ type: "text"; text: string }>;
+  structuredContent: StructuredError & { api_retries?: number };
 } {
-  const message = error instanceof Error ? error.message : String(error);
+  const structured = toStructuredError(error);
+  const state = getToolCallState();
   return {
     isError: true,
-    content: [{ type: "text", text: message }]
+    content: [{ type: "text", text: structured.error.message }],
+    structuredContent: state ? { ...structured, api_retries: state.retries } : structured
   };
 }
 
@@ -0,0 +1,46 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ILedgerCacheStorage, LedgerCacheEntry } from "./types.js";
+
+/**
+ * File-based ledger cache
+ * Stores one JSON file per user and financial year in the cache directory.
+ * File names are hashed so user IDs never appear on disk.
+ */
+export class FileLedgerCacheStorage implements ILedgerCacheStorage {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex").substring(0, 32);
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get(key: string): Promise<LedgerCacheEntry | null> {
+    try {
+      const content = await fs.readFile(this.filePath(key), "utf8");
+      return JSON.parse(content) as LedgerCacheEntry;
+    } catch {
+      // Missing or unreadable cache file - treat as not cached
+      return null;
+    }
+  }
+
+  async set(key: string, entry: LedgerCacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a half-written cache
+    const target = this.filePath(key);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry), "utf8");
+    await fs.rename(temp, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+}
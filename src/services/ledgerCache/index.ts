@@ -0,0 +1,423 @@
+/**
+ * Ledger Cache
+ *
+ * Keeps every voucher (header and rows) of a financial year locally, per user,
+ * so account and voucher queries don't have to fetch each voucher's details
+ * from Fortnox again. A ledger is built once from the year's SIE4 export (one
+ * request) and afterwards refreshed incrementally with lastmodified filtering.
+ *
+ * Configuration:
+ * - LEDGER_CACHE: "file", "memory", "upstash-redis" or "off" (default: file in local mode; in remote
+ *   mode upstash-redis if Redis is configured, otherwise memory)
+ * - LEDGER_CACHE_DIR: Directory for the file cache (default: ~/.fortnox-mcp/ledger-cache)
+ */
+
+import * as os from "os";
+import * as path from "path";
+import { getCurrentTenantKey } from "../../auth/context.js";
+import { fortnoxDownload } from "../api.js";
+import { decodeSie, parseSie } from "../sieParser.js";
+import { getTodayString } from "../dateHelpers.js";
+import {
+  fetchVoucherList,
+  fetchVoucherDetails,
+  fetchFinancialYears,
+  scanVouchers,
+  type ScannedVoucher,
+  type VoucherListFilter,
+  type VoucherScanResult
+} from "../voucherScanner.js";
+import {
+  MAX_FETCH_ALL_RESULTS,
+  LEDGER_CACHE_REFRESH_INTERVAL_MS,
+  LEDGER_CACHE_MODIFIED_MARGIN_MS
+} from "../../constants.js";
+import { ILedgerCacheStorage, LedgerCacheEntry } from "./types.js";
+import { MemoryLedgerCacheStorage } from "./memory.js";
+import { FileLedgerCacheStorage } from "./file.js";
+import { UpstashRedisLedgerCacheStorage } from "./redis.js";
+
+export * from "./types.js";
+export { MemoryLedgerCacheStorage } from "./memory.js";
+export { FileLedgerCacheStorage } from "./file.js";
+export { UpstashRedisLedgerCacheStorage } from "./redis.js";
+
+export type LedgerCacheType = "file" | "memory" | "upstash-redis" | "off";
+
+/**
+ * Result of querying the ledger, from the cache or a direct scan
+ */
+export interface LedgerQueryResult extends VoucherScanResult {
+  source: "cache" | "fortnox";
+  /** When the cached ledger was last synced (ms since epoch), if served from cache */
+  cacheSyncedAt?: number;
+}
+
+/**
+ * Result of syncing a ledger
+ */
+export interface LedgerSyncResult {
+  entry: LedgerCacheEntry;
+  /** True if the ledger was rebuilt from scratch */
+  rebuilt: boolean;
+  /** Vouchers added or updated by an incremental refresh */
+  updated: number;
+}
+
+// SIE dimension numbers for cost center and project
+const SIE_DIMENSION_COST_CENTER = "1";
+const SIE_DIMENSION_PROJECT = "6";
+
+let storage: ILedgerCacheStorage | null | undefined;
+
+// Syncs in progress, so concurrent tool calls share one sync per ledger
+const pendingSyncs = new Map<string, Promise<LedgerSyncResult>>();
+
+/**
+ * Get the configured ledger cache type
+ */
+export function getLedgerCacheType(): LedgerCacheType {
+  const configured = process.env.LEDGER_CACHE as LedgerCacheType | undefined;
+  if (configured === "file" || configured === "memory" || configured === "upstash-redis" || configured === "off") {
+    return configured;
+  }
+  if (process.env.AUTH_MODE !== "remote") {
+    return "file";
+  }
+  return process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL ? "upstash-redis" : "memory";
+}
+
+/**
+ * Get the ledger cache storage, or null if the cache is disabled
+ */
+export function getLedgerCacheStorage(): ILedgerCacheStorage | null {
+  if (storage === undefined) {
+    switch (getLedgerCacheType()) {
+      case "off":
+        storage = null;
+        break;
+      case "memory":
+        storage = new MemoryLedgerCacheStorage();
+        break;
+      case "upstash-redis":
+        storage = new UpstashRedisLedgerCacheStorage();
+        break;
+      case "file":
+      default:
+        storage = new FileLedgerCacheStorage(
+          process.env.LEDGER_CACHE_DIR || path.join(os.homedir(), ".fortnox-mcp", "ledger-cache")
+        );
+    }
+  }
+  return storage;
+}
+
+/**
+ * Cache key for the current user's ledger of a financial year
+ */
+function cacheKey(financialYear: number): string {
+  return `${getCurrentTenantKey()}:${financialYear}`;
+}
+
+/**
+ * Format a time as a Fortnox lastmodified timestamp (YYYY-MM-DD HH:MM, Swedish time)
+ */
+function formatLastModified(time: number): string {
+  const parts = new Intl.DateTimeFormat("sv-SE", {
+    timeZone: "Europe/Stockholm",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false
+  }).formatToParts(new Date(time));
+  const get = (type: string) => parts.find(p => p.type === type)?.value || "00";
+  return `${get("year")}-${get("month")}-${get("day")} ${get("hour")}:${get("minute")}`;
+}
+
+/**
+ * Load all vouchers of a financial year from its SIE4 export
+ */
+async function loadVouchersFromSie(financialYear: number): Promise<ScannedVoucher[]> {
+  const sie = parseSie(decodeSie(await fortnoxDownload("/3/sie/4", { financialyear: financialYear })));
+
+  return sie.vouchers.map(v => ({
+    VoucherSeries: v.series,
+    VoucherNumber: Number(v.number),
+    Year: financialYear,
+    Description: v.text,
+    TransactionDate: v.date,
+    VoucherRows: v.transactions.map(t => ({
+      Account: Number(t.account),
+      Debit: t.amount > 0 ? Math.round(t.amount * 100) / 100 : 0,
+      Credit: t.amount < 0 ? Math.round(-t.amount * 100) / 100 : 0,
+      Description: t.text,
+      CostCenter: t.objects.find(o => o.dimension === SIE_DIMENSION_COST_CENTER)?.object,
+      Project: t.objects.find(o => o.dimension === SIE_DIMENSION_PROJECT)?.object
+    }))
+  }));
+}
+
+/**
+ * Load all vouchers of a financial year by listing them and fetching each one's details
+ * (fallback when the SIE export is not available)
+ * Throws if the year has more vouchers than can be scanned or any voucher could not be fetched
+ */
+async function loadVouchersByScan(financialYear: number): Promise<ScannedVoucher[]> {
+  const result = await scanVouchers({ financialYear, maxVouchers: MAX_FETCH_ALL_RESULTS });
+  if (result.truncated) {
+    throw new Error(
+      `Could not build the ledger for financial year ${financialYear}: ${result.truncationReason || "the voucher scan was truncated"}`
+    );
+  }
+  return result.vouchers;
+}
+
+function voucherKey(v: ScannedVoucher): string {
+  return `${v.VoucherSeries}:${v.VoucherNumber}`;
+}
+
+/**
+ * Sync the current user's ledger for a financial year
+ *
+ * Builds the ledger if it isn't cached (or full=true), otherwise fetches the vouchers
+ * modified since the last sync and merges them in. Incremental refreshes are skipped
+ * if the ledger was synced less than LEDGER_CACHE_REFRESH_INTERVAL_MS ago, unless forced.
+ * Throws (leaving the cached ledger as it was) if any voucher could not be fetched,
+ * so an incomplete ledger is never stored.
+ */
+export async function syncLedger(
+  financialYear: number,
+  options: { full?: boolean; force?: boolean } = {}
+): Promise<LedgerSyncResult> {
+  const cache = getLedgerCacheStorage();
+  if (!cache) {
+    throw new Error("The ledger cache is disabled (LEDGER_CACHE=off).");
+  }
+
+  const key = cacheKey(financialYear);
+  const pending = pendingSyncs.get(key);
+  if (pending) return pending;
+
+  const sync = (async (): Promise<LedgerSyncResult> => {
+    const startedAt = Date.now();
+    const lastModified = formatLastModified(startedAt - LEDGER_CACHE_MODIFIED_MARGIN_MS);
+    const existing = options.full ? null : await cache.get(key);
+
+    if (!existing) {
+      let vouchers: ScannedVoucher[];
+      try {
+        vouchers = await loadVouchersFromSie(financialYear);
+      } catch {
+        vouchers = await loadVouchersByScan(financialYear);
+      }
+
+      const entry: LedgerCacheEntry = {
+        financialYear,
+        vouchers,
+        lastModified,
+        syncedAt: startedAt,
+        createdAt: startedAt
+      };
+      await cache.set(key, entry);
+      return { entry, rebuilt: true, updated: vouchers.length };
+    }
+
+    if (!options.force && startedAt - existing.syncedAt < LEDGER_CACHE_REFRESH_INTERVAL_MS) {
+      return { entry: existing, rebuilt: false, updated: 0 };
+    }
+
+    const modified = await fetchVoucherList({
+      financialYear,
+      lastModified: existing.lastModified,
+      maxVouchers: MAX_FETCH_ALL_RESULTS
+    });
+    if (modified.truncated) {
+      throw new Error(
+        `Could not refresh the ledger for financial year ${financialYear}: ${modified.truncationReason || "the list of modified vouchers was truncated"}. Rebuild it with full=true.`
+      );
+    }
+
+    // Modified vouchers must not come from the response cache
+    const details = await fetchVoucherDetails(modified.items, financialYear, { cache: false });
+    if (details.length < modified.items.length) {
+      throw new Error(
+        `Could not refresh the ledger for financial year ${financialYear}: ${modified.items.length - details.length} modified vouchers could not be fetched`
+      );
+    }
+
+    const byKey = new Map(existing.vouchers.map(v => [voucherKey(v), v]));
+    for (const voucher of details) {
+      byKey.set(voucherKey(voucher), voucher);
+    }
+
+    const entry: LedgerCacheEntry = {
+      ...existing,
+      vouchers: Array.from(byKey.values()),
+      lastModified,
+      syncedAt: startedAt
+    };
+    await cache.set(key, entry);
+    return { entry, rebuilt: false, updated: details.length };
+  })();
+
+  pendingSyncs.set(key, sync);
+  try {
+    return await sync;
+  } finally {
+    pendingSyncs.delete(key);
+  }
+}
+
+/**
+ * Make the next query of the current user's ledger for a financial year refresh it
+ * (e.g., after creating a voucher), instead of waiting for LEDGER_CACHE_REFRESH_INTERVAL_MS
+ * Failures are logged but not thrown (the write has already been sent)
+ */
+export async function invalidateLedger(financialYear: number): Promise<void> {
+  try {
+    const cache = getLedgerCacheStorage();
+    const key = cacheKey(financialYear);
+    if (cache?.markStale) {
+      await cache.markStale(key);
+      return;
+    }
+    const entry = await cache?.get(key);
+    if (cache && entry) {
+      await cache.set(key, { ...entry, syncedAt: 0 });
+    }
+  } catch (error) {
+    console.error("[LedgerCache] Invalidation failed:", error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Remove the current user's cached ledger for a financial year
+ */
+export async function clearLedger(financialYear: number): Promise<void> {
+  await getLedgerCacheStorage()?.delete(cacheKey(financialYear));
+}
+
+/**
+ * Query vouchers (with rows) of one financial year from the ledger cache
+ * Returns null if the ledger cannot be synced completely
+ */
+async function queryCachedLedger(filter: VoucherListFilter, financialYear: number): Promise<LedgerQueryResult | null> {
+  let entry: LedgerCacheEntry;
+  try {
+    ({ entry } = await syncLedger(financialYear));
+  } catch (error) {
+    console.error("[LedgerCache] Sync failed, scanning Fortnox directly:", error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  const vouchers = entry.vouchers
+    .filter(v => !filter.voucherSeries || v.VoucherSeries === filter.voucherSeries)
+    .filter(v => !filter.fromDate || v.TransactionDate >= filter.fromDate)
+    .filter(v => !filter.toDate || v.TransactionDate <= filter.toDate)
+    .sort((a, b) =>
+      a.TransactionDate.localeCompare(b.TransactionDate) ||
+      a.VoucherSeries.localeCompare(b.VoucherSeries) ||
+      a.VoucherNumber - b.VoucherNumber
+    );
+
+  return {
+    vouchers,
+    vouchersScanned: vouchers.length,
+    totalVouchers: vouchers.length,
+    truncated: false,
+    source: "cache",
+    cacheSyncedAt: entry.syncedAt
+  };
+}
+
+/**
+ * Query vouchers (with rows), served from the ledger cache when possible
+ *
+ * The cache is used when it is enabled and the query falls within one financial
+ * year (given, or resolved from the dates). Otherwise, or if the ledger cannot be
+ * synced completely, vouchers are scanned from Fortnox directly, limited by
+ * maxVouchers (continuing a previous scan if a cursor is given).
+ */
+export async function queryLedger(filter: VoucherListFilter): Promise<LedgerQueryResult> {
+  if (getLedgerCacheStorage() && !filter.cursor) {
+    let financialYear = filter.financialYear;
+
+    if (financialYear === undefined) {
+      const referenceDate = filter.toDate || filter.fromDate || getTodayString();
+      const year = (await fetchFinancialYears())
+        .find(fy => fy.FromDate <= referenceDate && fy.ToDate >= referenceDate);
+      if (year && (!filter.fromDate || filter.fromDate >= year.FromDate)) {
+        financialYear = year.Id;
+      }
+    }
+
+    if (financialYear !== undefined) {
+      const cached = await queryCachedLedger(filter, financialYear);
+      if (cached) return cached;
+    }
+  }
+
+  const result = await scanVouchers(filter);
+  return { ...result, source: "fortnox" };
+}
+
+/**
+ * Query vouchers (with rows) for a date range that may span several financial years
+ *
+ * Each financial year overlapping the range is served from the ledger cache when
+ * possible. Years scanned from Fortnox share the maxVouchers budget (earliest year first).
+ */
+export async function queryLedgerForDateRange(
+  fromDate: string,
+  toDate: string,
+  maxVouchers: number
+): Promise<LedgerQueryResult> {
+  const years = (await fetchFinancialYears())
+    .filter(fy => fy.FromDate <= toDate && fy.ToDate >= fromDate);
+
+  const combined: LedgerQueryResult = {
+    vouchers: [],
+    vouchersScanned: 0,
+    totalVouchers: 0,
+    truncated: false,
+    source: "cache"
+  };
+  let scannedFromFortnox = 0;
+
+  for (const fy of years) {
+    const filter: VoucherListFilter = {
+      financialYear: fy.Id,
+      fromDate: fy.FromDate > fromDate ? fy.FromDate : fromDate,
+      toDate: fy.ToDate < toDate ? fy.ToDate : toDate,
+      maxVouchers: maxVouchers - scannedFromFortnox
+    };
+
+    let result: LedgerQueryResult | null = getLedgerCacheStorage()
+      ? await queryCachedLedger(filter, fy.Id)
+      : null;
+    if (result) {
+      combined.cacheSyncedAt = Math.min(combined.cacheSyncedAt ?? Infinity, result.cacheSyncedAt ?? Infinity);
+    } else {
+      if (filter.maxVouchers <= 0) {
+        combined.truncated = true;
+        combined.truncationReason = `Reached maximum of ${maxVouchers} vouchers`;
+        continue;
+      }
+      result = { ...(await scanVouchers(filter)), source: "fortnox" };
+      scannedFromFortnox += result.vouchersScanned;
+      combined.source = "fortnox";
+    }
+
+    combined.vouchers.push(...result.vouchers);
+    combined.vouchersScanned += result.vouchersScanned;
+    combined.totalVouchers += result.totalVouchers;
+    if (result.truncated) {
+      combined.truncated = true;
+      combined.truncationReason = result.truncationReason;
+    }
+  }
+
+  return combined;
+}
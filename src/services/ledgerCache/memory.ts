@@ -0,0 +1,48 @@
+import { ILedgerCacheStorage, LedgerCacheEntry } from "./types.js";
+import { LEDGER_CACHE_MEMORY_MAX_ENTRIES } from "../../constants.js";
+
+/**
+ * In-memory ledger cache
+ * Used in remote mode by default when Redis is not configured, since the filesystem is not persistent
+ * Evicts the least recently used ledgers when full
+ * WARNING: The cache is lost when the server restarts
+ */
+export class MemoryLedgerCacheStorage implements ILedgerCacheStorage {
+  private entries: Map<string, LedgerCacheEntry> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries = LEDGER_CACHE_MEMORY_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<LedgerCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    // Move to the end, so the least recently used ledger is first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: LedgerCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Clear all cached ledgers (for testing)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
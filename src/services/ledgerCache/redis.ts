@@ -0,0 +1,126 @@
+import type { ScannedVoucher } from "../voucherScanner.js";
+import { ILedgerCacheStorage, LedgerCacheEntry } from "./types.js";
+import { LEDGER_CACHE_REDIS_TTL_SECONDS } from "../../constants.js";
+
+// Vouchers written per HSET, to keep requests to Upstash small
+const HSET_BATCH_SIZE = 500;
+
+// Field that keeps the hash of a ledger without vouchers (Redis drops empty hashes)
+const EMPTY_MARKER_FIELD = "";
+
+// Seconds a replaced version stays readable for reads that started before the switch
+const REPLACED_VERSION_TTL_SECONDS = 60;
+
+type LedgerMeta = Omit<LedgerCacheEntry, "vouchers"> & { version: number };
+
+/**
+ * Upstash Redis ledger cache
+ * Shared between all server instances and kept across restarts (e.g., on Vercel)
+ *
+ * Each ledger is a metadata key and a hash of vouchers (one field per voucher).
+ * A write goes to a new version of the hash, and the metadata is switched to it
+ * last, so readers never see a partly written ledger. Ledgers expire after
+ * LEDGER_CACHE_REDIS_TTL_SECONDS without a sync.
+ *
+ * Uses the same Redis as UpstashRedisTokenStorage:
+ * - UPSTASH_REDIS_REST_URL: Upstash Redis REST URL (or KV_REST_API_URL for backwards compat)
+ * - UPSTASH_REDIS_REST_TOKEN: Upstash Redis REST token (or KV_REST_API_TOKEN)
+ */
+export class UpstashRedisLedgerCacheStorage implements ILedgerCacheStorage {
+  private prefix: string;
+  private redis: import("@upstash/redis").Redis | null = null;
+
+  constructor(prefix = "fortnox_ledger:") {
+    this.prefix = prefix;
+  }
+
+  /**
+   * Lazy load the Redis client to avoid issues when @upstash/redis is not installed
+   */
+  private async getRedis() {
+    if (!this.redis) {
+      try {
+        const { Redis } = await import("@upstash/redis");
+
+        const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+        const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+
+        if (!url || !token) {
+          throw new Error("Missing Redis configuration");
+        }
+
+        this.redis = new Redis({ url, token });
+      } catch (error) {
+        throw new Error(
+          "Upstash Redis not available. Install @upstash/redis and configure UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN."
+        );
+      }
+    }
+    return this.redis;
+  }
+
+  private metaKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  private vouchersKey(key: string, version: number): string {
+    return `${this.prefix}${key}:vouchers:${version}`;
+  }
+
+  async get(key: string): Promise<LedgerCacheEntry | null> {
+    const redis = await this.getRedis();
+    const meta = await redis.get<LedgerMeta>(this.metaKey(key));
+    if (!meta) return null;
+
+    const vouchers = await redis.hgetall<Record<string, ScannedVoucher>>(this.vouchersKey(key, meta.version));
+    if (!vouchers) return null;
+
+    const { version, ...entry } = meta;
+    return {
+      ...entry,
+      vouchers: Object.entries(vouchers)
+        .filter(([field]) => field !== EMPTY_MARKER_FIELD)
+        .map(([, voucher]) => voucher)
+    };
+  }
+
+  async set(key: string, entry: LedgerCacheEntry): Promise<void> {
+    const redis = await this.getRedis();
+    const previous = await redis.get<LedgerMeta>(this.metaKey(key));
+    const version = (previous?.version || 0) + 1;
+    const vouchersKey = this.vouchersKey(key, version);
+
+    for (let i = 0; i < entry.vouchers.length; i += HSET_BATCH_SIZE) {
+      const batch = entry.vouchers.slice(i, i + HSET_BATCH_SIZE);
+      await redis.hset(vouchersKey, Object.fromEntries(batch.map(v => [`${v.VoucherSeries}:${v.VoucherNumber}`, v])));
+    }
+    if (entry.vouchers.length === 0) {
+      await redis.hset(vouchersKey, { [EMPTY_MARKER_FIELD]: 0 });
+    }
+    await redis.expire(vouchersKey, LEDGER_CACHE_REDIS_TTL_SECONDS);
+
+    const { vouchers, ...meta } = entry;
+    await redis.set(this.metaKey(key), { ...meta, version }, { ex: LEDGER_CACHE_REDIS_TTL_SECONDS });
+
+    if (previous) {
+      await redis.expire(this.vouchersKey(key, previous.version), REPLACED_VERSION_TTL_SECONDS);
+    }
+  }
+
+  async markStale(key: string): Promise<void> {
+    const redis = await this.getRedis();
+    const meta = await redis.get<LedgerMeta>(this.metaKey(key));
+    if (meta) {
+      await redis.set(this.metaKey(key), { ...meta, syncedAt: 0 }, { ex: LEDGER_CACHE_REDIS_TTL_SECONDS });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const redis = await this.getRedis();
+    const meta = await redis.get<LedgerMeta>(this.metaKey(key));
+    await redis.del(this.metaKey(key));
+    if (meta) {
+      await redis.del(this.vouchersKey(key, meta.version));
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import type { ScannedVoucher } from "../voucherScanner.js";
+
+/**
+ * Cached ledger (voucher headers and rows) for one financial year
+ */
+export interface LedgerCacheEntry {
+  /** Fortnox financial year ID */
+  financialYear: number;
+  /** All vouchers in the financial year, with rows */
+  vouchers: ScannedVoucher[];
+  /** Fortnox lastmodified timestamp (YYYY-MM-DD HH:MM, Swedish time) for the next incremental refresh */
+  lastModified: string;
+  /** When the cache was last synced with Fortnox (ms since epoch) */
+  syncedAt: number;
+  /** When the cache was last fully rebuilt (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * Interface for ledger cache backends (memory, file, Upstash Redis)
+ */
+export interface ILedgerCacheStorage {
+  /**
+   * Get the cached ledger for a key
+   * @param key - Cache key (user and financial year)
+   * @returns Cached ledger or null if not cached
+   */
+  get(key: string): Promise<LedgerCacheEntry | null>;
+
+  /**
+   * Store the ledger for a key
+   * @param key - Cache key (user and financial year)
+   * @param entry - Ledger to store
+   */
+  set(key: string, entry: LedgerCacheEntry): Promise<void>;
+
+  /**
+   * Delete the cached ledger for a key
+   * @param key - Cache key (user and financial year)
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Mark the cached ledger for a key as due for a refresh (syncedAt 0) without rewriting its vouchers
+   * Backends without it are updated with get and set
+   * @param key - Cache key (user and financial year)
+   */
+  markStale?(key: string): Promise<void>;
+}
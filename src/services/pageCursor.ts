@@ -0,0 +1,74 @@
+/**
+ * Pagination Cursors
+ *
+ * When fetchAllPages stops at its safety limits it returns an opaque cursor that
+ * encodes the endpoint, query parameters and next page. Passing the cursor back
+ * to the same tool continues where the previous call stopped, so large datasets
+ * can be processed over several tool calls instead of being truncated.
+ */
+
+import { ValidationError } from "./errors.js";
+
+const CURSOR_VERSION = 1;
+
+const INVALID_CURSOR_MESSAGE = "Invalid cursor. Pass the next_cursor value from a previous response unchanged.";
+
+/**
+ * Decoded pagination cursor
+ */
+export interface PageCursor {
+  /** API endpoint the cursor was issued for (e.g., "/3/invoices") */
+  endpoint: string;
+  /** Query parameters of the original request (without limit/page) */
+  params: Record<string, string | number | boolean>;
+  /** Next page to fetch */
+  page: number;
+  /** Page size used by the original request */
+  pageSize: number;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Encode a pagination cursor as an opaque string
+ */
+export function encodePageCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, ...cursor }), "utf8").toString("base64url");
+}
+
+/**
+ * Decode a pagination cursor
+ * Throws ValidationError if the cursor is malformed or was issued for a different endpoint
+ */
+export function decodePageCursor(value: string, endpoint?: string): PageCursor {
+  let decoded: Partial<PageCursor> & { v?: number };
+  try {
+    decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw new ValidationError(INVALID_CURSOR_MESSAGE);
+  }
+
+  if (
+    !decoded || typeof decoded !== "object" ||
+    decoded.v !== CURSOR_VERSION ||
+    typeof decoded.endpoint !== "string" ||
+    !isPositiveInteger(decoded.page) ||
+    !isPositiveInteger(decoded.pageSize) ||
+    typeof decoded.params !== "object" || decoded.params === null || Array.isArray(decoded.params)
+  ) {
+    throw new ValidationError(INVALID_CURSOR_MESSAGE);
+  }
+
+  if (endpoint !== undefined && decoded.endpoint !== endpoint) {
+    throw new ValidationError(`Cursor was issued for ${decoded.endpoint}, not ${endpoint}. Use it with the tool that returned it.`);
+  }
+
+  return {
+    endpoint: decoded.endpoint,
+    params: decoded.params,
+    page: decoded.page,
+    pageSize: decoded.pageSize
+  };
+}
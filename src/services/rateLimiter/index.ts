@@ -0,0 +1,89 @@
+/**
+ * Fortnox API Rate Limiting
+ *
+ * Fortnox allows RATE_LIMIT_REQUESTS requests per RATE_LIMIT_WINDOW_MS per
+ * integration and company, so all users working with a company share its budget. In remote mode the
+ * limiter can be backed by Upstash Redis so that all server instances share it.
+ *
+ * Configuration:
+ * - RATE_LIMITER: "memory" or "upstash-redis" (default: upstash-redis if Redis is configured, otherwise memory)
+ */
+
+import { IRateLimiter } from "./types.js";
+import { MemoryRateLimiter } from "./memory.js";
+import { UpstashRedisRateLimiter } from "./redis.js";
+
+export * from "./types.js";
+export { MemoryRateLimiter } from "./memory.js";
+export { UpstashRedisRateLimiter } from "./redis.js";
+
+export type RateLimiterType = "memory" | "upstash-redis";
+
+// Buffer added to each wait so the slot has expired when we retry
+const WAIT_BUFFER_MS = 50;
+
+let rateLimiter: IRateLimiter | null = null;
+
+// Used when the configured limiter is unavailable (e.g., Redis is down)
+const fallbackLimiter = new MemoryRateLimiter();
+
+export function createRateLimiter(type: RateLimiterType): IRateLimiter {
+  switch (type) {
+    case "upstash-redis":
+      return new UpstashRedisRateLimiter();
+    case "memory":
+    default:
+      return new MemoryRateLimiter();
+  }
+}
+
+export function getRateLimiterFromEnv(): IRateLimiter {
+  const limiterType = process.env.RATE_LIMITER as RateLimiterType | undefined;
+
+  if (limiterType) {
+    return createRateLimiter(limiterType);
+  }
+
+  // Auto-detect based on environment
+  if (process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL) {
+    return new UpstashRedisRateLimiter();
+  }
+
+  return new MemoryRateLimiter();
+}
+
+/**
+ * Get the rate limiter (created from the environment on first use)
+ */
+export function getRateLimiter(): IRateLimiter {
+  if (!rateLimiter) {
+    rateLimiter = getRateLimiterFromEnv();
+  }
+  return rateLimiter;
+}
+
+/**
+ * Set the rate limiter (for custom backends and testing)
+ */
+export function setRateLimiter(limiter: IRateLimiter): void {
+  rateLimiter = limiter;
+}
+
+/**
+ * Wait until a request slot is available for a key, then reserve it
+ * Falls back to an in-process limiter if the configured backend fails
+ */
+export async function waitForRateLimit(key: string): Promise<void> {
+  for (;;) {
+    let waitMs: number;
+    try {
+      waitMs = await getRateLimiter().acquire(key);
+    } catch (error) {
+      console.error("[RateLimit] Limiter unavailable, using in-memory fallback:", error);
+      waitMs = await fallbackLimiter.acquire(key);
+    }
+
+    if (waitMs <= 0) return;
+    await new Promise((resolve) => setTimeout(resolve, waitMs + WAIT_BUFFER_MS));
+  }
+}
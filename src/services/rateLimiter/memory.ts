@@ -0,0 +1,59 @@
+import { RATE_LIMIT_REQUESTS, RATE_LIMIT_WINDOW_MS } from "../../constants.js";
+import { IRateLimiter } from "./types.js";
+
+/**
+ * In-memory sliding window rate limiter
+ * Correct for a single server process; limits are not shared between instances
+ * Keys without requests in the current window are dropped, so idle companies use no memory
+ */
+export class MemoryRateLimiter implements IRateLimiter {
+  private requestTimestamps: Map<string, number[]> = new Map();
+  private limit: number;
+  private windowMs: number;
+  private lastSweep = 0;
+
+  constructor(limit = RATE_LIMIT_REQUESTS, windowMs = RATE_LIMIT_WINDOW_MS) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  async acquire(key: string): Promise<number> {
+    const now = Date.now();
+    this.sweep(now);
+
+    // Remove timestamps outside the window
+    const timestamps = (this.requestTimestamps.get(key) || []).filter(
+      (ts) => now - ts < this.windowMs
+    );
+
+    // If at limit, wait for oldest request to expire
+    if (timestamps.length >= this.limit) {
+      this.requestTimestamps.set(key, timestamps);
+      return this.windowMs - (now - timestamps[0]);
+    }
+
+    timestamps.push(now);
+    this.requestTimestamps.set(key, timestamps);
+    return 0;
+  }
+
+  /**
+   * Drop keys whose requests are all outside the window (at most once per window)
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.windowMs) return;
+    this.lastSweep = now;
+    for (const [key, timestamps] of this.requestTimestamps) {
+      if (timestamps.length === 0 || now - timestamps[timestamps.length - 1] >= this.windowMs) {
+        this.requestTimestamps.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Clear all tracked requests (for testing)
+   */
+  clear(): void {
+    this.requestTimestamps.clear();
+  }
+}
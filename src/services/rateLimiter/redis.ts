@@ -0,0 +1,81 @@
+import { RATE_LIMIT_REQUESTS, RATE_LIMIT_WINDOW_MS } from "../../constants.js";
+import { IRateLimiter } from "./types.js";
+
+/**
+ * Sliding window in a sorted set, evaluated atomically on the Redis server.
+ * Uses the Redis clock so that all server instances agree on the window.
+ *
+ * KEYS[1] = window key, ARGV[1] = limit, ARGV[2] = window (ms), ARGV[3] = unique member
+ * Returns 0 if a slot was reserved, otherwise milliseconds until the oldest request expires
+ */
+const ACQUIRE_SCRIPT = `
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, now - window)
+if redis.call("ZCARD", KEYS[1]) < limit then
+  redis.call("ZADD", KEYS[1], now, ARGV[3])
+  redis.call("PEXPIRE", KEYS[1], window)
+  return 0
+end
+local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+return math.max(1, tonumber(oldest[2]) + window - now)
+`;
+
+/**
+ * Upstash Redis rate limiter
+ * Shares the request budget between all server instances (e.g., on Vercel)
+ *
+ * Uses the same Redis as UpstashRedisTokenStorage:
+ * - UPSTASH_REDIS_REST_URL: Upstash Redis REST URL (or KV_REST_API_URL for backwards compat)
+ * - UPSTASH_REDIS_REST_TOKEN: Upstash Redis REST token (or KV_REST_API_TOKEN)
+ */
+export class UpstashRedisRateLimiter implements IRateLimiter {
+  private prefix: string;
+  private limit: number;
+  private windowMs: number;
+  private redis: import("@upstash/redis").Redis | null = null;
+
+  constructor(prefix = "fortnox_ratelimit:", limit = RATE_LIMIT_REQUESTS, windowMs = RATE_LIMIT_WINDOW_MS) {
+    this.prefix = prefix;
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Lazy load the Redis client to avoid issues when @upstash/redis is not installed
+   */
+  private async getRedis() {
+    if (!this.redis) {
+      try {
+        const { Redis } = await import("@upstash/redis");
+
+        const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+        const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+
+        if (!url || !token) {
+          throw new Error("Missing Redis configuration");
+        }
+
+        this.redis = new Redis({ url, token });
+      } catch (error) {
+        throw new Error(
+          "Upstash Redis not available. Install @upstash/redis and configure UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN."
+        );
+      }
+    }
+    return this.redis;
+  }
+
+  async acquire(key: string): Promise<number> {
+    const redis = await this.getRedis();
+    const member = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const waitMs = await redis.eval<string[], number>(
+      ACQUIRE_SCRIPT,
+      [`${this.prefix}${key}`],
+      [String(this.limit), String(this.windowMs), member]
+    );
+    return Number(waitMs) || 0;
+  }
+}
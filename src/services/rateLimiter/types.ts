@@ -0,0 +1,14 @@
+/**
+ * Interface for rate limiter backends (memory, Upstash Redis)
+ *
+ * A limiter tracks a sliding window of requests per key (one key per user /
+ * Fortnox tenant) so that every key gets its own RATE_LIMIT_REQUESTS budget.
+ */
+export interface IRateLimiter {
+  /**
+   * Try to reserve a request slot for a key
+   * @param key - Rate limit key (user / Fortnox tenant)
+   * @returns 0 if a slot was reserved, otherwise milliseconds to wait before trying again
+   */
+  acquire(key: string): Promise<number>;
+}
@@ -0,0 +1,152 @@
+/**
+ * Response Cache
+ *
+ * TTL cache for GET requests to the Fortnox API, keyed by user, endpoint and
+ * query parameters. A POST, PUT or DELETE through this server drops the cached
+ * responses for the written resource (and resources it affects), and tools can
+ * bypass the cache with force_refresh.
+ *
+ * Configuration:
+ * - RESPONSE_CACHE: "memory", "upstash-redis" or "off" (default: upstash-redis if Redis is configured, otherwise memory)
+ * - RESPONSE_CACHE_TTL_SECONDS: Time to live for cached responses (default: 300)
+ */
+
+import { getCurrentTenantKey } from "../../auth/context.js";
+import { RESPONSE_CACHE_TTL_SECONDS } from "../../constants.js";
+import { IResponseCache } from "./types.js";
+import { MemoryResponseCache } from "./memory.js";
+import { UpstashRedisResponseCache } from "./redis.js";
+
+export * from "./types.js";
+export { MemoryResponseCache } from "./memory.js";
+export { UpstashRedisResponseCache } from "./redis.js";
+
+export type ResponseCacheType = "memory" | "upstash-redis" | "off";
+
+// Resources whose cached responses are also stale after a write to the key resource
+const RELATED_RESOURCES: Record<string, string[]> = {
+  invoices: ["vouchers", "accounts", "customers"],
+  invoicepayments: ["invoices", "vouchers", "accounts"],
+  supplierinvoices: ["vouchers", "accounts", "suppliers"],
+  supplierinvoicepayments: ["supplierinvoices", "vouchers", "accounts"],
+  vouchers: ["accounts"],
+  orders: ["invoices"],
+  offers: ["orders"],
+  sie: ["vouchers", "accounts"]
+};
+
+let responseCache: IResponseCache | null | undefined;
+
+export function createResponseCache(type: ResponseCacheType): IResponseCache | null {
+  switch (type) {
+    case "off":
+      return null;
+    case "upstash-redis":
+      return new UpstashRedisResponseCache();
+    case "memory":
+    default:
+      return new MemoryResponseCache();
+  }
+}
+
+export function getResponseCacheFromEnv(): IResponseCache | null {
+  const cacheType = process.env.RESPONSE_CACHE as ResponseCacheType | undefined;
+
+  if (cacheType) {
+    return createResponseCache(cacheType);
+  }
+
+  // Auto-detect based on environment
+  if (process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL) {
+    return new UpstashRedisResponseCache();
+  }
+
+  return new MemoryResponseCache();
+}
+
+/**
+ * Get the response cache, or null if caching is disabled
+ */
+export function getResponseCache(): IResponseCache | null {
+  if (responseCache === undefined) {
+    responseCache = getResponseCacheFromEnv();
+  }
+  return responseCache;
+}
+
+function getTtlSeconds(): number {
+  const configured = Number(process.env.RESPONSE_CACHE_TTL_SECONDS);
+  return configured > 0 ? configured : RESPONSE_CACHE_TTL_SECONDS;
+}
+
+/**
+ * Fortnox resource of an endpoint (e.g., "/3/invoices/123/bookkeep" -> "invoices")
+ */
+function getResource(endpoint: string): string {
+  const segments = endpoint.split("?")[0].split("/").filter(Boolean);
+  return (segments[0] === "3" ? segments[1] : segments[0]) || "";
+}
+
+function getNamespace(resource: string): string {
+  return `${getCurrentTenantKey()}:${resource}`;
+}
+
+function getKey(endpoint: string, params?: Record<string, string | number | boolean>): string {
+  const sorted = Object.entries(params || {}).sort(([a], [b]) => a.localeCompare(b));
+  return `${endpoint}?${new URLSearchParams(sorted.map(([k, v]): [string, string] => [k, String(v)])).toString()}`;
+}
+
+/**
+ * Get a cached GET response for the current user, or null
+ * Cache failures are logged and treated as a miss
+ */
+export async function getCachedResponse<T>(
+  endpoint: string,
+  params?: Record<string, string | number | boolean>
+): Promise<T | null> {
+  const cache = getResponseCache();
+  if (!cache) return null;
+
+  try {
+    return await cache.get<T>(getNamespace(getResource(endpoint)), getKey(endpoint, params));
+  } catch (error) {
+    console.error("[ResponseCache] Read failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Cache a GET response for the current user
+ */
+export async function cacheResponse(
+  endpoint: string,
+  params: Record<string, string | number | boolean> | undefined,
+  value: unknown
+): Promise<void> {
+  const cache = getResponseCache();
+  if (!cache) return;
+
+  try {
+    await cache.set(getNamespace(getResource(endpoint)), getKey(endpoint, params), value, getTtlSeconds());
+  } catch (error) {
+    console.error("[ResponseCache] Write failed:", error);
+  }
+}
+
+/**
+ * Drop the current user's cached responses for the resource written by a request,
+ * and for the resources it affects
+ */
+export async function invalidateResponses(endpoint: string): Promise<void> {
+  const cache = getResponseCache();
+  if (!cache) return;
+
+  const resource = getResource(endpoint);
+  const resources = [resource, ...(RELATED_RESOURCES[resource] || [])];
+
+  try {
+    await Promise.all(resources.map(r => cache.invalidate(getNamespace(r))));
+  } catch (error) {
+    console.error("[ResponseCache] Invalidation failed:", error);
+  }
+}
@@ -0,0 +1,84 @@
+import { IResponseCache } from "./types.js";
+
+interface MemoryCacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-memory response cache
+ * Evicts the oldest entries when full
+ * Values are cloned on set and get, so callers can't change what is cached
+ * WARNING: Not shared between server instances; cleared on restart
+ */
+export class MemoryResponseCache implements IResponseCache {
+  private namespaces: Map<string, Map<string, MemoryCacheEntry>> = new Map();
+  private size = 0;
+  private maxEntries: number;
+
+  constructor(maxEntries = 2000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | null> {
+    const entries = this.namespaces.get(namespace);
+    const entry = entries?.get(key);
+    if (!entries || !entry) return null;
+
+    if (Date.now() >= entry.expiresAt) {
+      entries.delete(key);
+      this.size--;
+      return null;
+    }
+    return structuredClone(entry.value) as T;
+  }
+
+  async set(namespace: string, key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+
+    if (!entries.delete(key)) this.size++;
+    entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    if (this.size > this.maxEntries) {
+      this.evictOldest();
+    }
+  }
+
+  async invalidate(namespace: string): Promise<void> {
+    const entries = this.namespaces.get(namespace);
+    if (entries) {
+      this.size -= entries.size;
+      this.namespaces.delete(namespace);
+    }
+  }
+
+  /**
+   * Evict the entry that expires first
+   */
+  private evictOldest(): void {
+    let oldest: { entries: Map<string, MemoryCacheEntry>; key: string; expiresAt: number } | null = null;
+    for (const entries of this.namespaces.values()) {
+      for (const [key, entry] of entries) {
+        if (!oldest || entry.expiresAt < oldest.expiresAt) {
+          oldest = { entries, key, expiresAt: entry.expiresAt };
+        }
+      }
+    }
+    if (oldest) {
+      oldest.entries.delete(oldest.key);
+      this.size--;
+    }
+  }
+
+  /**
+   * Clear all cached responses (for testing)
+   */
+  clear(): void {
+    this.namespaces.clear();
+    this.size = 0;
+  }
+}
@@ -0,0 +1,72 @@
+import { IResponseCache } from "./types.js";
+
+/**
+ * Upstash Redis response cache
+ * Shared between all server instances (e.g., on Vercel)
+ *
+ * Each namespace has a version counter that is part of every entry's key;
+ * invalidating a namespace increments it, so old entries are never read again
+ * and expire by their TTL.
+ *
+ * Uses the same Redis as UpstashRedisTokenStorage:
+ * - UPSTASH_REDIS_REST_URL: Upstash Redis REST URL (or KV_REST_API_URL for backwards compat)
+ * - UPSTASH_REDIS_REST_TOKEN: Upstash Redis REST token (or KV_REST_API_TOKEN)
+ */
+export class UpstashRedisResponseCache implements IResponseCache {
+  private prefix: string;
+  private redis: import("@upstash/redis").Redis | null = null;
+
+  constructor(prefix = "fortnox_cache:") {
+    this.prefix = prefix;
+  }
+
+  /**
+   * Lazy load the Redis client to avoid issues when @upstash/redis is not installed
+   */
+  private async getRedis() {
+    if (!this.redis) {
+      try {
+        const { Redis } = await import("@upstash/redis");
+
+        const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+        const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+
+        if (!url || !token) {
+          throw new Error("Missing Redis configuration");
+        }
+
+        this.redis = new Redis({ url, token });
+      } catch (error) {
+        throw new Error(
+          "Upstash Redis not available. Install @upstash/redis and configure UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN."
+        );
+      }
+    }
+    return this.redis;
+  }
+
+  private versionKey(namespace: string): string {
+    return `${this.prefix}version:${namespace}`;
+  }
+
+  private async entryKey(namespace: string, key: string): Promise<string> {
+    const redis = await this.getRedis();
+    const version = (await redis.get<number>(this.versionKey(namespace))) || 0;
+    return `${this.prefix}${namespace}:${version}:${key}`;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | null> {
+    const redis = await this.getRedis();
+    return redis.get<T>(await this.entryKey(namespace, key));
+  }
+
+  async set(namespace: string, key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    const redis = await this.getRedis();
+    await redis.set(await this.entryKey(namespace, key), value, { ex: ttlSeconds });
+  }
+
+  async invalidate(namespace: string): Promise<void> {
+    const redis = await this.getRedis();
+    await redis.incr(this.versionKey(namespace));
+  }
+}
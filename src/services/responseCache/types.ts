@@ -0,0 +1,30 @@
+/**
+ * Interface for response cache backends (memory, Upstash Redis)
+ *
+ * Entries are grouped in namespaces (one per user and Fortnox resource) so that
+ * a write to a resource can drop every cached response for it at once.
+ */
+export interface IResponseCache {
+  /**
+   * Get a cached response
+   * @param namespace - User and resource (e.g., "user123:invoices")
+   * @param key - Endpoint and query parameters
+   * @returns Cached response or null if not cached or expired
+   */
+  get<T>(namespace: string, key: string): Promise<T | null>;
+
+  /**
+   * Cache a response
+   * @param namespace - User and resource
+   * @param key - Endpoint and query parameters
+   * @param value - Response body
+   * @param ttlSeconds - Time to live in seconds
+   */
+  set(namespace: string, key: string, value: unknown, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Drop all cached responses in a namespace
+   * @param namespace - User and resource
+   */
+  invalidate(namespace: string): Promise<void>;
+}
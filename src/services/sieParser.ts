@@ -0,0 +1,388 @@
+/**
+ * SIE File Utilities
+ *
+ * SIE is the Swedish standard file format for exchanging accounting data.
+ * Files are line based: each line starts with a label (#KONTO, #IB, #VER, ...)
+ * followed by space separated fields, where strings may be quoted and object
+ * references are written as {dimension "object" ...}. Transactions (#TRANS)
+ * are grouped inside { } blocks directly after their #VER line.
+ */
+
+/**
+ * Upper half (0x80-0xFF) of the IBM PC8 / codepage 437 character set used by SIE files
+ */
+const CP437_HIGH =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»" +
+  "░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀" +
+  "αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■ ";
+
+/**
+ * Object reference on a transaction or balance, e.g. cost center "1" = "100"
+ */
+export interface SieObjectRef {
+  dimension: string;
+  object: string;
+}
+
+/**
+ * Account from #KONTO (with #KTYP, #SRU when present)
+ */
+export interface SieAccount {
+  number: string;
+  name: string;
+  type?: string;
+  sru?: string;
+}
+
+/**
+ * Financial year from #RAR (index 0 = current year, -1 = previous year)
+ */
+export interface SieFinancialYear {
+  index: number;
+  fromDate: string;
+  toDate: string;
+}
+
+/**
+ * Balance from #IB, #UB or #RES
+ */
+export interface SieBalance {
+  yearIndex: number;
+  account: string;
+  amount: number;
+  quantity?: number;
+}
+
+/**
+ * Period balance from #PSALDO / #PBUDGET
+ */
+export interface SiePeriodBalance {
+  yearIndex: number;
+  period: string;
+  account: string;
+  objects: SieObjectRef[];
+  amount: number;
+}
+
+/**
+ * Transaction row from #TRANS
+ */
+export interface SieTransaction {
+  account: string;
+  objects: SieObjectRef[];
+  amount: number;
+  date?: string;
+  text?: string;
+  quantity?: number;
+}
+
+/**
+ * Voucher from #VER with its transactions
+ */
+export interface SieVoucher {
+  series: string;
+  number: string;
+  date: string;
+  text: string;
+  registrationDate?: string;
+  transactions: SieTransaction[];
+}
+
+/**
+ * Parsed SIE file
+ */
+export interface SieFile {
+  sieType?: number;
+  program?: string;
+  format?: string;
+  generatedDate?: string;
+  companyName?: string;
+  organizationNumber?: string;
+  currency?: string;
+  financialYears: SieFinancialYear[];
+  accounts: SieAccount[];
+  dimensions: Array<{ dimension: string; name: string }>;
+  objects: Array<{ dimension: string; object: string; name: string }>;
+  openingBalances: SieBalance[];
+  closingBalances: SieBalance[];
+  results: SieBalance[];
+  periodBalances: SiePeriodBalance[];
+  vouchers: SieVoucher[];
+  /** Lines that could not be parsed, with line numbers */
+  warnings: string[];
+}
+
+/**
+ * Decode SIE file bytes to a string
+ *
+ * SIE files are encoded in PC8 (codepage 437) unless they declare otherwise.
+ * Files without a #FORMAT PC8 declaration that are valid UTF-8 are decoded as UTF-8.
+ */
+export function decodeSie(buffer: Buffer): string {
+  const header = buffer.subarray(0, 2000).toString("latin1");
+  if (!/^#FORMAT\s+PC8/m.test(header)) {
+    const utf8 = buffer.toString("utf8");
+    if (!utf8.includes("�")) return utf8;
+  }
+
+  let text = "";
+  for (const byte of buffer) {
+    text += byte < 0x80 ? String.fromCharCode(byte) : CP437_HIGH[byte - 0x80];
+  }
+  return text;
+}
+
+/**
+ * Split a SIE line into fields, keeping quoted strings and {object lists} together
+ */
+export function tokenizeSieLine(line: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    const ch = line[i];
+
+    if (ch === " " || ch === "\t") {
+      i++;
+    } else if (ch === "\"") {
+      let value = "";
+      i++;
+      while (i < line.length && line[i] !== "\"") {
+        if (line[i] === "\\" && i + 1 < line.length) i++;
+        value += line[i];
+        i++;
+      }
+      i++;
+      tokens.push(value);
+    } else if (ch === "{") {
+      const end = line.indexOf("}", i);
+      const close = end === -1 ? line.length : end;
+      tokens.push(line.substring(i, close + 1));
+      i = close + 1;
+    } else {
+      let value = "";
+      while (i < line.length && line[i] !== " " && line[i] !== "\t") {
+        value += line[i];
+        i++;
+      }
+      tokens.push(value);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an object list field such as {1 "100" 6 "P1"}
+ */
+export function parseSieObjectList(field: string | undefined): SieObjectRef[] {
+  if (!field || !field.startsWith("{")) return [];
+  const inner = tokenizeSieLine(field.slice(1, field.endsWith("}") ? -1 : undefined));
+  const refs: SieObjectRef[] = [];
+  for (let i = 0; i + 1 < inner.length; i += 2) {
+    refs.push({ dimension: inner[i], object: inner[i + 1] });
+  }
+  return refs;
+}
+
+/**
+ * Convert a SIE date (YYYYMMDD) to YYYY-MM-DD
+ */
+export function sieDateToIso(value: string | undefined): string | undefined {
+  if (!value || !/^\d{8}$/.test(value)) return undefined;
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+/**
+ * Parse an optional numeric field
+ */
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+}
+
+/**
+ * Parse SIE file contents (types 1-4 and 4I)
+ *
+ * Unknown labels are ignored. Malformed lines are skipped and reported in warnings.
+ */
+export function parseSie(content: string): SieFile {
+  const file: SieFile = {
+    financialYears: [],
+    accounts: [],
+    dimensions: [],
+    objects: [],
+    openingBalances: [],
+    closingBalances: [],
+    results: [],
+    periodBalances: [],
+    vouchers: [],
+    warnings: []
+  };
+
+  const accountsByNumber = new Map<string, SieAccount>();
+  const getAccount = (number: string): SieAccount => {
+    let account = accountsByNumber.get(number);
+    if (!account) {
+      account = { number, name: "" };
+      accountsByNumber.set(number, account);
+      file.accounts.push(account);
+    }
+    return account;
+  };
+
+  const lines = content.split(/\r?\n/);
+  let currentVoucher: SieVoucher | null = null;
+  let inVoucherBlock = false;
+
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex].trim();
+    if (!line) continue;
+
+    if (line === "{") {
+      if (currentVoucher) inVoucherBlock = true;
+      continue;
+    }
+    if (line === "}") {
+      inVoucherBlock = false;
+      currentVoucher = null;
+      continue;
+    }
+    if (!line.startsWith("#")) continue;
+
+    const [label, ...fields] = tokenizeSieLine(line);
+    const warn = (reason: string) => file.warnings.push(`Line ${lineIndex + 1}: ${reason} (${label})`);
+
+    switch (label) {
+      case "#SIETYP":
+        file.sieType = parseOptionalNumber(fields[0]);
+        break;
+      case "#PROGRAM":
+        file.program = fields.join(" ");
+        break;
+      case "#FORMAT":
+        file.format = fields[0];
+        break;
+      case "#GEN":
+        file.generatedDate = sieDateToIso(fields[0]);
+        break;
+      case "#FNAMN":
+        file.companyName = fields[0];
+        break;
+      case "#ORGNR":
+        file.organizationNumber = fields[0];
+        break;
+      case "#VALUTA":
+        file.currency = fields[0];
+        break;
+      case "#RAR": {
+        const fromDate = sieDateToIso(fields[1]);
+        const toDate = sieDateToIso(fields[2]);
+        if (fromDate && toDate) {
+          file.financialYears.push({ index: Number(fields[0]), fromDate, toDate });
+        } else {
+          warn("Invalid financial year");
+        }
+        break;
+      }
+      case "#KONTO":
+        if (fields[0]) {
+          getAccount(fields[0]).name = fields[1] ?? "";
+        } else {
+          warn("Missing account number");
+        }
+        break;
+      case "#KTYP":
+        if (fields[0]) getAccount(fields[0]).type = fields[1];
+        break;
+      case "#SRU":
+        if (fields[0]) getAccount(fields[0]).sru = fields[1];
+        break;
+      case "#DIM":
+        file.dimensions.push({ dimension: fields[0], name: fields[1] ?? "" });
+        break;
+      case "#OBJEKT":
+        file.objects.push({ dimension: fields[0], object: fields[1], name: fields[2] ?? "" });
+        break;
+      case "#IB":
+      case "#UB":
+      case "#RES": {
+        const amount = parseOptionalNumber(fields[2]);
+        if (fields[1] === undefined || amount === undefined) {
+          warn("Invalid balance");
+          break;
+        }
+        const balance: SieBalance = {
+          yearIndex: Number(fields[0]),
+          account: fields[1],
+          amount,
+          quantity: parseOptionalNumber(fields[3])
+        };
+        if (label === "#IB") file.openingBalances.push(balance);
+        else if (label === "#UB") file.closingBalances.push(balance);
+        else file.results.push(balance);
+        break;
+      }
+      case "#PSALDO": {
+        const amount = parseOptionalNumber(fields[4]);
+        if (fields[2] === undefined || amount === undefined) {
+          warn("Invalid period balance");
+          break;
+        }
+        file.periodBalances.push({
+          yearIndex: Number(fields[0]),
+          period: fields[1],
+          account: fields[2],
+          objects: parseSieObjectList(fields[3]),
+          amount
+        });
+        break;
+      }
+      case "#VER": {
+        const date = sieDateToIso(fields[2]);
+        if (!date) {
+          warn("Invalid voucher date");
+          currentVoucher = null;
+          break;
+        }
+        currentVoucher = {
+          series: fields[0] ?? "",
+          number: fields[1] ?? "",
+          date,
+          text: fields[3] ?? "",
+          registrationDate: sieDateToIso(fields[4]),
+          transactions: []
+        };
+        file.vouchers.push(currentVoucher);
+        break;
+      }
+      case "#TRANS": {
+        if (!currentVoucher || !inVoucherBlock) {
+          warn("Transaction outside voucher");
+          break;
+        }
+        const amount = parseOptionalNumber(fields[2]);
+        if (!fields[0] || amount === undefined) {
+          warn("Invalid transaction");
+          break;
+        }
+        currentVoucher.transactions.push({
+          account: fields[0],
+          objects: parseSieObjectList(fields[1]),
+          amount,
+          date: sieDateToIso(fields[3]),
+          text: fields[4] || undefined,
+          quantity: parseOptionalNumber(fields[5])
+        });
+        break;
+      }
+      // #RTRANS is always followed by an identical #TRANS for older readers,
+      // and #BTRANS rows have been removed from the voucher - skip both
+      default:
+        break;
+    }
+  }
+
+  return file;
+}
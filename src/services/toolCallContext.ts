@@ -0,0 +1,61 @@
+/**
+ * Tool Call Context
+ *
+ * Tracks state for the tool call currently being handled: how many Fortnox
+ * requests had to be retried (reported in the tool's structured output),
+ * whether the caller asked to bypass the response cache, and, in dry-run mode,
+ * the write requests that were held back. Uses AsyncLocalStorage, like the auth
+ * request context. The context is set up by instrumentToolCalls.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * A write request held back in dry-run mode
+ */
+export interface DryRunRequest {
+  method: "POST" | "PUT" | "DELETE";
+  endpoint: string;
+  payload: unknown;
+  params?: Record<string, string | number | boolean>;
+  /** Endpoint of the record the request changes, if not the request endpoint itself */
+  readEndpoint?: string;
+}
+
+export interface ToolCallState {
+  /** Name of the tool being called */
+  toolName: string;
+  /** Number of Fortnox requests retried during the call */
+  retries: number;
+  /** Bypass the response cache and fetch fresh data from Fortnox */
+  forceRefresh: boolean;
+  /** Hold back write requests and return a preview instead */
+  dryRun: boolean;
+  /** Write requests held back in dry-run mode */
+  dryRunRequests: DryRunRequest[];
+}
+
+export const toolCallContext = new AsyncLocalStorage<ToolCallState>();
+
+export function getToolCallState(): ToolCallState | undefined {
+  return toolCallContext.getStore();
+}
+
+/**
+ * Record a retried Fortnox request for the current tool call
+ */
+export function recordRetry(): void {
+  const state = toolCallContext.getStore();
+  if (state) state.retries++;
+}
+
+/**
+ * Thrown instead of sending a write request in dry-run mode, so the tool stops
+ * before acting; instrumentToolCalls replaces its result with a preview
+ */
+export class DryRunInterrupt extends Error {
+  constructor(public request: DryRunRequest) {
+    super(`Dry run: ${request.method} ${request.endpoint} was not sent`);
+    this.name = "DryRunInterrupt";
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Tool Instrumentation
+ *
+ * Wraps every tool registered on the server so each call runs in its own tool
+ * call context (see toolCallContext.ts), and adds the common parameters:
+ * - force_refresh (read-only tools): bypass the response cache
+ * - dry_run (mutating tools): hold back write requests and return a preview
+ * - confirmation_token (destructive tools): see confirmation.ts; without a
+ *   token the call runs as a dry run and returns a preview and a token
+ * - company_id (all tools, remote mode): run the call against a linked Fortnox company
+ * The common parameters are removed from the arguments before the handler runs.
+ *
+ * In remote mode, tools the MCP client's scopes don't allow (see auth/scopes.ts)
+ * are left out of tools/list and calling them returns an insufficient_scope error.
+ * Every call is then checked against the tool policy (see toolPolicy.ts).
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ListToolsRequestSchema, type ListToolsResult } from "@modelcontextprotocol/sdk/types.js";
+import { toolCallContext, type ToolCallState } from "./toolCallContext.js";
+import { buildDryRunResponse } from "./dryRun.js";
+import { buildConfirmationResponse, requiresConfirmation, verifyConfirmationToken } from "./confirmation.js";
+import { enforceToolPolicy } from "./toolPolicy.js";
+import { buildErrorResponse } from "./formatters.js";
+import { InsufficientScopeError } from "./errors.js";
+import { getRequestContext, runWithContext } from "../auth/context.js";
+import { getRequiredScope, hasScope } from "../auth/scopes.js";
+
+const ForceRefreshSchema = z.boolean()
+  .default(false)
+  .describe("Bypass cached Fortnox responses and fetch fresh data");
+
+const DryRunSchema = z.boolean()
+  .default(false)
+  .describe("Validate and preview without sending anything to Fortnox: returns the exact payload and the records it refers to");
+
+const ConfirmationTokenSchema = z.string()
+  .optional()
+  .describe("Token returned by the first call of this tool; pass it back with the same arguments to execute the action");
+
+const CompanyIdSchema = z.string()
+  .optional()
+  .describe("Fortnox company (database number) to run this call against, from fortnox_list_companies. Defaults to the active company.");
+
+/**
+ * Options for instrumentToolCalls
+ */
+export interface ToolInstrumentationOptions {
+  /**
+   * Resolve the Fortnox company for a tool call from its company_id argument
+   * (undefined for the default); enables the company_id parameter
+   * Returns the linked company to use, or undefined for the user's own company
+   */
+  resolveCompany?: (requestedCompanyId?: string) => Promise<string | undefined>;
+}
+
+type ToolConfig = { inputSchema?: unknown; annotations?: { readOnlyHint?: boolean; destructiveHint?: boolean } };
+type ToolHandler = (...args: unknown[]) => unknown;
+
+/**
+ * Add fields to a tool input schema (a strict object, optionally refined)
+ * Fields the schema already defines are left as they are
+ */
+function extendInputSchema(schema: unknown, shape: z.ZodRawShape): unknown {
+  const extend = (object: z.AnyZodObject) => object.extend(
+    Object.fromEntries(Object.entries(shape).filter(([key]) => !(key in object.shape)))
+  );
+
+  if (schema instanceof z.ZodObject) {
+    return extend(schema);
+  }
+  if (schema instanceof z.ZodEffects && schema.innerType() instanceof z.ZodObject) {
+    return new z.ZodEffects({ ...schema._def, schema: extend(schema.innerType() as z.AnyZodObject) });
+  }
+  return schema;
+}
+
+/**
+ * Check whether a tool input schema defines a field
+ */
+function hasInputField(schema: unknown, field: string): boolean {
+  const object = schema instanceof z.ZodEffects ? schema.innerType() : schema;
+  return object instanceof z.ZodObject && field in object.shape;
+}
+
+/**
+ * Leave tools the current request's scopes don't allow out of tools/list
+ */
+function filterListedToolsByScope(server: McpServer): void {
+  type RequestHandler = (...args: unknown[]) => unknown;
+  const setRequestHandler = server.server.setRequestHandler.bind(server.server) as (schema: unknown, handler: RequestHandler) => void;
+
+  server.server.setRequestHandler = ((schema: unknown, handler: RequestHandler) => {
+    if (schema !== ListToolsRequestSchema) {
+      return setRequestHandler(schema, handler);
+    }
+    return setRequestHandler(schema, async (...args: unknown[]) => {
+      const result = (await handler(...args)) as ListToolsResult;
+      return { ...result, tools: result.tools.filter(tool => hasScope(getRequiredScope(tool.name, tool.annotations))) };
+    });
+  }) as typeof server.server.setRequestHandler;
+}
+
+/**
+ * Run every tool handler registered on the server in its own tool call context
+ * Must be called before the tools are registered
+ */
+export function instrumentToolCalls(server: McpServer, options: ToolInstrumentationOptions = {}): void {
+  filterListedToolsByScope(server);
+
+  const registerTool = server.registerTool.bind(server) as (name: string, config: ToolConfig, handler: ToolHandler) => unknown;
+
+  server.registerTool = ((name: string, config: ToolConfig, handler: ToolHandler) => {
+    const readOnly = config.annotations?.readOnlyHint === true;
+    const requiredScope = getRequiredScope(name, config.annotations);
+    // Tools with their own dry_run parameter (e.g., fortnox_import_sie) handle it themselves
+    const addDryRun = !readOnly && !hasInputField(config.inputSchema, "dry_run");
+    // Tools whose calls can need confirmation get confirmation_token; requiresConfirmation decides per call
+    const confirm = !readOnly && requiresConfirmation(name, config.annotations);
+    // Tools with their own company_id parameter (e.g., fortnox_set_active_company) handle it themselves
+    const addCompanyId = options.resolveCompany !== undefined && !hasInputField(config.inputSchema, "company_id");
+    const toolConfig = config.inputSchema
+      ? {
+          ...config,
+          inputSchema: extendInputSchema(
+            config.inputSchema,
+            {
+              ...(readOnly ? { force_refresh: ForceRefreshSchema } : {}),
+              ...(addDryRun ? { dry_run: DryRunSchema } : {}),
+              ...(confirm ? { confirmation_token: ConfirmationTokenSchema } : {}),
+              ...(addCompanyId ? { company_id: CompanyIdSchema } : {})
+            }
+          )
+        }
+      : config;
+
+    return registerTool(name, toolConfig, async (...args: unknown[]) => {
+      if (!hasScope(requiredScope)) {
+        return buildErrorResponse(new InsufficientScopeError(name, requiredScope));
+      }
+
+      const state: ToolCallState = { toolName: name, retries: 0, forceRefresh: false, dryRun: false, dryRunRequests: [] };
+
+      let params = args[0];
+      let confirmationToken: string | undefined;
+      let requestedCompanyId: string | undefined;
+      if (params && typeof params === "object") {
+        if (readOnly) {
+          const { force_refresh, ...rest } = params as Record<string, unknown>;
+          state.forceRefresh = force_refresh === true;
+          params = rest;
+        } else if (addDryRun) {
+          const { dry_run, ...rest } = params as Record<string, unknown>;
+          state.dryRun = dry_run === true;
+          params = rest;
+        }
+        if (confirm) {
+          const { confirmation_token, ...rest } = params as Record<string, unknown>;
+          confirmationToken = confirmation_token as string | undefined;
+          params = rest;
+        }
+        if (addCompanyId) {
+          const { company_id, ...rest } = params as Record<string, unknown>;
+          requestedCompanyId = company_id as string | undefined;
+          params = rest;
+        }
+      }
+
+      const run = () => toolCallContext.run(state, async () => {
+        const responseFormat = (params as Record<string, unknown> | undefined)?.response_format;
+        try {
+          enforceToolPolicy(name, params);
+        } catch (error) {
+          return buildErrorResponse(error);
+        }
+
+        // Destructive tools: the first call previews the action, the second (with the token) executes it
+        const confirmCall = confirm && !state.dryRun && requiresConfirmation(name, config.annotations, params);
+        const awaitingConfirmation = confirmCall && confirmationToken === undefined;
+        if (confirmCall && confirmationToken !== undefined) {
+          try {
+            await verifyConfirmationToken(confirmationToken, name, params);
+          } catch (error) {
+            return buildErrorResponse(error);
+          }
+        }
+        if (awaitingConfirmation) state.dryRun = true;
+
+        const result = await handler(params, ...args.slice(1));
+        if (state.dryRun && state.dryRunRequests.length > 0) {
+          return awaitingConfirmation
+            ? buildConfirmationResponse(name, params, state.dryRunRequests, responseFormat)
+            : buildDryRunResponse(name, state.dryRunRequests, responseFormat);
+        }
+        return result;
+      });
+
+      if (!addCompanyId || !options.resolveCompany) {
+        return run();
+      }
+
+      // Run the call against the requested (or the user's default) Fortnox company
+      let companyId: string | undefined;
+      try {
+        companyId = await options.resolveCompany(requestedCompanyId);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+      return runWithContext({ ...getRequestContext(), companyId }, run);
+    });
+  }) as typeof server.registerTool;
+}
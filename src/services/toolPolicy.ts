@@ -0,0 +1,212 @@
+/**
+ * Tool Policy
+ *
+ * Allows or denies tool calls per tool, user and MCP client, optionally
+ * depending on the call's arguments (e.g., payments above an amount). The
+ * policy is checked before each tool handler runs; denied calls return a
+ * policy_denied error and send nothing to Fortnox.
+ *
+ * Rules are checked in order and the first matching rule decides. Calls no
+ * rule matches get the policy's default effect (allow unless configured).
+ *
+ * Configuration:
+ * - TOOL_POLICY: Policy as JSON
+ * - TOOL_POLICY_FILE: JSON file with the policy (used if TOOL_POLICY is not set)
+ * Without either, every tool call is allowed.
+ *
+ * Example:
+ * {
+ *   "rules": [
+ *     { "name": "no-account-deletions", "effect": "deny", "tools": ["fortnox_delete_account"] },
+ *     { "effect": "deny", "users": ["fortnox:1234567:42"], "tools": ["fortnox_bookkeep_invoice", "fortnox_credit_invoice"],
+ *       "reason": "Junior staff may not bookkeep or credit invoices" },
+ *     { "effect": "deny", "tools": ["fortnox_create_invoice_payment"], "arguments": [{ "argument": "amount", "gt": 50000 }] }
+ *   ]
+ * }
+ */
+
+import * as fs from "fs";
+import { z } from "zod";
+import { getCurrentUserId, getRequestContext } from "../auth/context.js";
+import { PolicyDeniedError } from "./errors.js";
+
+const ScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * Condition on a tool argument. The path uses dots for nested fields and
+ * matches any element of arrays on the way (e.g., "rows.price" matches if any
+ * row's price satisfies it). All given operators must hold.
+ *
+ * Comparisons (gt, gte, lt, lte) on an argument the call leaves out match in
+ * deny rules and not in allow rules: the tool then uses a value the policy
+ * cannot see (e.g., the invoice's remaining balance as the payment amount).
+ */
+const ArgumentPredicateSchema = z.object({
+  argument: z.string().min(1),
+  equals: ScalarSchema.optional(),
+  in: z.array(ScalarSchema).optional(),
+  gt: z.number().optional(),
+  gte: z.number().optional(),
+  lt: z.number().optional(),
+  lte: z.number().optional(),
+  exists: z.boolean().optional()
+}).strict();
+
+/**
+ * Policy rule. Tool, user and client patterns may use * as a wildcard;
+ * omitted conditions match every call.
+ */
+const PolicyRuleSchema = z.object({
+  name: z.string().optional(),
+  effect: z.enum(["allow", "deny"]),
+  tools: z.array(z.string()).optional(),
+  users: z.array(z.string()).optional(),
+  clients: z.array(z.string()).optional(),
+  arguments: z.array(ArgumentPredicateSchema).optional(),
+  reason: z.string().optional()
+}).strict();
+
+const ToolPolicySchema = z.object({
+  default: z.enum(["allow", "deny"]).default("allow"),
+  rules: z.array(PolicyRuleSchema).default([])
+}).strict();
+
+export type ArgumentPredicate = z.infer<typeof ArgumentPredicateSchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type ToolPolicy = z.infer<typeof ToolPolicySchema>;
+
+/**
+ * Outcome of checking a tool call against the policy
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  /** Rule that decided, or null for the default effect */
+  rule: PolicyRule | null;
+}
+
+let policy: ToolPolicy | null | undefined;
+
+/**
+ * Parse and validate a policy
+ */
+export function parseToolPolicy(json: string, source: string): ToolPolicy {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid tool policy in ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = ToolPolicySchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${i.path.join(".") || "policy"}: ${i.message}`).join("; ");
+    throw new Error(`Invalid tool policy in ${source}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Get the configured policy (null if none is configured)
+ * Throws if the configured policy cannot be read or is invalid, so tool calls fail closed
+ */
+export function getToolPolicy(): ToolPolicy | null {
+  if (policy === undefined) {
+    if (process.env.TOOL_POLICY) {
+      policy = parseToolPolicy(process.env.TOOL_POLICY, "TOOL_POLICY");
+    } else if (process.env.TOOL_POLICY_FILE) {
+      policy = parseToolPolicy(fs.readFileSync(process.env.TOOL_POLICY_FILE, "utf8"), process.env.TOOL_POLICY_FILE);
+    } else {
+      policy = null;
+    }
+  }
+  return policy;
+}
+
+/**
+ * Match a value against patterns where * matches any characters
+ */
+function matchesPattern(value: string | undefined, patterns: string[]): boolean {
+  if (value === undefined) return false;
+  return patterns.some(pattern => {
+    const regex = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    return new RegExp(`^${regex}$`).test(value);
+  });
+}
+
+/**
+ * Collect the values at a dotted path, descending into arrays
+ */
+function getArgumentValues(value: unknown, path: string[]): unknown[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => getArgumentValues(item, path));
+  }
+  if (path.length === 0) {
+    return value === undefined ? [] : [value];
+  }
+  if (!value || typeof value !== "object") {
+    return [];
+  }
+  return getArgumentValues((value as Record<string, unknown>)[path[0]], path.slice(1));
+}
+
+function matchesValue(value: unknown, predicate: ArgumentPredicate): boolean {
+  if (predicate.equals !== undefined && value !== predicate.equals) return false;
+  if (predicate.in !== undefined && !predicate.in.includes(value as string | number | boolean)) return false;
+
+  const comparisons = [predicate.gt, predicate.gte, predicate.lt, predicate.lte];
+  if (comparisons.some(bound => bound !== undefined)) {
+    if (typeof value !== "number") return false;
+    if (predicate.gt !== undefined && !(value > predicate.gt)) return false;
+    if (predicate.gte !== undefined && !(value >= predicate.gte)) return false;
+    if (predicate.lt !== undefined && !(value < predicate.lt)) return false;
+    if (predicate.lte !== undefined && !(value <= predicate.lte)) return false;
+  }
+  return true;
+}
+
+function matchesArgument(params: unknown, predicate: ArgumentPredicate, effect: PolicyRule["effect"]): boolean {
+  const values = getArgumentValues(params, predicate.argument.split("."));
+
+  if (predicate.exists !== undefined && (values.length > 0) !== predicate.exists) return false;
+
+  // Fail closed on comparisons the call's arguments cannot decide
+  const compares = [predicate.gt, predicate.gte, predicate.lt, predicate.lte].some(bound => bound !== undefined);
+  if (compares && values.length === 0) return effect === "deny";
+
+  const hasOperators = [predicate.equals, predicate.in, predicate.gt, predicate.gte, predicate.lt, predicate.lte]
+    .some(operator => operator !== undefined);
+  return !hasOperators || values.some(value => matchesValue(value, predicate));
+}
+
+function matchesRule(rule: PolicyRule, toolName: string, params: unknown): boolean {
+  if (rule.tools && !matchesPattern(toolName, rule.tools)) return false;
+  if (rule.users && !matchesPattern(getCurrentUserId() || "local", rule.users)) return false;
+  if (rule.clients && !matchesPattern(getRequestContext()?.clientId, rule.clients)) return false;
+  return (rule.arguments || []).every(predicate => matchesArgument(params, predicate, rule.effect));
+}
+
+/**
+ * Check a tool call by the current user and client against the policy
+ */
+export function evaluateToolPolicy(toolName: string, params: unknown): PolicyDecision {
+  const toolPolicy = getToolPolicy();
+  if (!toolPolicy) {
+    return { allowed: true, rule: null };
+  }
+
+  const rule = toolPolicy.rules.find(r => matchesRule(r, toolName, params));
+  return {
+    allowed: (rule?.effect ?? toolPolicy.default) === "allow",
+    rule: rule ?? null
+  };
+}
+
+/**
+ * Throw PolicyDeniedError if the policy denies a tool call
+ */
+export function enforceToolPolicy(toolName: string, params: unknown): void {
+  const decision = evaluateToolPolicy(toolName, params);
+  if (!decision.allowed) {
+    throw new PolicyDeniedError(toolName, decision.rule?.name, decision.rule?.reason);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Voucher Scanning Utilities
+ *
+ * The Fortnox voucher list endpoint does not return voucher rows and cannot
+ * filter by account, so account-based reports list the vouchers for a period
+ * and then fetch each voucher's details to inspect its rows.
+ */
+
+import {
+  fortnoxRequest,
+  fetchAllPages,
+  fetchDetailsInBatches,
+  type FetchAllResult,
+  type FortnoxRequestOptions
+} from "./api.js";
+import { decodePageCursor } from "./pageCursor.js";
+
+/**
+ * A single voucher row as returned by the voucher detail endpoint
+ */
+export interface ScannedVoucherRow {
+  Account: number;
+  Debit?: number;
+  Credit?: number;
+  Description?: string;
+  CostCenter?: string;
+  Project?: string;
+  /** Row struck out by a correction - not part of the booked amounts */
+  Removed?: boolean;
+}
+
+/**
+ * A voucher with its rows as returned by the voucher detail endpoint
+ */
+export interface ScannedVoucher {
+  VoucherSeries: string;
+  VoucherNumber: number;
+  Year: number;
+  Description: string;
+  TransactionDate: string;
+  VoucherRows?: ScannedVoucherRow[];
+}
+
+/**
+ * A voucher as returned by the voucher list endpoint (no rows)
+ */
+export interface VoucherListItem {
+  VoucherSeries: string;
+  VoucherNumber: number;
+  Description: string;
+  TransactionDate: string;
+  Year?: number;
+  "@url"?: string;
+}
+
+interface VoucherListResponse {
+  Vouchers: VoucherListItem[];
+  MetaInformation?: {
+    "@TotalResources": number;
+    "@TotalPages": number;
+    "@CurrentPage": number;
+  };
+}
+
+interface VoucherResponse {
+  Voucher: ScannedVoucher;
+}
+
+/**
+ * A financial year as returned by the financial years endpoint
+ */
+export interface FinancialYear {
+  Id: number;
+  FromDate: string;
+  ToDate: string;
+}
+
+interface FinancialYearsResponse {
+  FinancialYears: FinancialYear[];
+}
+
+/**
+ * Filter options for listing vouchers
+ */
+export interface VoucherListFilter {
+  financialYear?: number;
+  fromDate?: string;
+  toDate?: string;
+  voucherSeries?: string;
+  /** Only vouchers modified since this Fortnox timestamp (YYYY-MM-DD HH:MM) */
+  lastModified?: string;
+  maxVouchers: number;
+  /** Cursor from a previous truncated scan; continues the voucher list where it stopped */
+  cursor?: string;
+}
+
+/**
+ * Result of scanning vouchers with details
+ */
+export interface VoucherScanResult {
+  vouchers: ScannedVoucher[];
+  vouchersScanned: number;
+  totalVouchers: number;
+  truncated: boolean;
+  truncationReason?: string;
+  /** Cursor to continue the scan, if truncated */
+  nextCursor?: string;
+}
+
+/**
+ * List vouchers (without rows) matching the given filter
+ */
+export async function fetchVoucherList(
+  filter: VoucherListFilter
+): Promise<FetchAllResult<VoucherListItem>> {
+  const queryParams: Record<string, string | number | boolean | undefined> = {
+    financialyear: filter.financialYear
+  };
+  if (filter.fromDate) queryParams.fromdate = filter.fromDate;
+  if (filter.toDate) queryParams.todate = filter.toDate;
+  if (filter.lastModified) queryParams.lastmodified = filter.lastModified;
+
+  const endpoint = filter.voucherSeries
+    ? `/3/vouchers/sublist/${encodeURIComponent(filter.voucherSeries)}`
+    : "/3/vouchers";
+
+  return fetchAllPages<VoucherListItem, VoucherListResponse>(
+    endpoint,
+    queryParams,
+    (r) => r.Vouchers || [],
+    (r) => r.MetaInformation?.["@TotalResources"] || 0,
+    { maxResults: filter.maxVouchers, maxPages: Math.ceil(filter.maxVouchers / 100), cursor: filter.cursor }
+  );
+}
+
+/**
+ * Fetch full voucher details (including rows) for a list of vouchers.
+ * Vouchers whose details cannot be fetched are skipped.
+ */
+export async function fetchVoucherDetails(
+  voucherList: VoucherListItem[],
+  financialYear?: number,
+  requestOptions?: FortnoxRequestOptions
+): Promise<ScannedVoucher[]> {
+  return fetchDetailsInBatches(voucherList, async (v) => {
+    const detail = await fortnoxRequest<VoucherResponse>(
+      `/3/vouchers/${encodeURIComponent(v.VoucherSeries)}/${v.VoucherNumber}`,
+      "GET",
+      undefined,
+      { financialyear: financialYear },
+      requestOptions
+    );
+    return detail.Voucher;
+  });
+}
+
+/**
+ * List vouchers matching the filter and fetch their details
+ * When resuming from a cursor, the financial year encoded in the cursor is used
+ * Vouchers whose details could not be fetched mark the result as truncated
+ */
+export async function scanVouchers(filter: VoucherListFilter): Promise<VoucherScanResult> {
+  const list = await fetchVoucherList(filter);
+  const financialYear = filter.cursor
+    ? Number(decodePageCursor(filter.cursor).params.financialyear) || filter.financialYear
+    : filter.financialYear;
+  const vouchers = await fetchVoucherDetails(list.items, financialYear);
+  const failed = list.items.length - vouchers.length;
+
+  return {
+    vouchers,
+    vouchersScanned: list.items.length,
+    totalVouchers: list.total,
+    truncated: list.truncated || failed > 0,
+    truncationReason: failed > 0
+      ? [`${failed} vouchers could not be fetched`, list.truncationReason].filter(Boolean).join("; ")
+      : list.truncationReason,
+    nextCursor: list.nextCursor
+  };
+}
+
+/**
+ * Fetch all financial years, earliest first
+ */
+export async function fetchFinancialYears(): Promise<FinancialYear[]> {
+  const response = await fortnoxRequest<FinancialYearsResponse>("/3/financialyears");
+  return [...(response.FinancialYears || [])]
+    .sort((a, b) => a.FromDate.localeCompare(b.FromDate));
+}
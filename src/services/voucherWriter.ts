@@ -0,0 +1,105 @@
+/**
+ * Voucher Creation Utilities
+ *
+ * Shared request path for creating vouchers, used by fortnox_create_voucher and
+ * by imports that create vouchers in bulk, so both apply the same balance check
+ * and row mapping.
+ */
+
+import { fortnoxRequest } from "./api.js";
+import { ValidationError } from "./errors.js";
+import { invalidateLedger } from "./ledgerCache/index.js";
+import type { CreateVoucherInput, VoucherRowInput } from "../schemas/vouchers.js";
+
+/**
+ * Voucher to create (CreateVoucherInput without output options)
+ */
+export type VoucherDraft = Omit<CreateVoucherInput, "response_format">;
+
+/**
+ * Voucher as returned by Fortnox after creation
+ */
+export interface CreatedVoucher {
+  VoucherSeries: string;
+  VoucherNumber: number;
+  Year: number;
+  Description: string;
+  TransactionDate: string;
+}
+
+interface VoucherResponse {
+  Voucher: CreatedVoucher;
+}
+
+/**
+ * Sum debit and credit of voucher rows
+ */
+export function sumVoucherRows(rows: VoucherRowInput[]): { totalDebit: number; totalCredit: number } {
+  let totalDebit = 0;
+  let totalCredit = 0;
+  for (const row of rows) {
+    totalDebit += row.debit || 0;
+    totalCredit += row.credit || 0;
+  }
+  return {
+    totalDebit: Math.round(totalDebit * 100) / 100,
+    totalCredit: Math.round(totalCredit * 100) / 100
+  };
+}
+
+/**
+ * Return an error message if debits don't equal credits, otherwise null
+ */
+export function getVoucherBalanceError(rows: VoucherRowInput[]): string | null {
+  const { totalDebit, totalCredit } = sumVoucherRows(rows);
+  if (Math.abs(totalDebit - totalCredit) > 0.01) {
+    return `Voucher is not balanced. Total debit (${totalDebit}) must equal total credit (${totalCredit}).`;
+  }
+  return null;
+}
+
+/**
+ * Build the Fortnox request body for a voucher
+ */
+export function buildVoucherPayload(draft: VoucherDraft): Record<string, unknown> {
+  return {
+    VoucherSeries: draft.voucher_series,
+    Description: draft.description,
+    TransactionDate: draft.transaction_date,
+    VoucherRows: draft.rows.map((row) => {
+      const voucherRow: Record<string, unknown> = {
+        Account: row.account_number
+      };
+      if (row.debit !== undefined && row.debit > 0) voucherRow.Debit = row.debit;
+      if (row.credit !== undefined && row.credit > 0) voucherRow.Credit = row.credit;
+      if (row.description) voucherRow.Description = row.description;
+      if (row.cost_center || draft.cost_center) {
+        voucherRow.CostCenter = row.cost_center || draft.cost_center;
+      }
+      if (row.project || draft.project) {
+        voucherRow.Project = row.project || draft.project;
+      }
+      return voucherRow;
+    })
+  };
+}
+
+/**
+ * Validate and create a voucher in Fortnox
+ * Throws if the voucher is not balanced
+ * The cached ledger of the voucher's financial year is refreshed on its next query
+ */
+export async function createVoucher(draft: VoucherDraft): Promise<CreatedVoucher> {
+  const balanceError = getVoucherBalanceError(draft.rows);
+  if (balanceError) {
+    throw new ValidationError(balanceError);
+  }
+
+  const response = await fortnoxRequest<VoucherResponse>(
+    "/3/vouchers",
+    "POST",
+    { Voucher: buildVoucherPayload(draft) }
+  );
+  await invalidateLedger(response.Voucher.Year);
+  return response.Voucher;
+}
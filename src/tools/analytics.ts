@@ -131,6 +131,7 @@ Args:
   - customer_number (string): Filter by specific customer
   - group_by ('customer' | 'month' | 'status'): Group statistics by dimension
   - include_details (boolean): Include individual invoice list (default: false)
+  - cursor (string): Continue a truncated summary from its next_cursor (summarizes only the next invoices)
   - response_format ('markdown' | 'json'): Output format
 
 Returns:
@@ -143,7 +144,7 @@ Examples:
   - Unpaid invoice totals: filter="unpaid"
 
 Error Handling:
-  - Returns truncation warning if >10,000 invoices
+  - Returns truncation warning and next_cursor if >10,000 invoices
   - Returns "Error: ..." if API call fails`,
       inputSchema: InvoiceSummarySchema,
       annotations: {
@@ -179,7 +180,8 @@ Error Handling:
           "/3/invoices",
           queryParams,
           (r) => r.Invoices || [],
-          (r) => r.MetaInformation?.["@TotalResources"] || 0
+          (r) => r.MetaInformation?.["@TotalResources"] || 0,
+          { cursor: params.cursor }
         );
 
         const invoices = result.items;
@@ -226,6 +228,7 @@ Error Handling:
           fetched: invoices.length,
           truncated: result.truncated,
           truncation_reason: result.truncationReason,
+          next_cursor: result.nextCursor,
           summary: overallStats
         };
 
@@ -262,6 +265,9 @@ Error Handling:
 
           if (result.truncated) {
             lines.push(`⚠️ **Note**: ${result.truncationReason}`);
+            if (result.nextCursor) {
+              lines.push(`**Next cursor** (pass as \`cursor\` to summarize the remaining invoices): \`${result.nextCursor}\``);
+            }
             lines.push("");
           }
 
@@ -0,0 +1,735 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fortnoxRequest, fetchAllPages } from "../services/api.js";
+import { ResponseFormat } from "../constants.js";
+import {
+  buildToolResponse,
+  buildErrorResponse,
+  formatMoney,
+  formatListMarkdown,
+  formatDetailMarkdown,
+  buildPaginationMeta
+} from "../services/formatters.js";
+import {
+  ListArticlesSchema,
+  GetArticleSchema,
+  CreateArticleSchema,
+  UpdateArticleSchema,
+  ListUnitsSchema,
+  ListPriceListsSchema,
+  GetArticlePriceSchema,
+  type ListArticlesInput,
+  type GetArticleInput,
+  type CreateArticleInput,
+  type UpdateArticleInput,
+  type ListUnitsInput,
+  type ListPriceListsInput,
+  type GetArticlePriceInput
+} from "../schemas/articles.js";
+
+// API response types
+interface FortnoxArticle {
+  ArticleNumber: string;
+  Description?: string;
+  Type?: string;
+  Unit?: string;
+  SalesPrice?: number;
+  PurchasePrice?: number;
+  VAT?: number;
+  StockGoods?: boolean;
+  QuantityInStock?: number;
+  ReservedQuantity?: number;
+  DisposableQuantity?: number;
+  StockPlace?: string;
+  StockValue?: number;
+  EAN?: string;
+  SalesAccount?: number;
+  PurchaseAccount?: number;
+  SupplierNumber?: string;
+  SupplierName?: string;
+  Active?: boolean;
+  Note?: string;
+  "@url"?: string;
+}
+
+interface FortnoxArticleListItem {
+  ArticleNumber: string;
+  Description?: string;
+  Unit?: string;
+  SalesPrice?: number;
+  PurchasePrice?: number;
+  VAT?: number;
+  QuantityInStock?: number;
+  ReservedQuantity?: number;
+  DisposableQuantity?: number;
+  StockPlace?: string;
+  StockValue?: number;
+  EAN?: string;
+  "@url"?: string;
+}
+
+interface ArticleListResponse {
+  Articles: FortnoxArticleListItem[];
+  MetaInformation?: {
+    "@TotalResources": number;
+    "@TotalPages": number;
+    "@CurrentPage": number;
+  };
+}
+
+interface ArticleResponse {
+  Article: FortnoxArticle;
+}
+
+interface FortnoxUnit {
+  Code: string;
+  Description?: string;
+  CodeEnglish?: string;
+}
+
+interface UnitListResponse {
+  Units: FortnoxUnit[];
+}
+
+interface FortnoxPriceList {
+  Code: string;
+  Description?: string;
+  Comments?: string;
+  PreSelected?: boolean;
+}
+
+interface PriceListListResponse {
+  PriceLists: FortnoxPriceList[];
+}
+
+interface FortnoxPrice {
+  ArticleNumber: string;
+  PriceList: string;
+  FromQuantity?: number;
+  Price?: number;
+}
+
+interface PriceSublistResponse {
+  Prices: FortnoxPrice[];
+}
+
+/**
+ * Build the Fortnox article payload from create/update params
+ */
+function buildArticleData(params: CreateArticleInput | UpdateArticleInput): Record<string, unknown> {
+  const articleData: Record<string, unknown> = {};
+
+  if (params.description) articleData.Description = params.description;
+  if (params.type) articleData.Type = params.type;
+  if (params.unit) articleData.Unit = params.unit;
+  if (params.sales_price !== undefined) articleData.SalesPrice = params.sales_price;
+  if (params.purchase_price !== undefined) articleData.PurchasePrice = params.purchase_price;
+  if (params.vat !== undefined) articleData.VAT = params.vat;
+  if (params.stock_goods !== undefined) articleData.StockGoods = params.stock_goods;
+  if (params.quantity_in_stock !== undefined) articleData.QuantityInStock = params.quantity_in_stock;
+  if (params.stock_place) articleData.StockPlace = params.stock_place;
+  if (params.ean) articleData.EAN = params.ean;
+  if (params.sales_account) articleData.SalesAccount = params.sales_account;
+  if (params.purchase_account) articleData.PurchaseAccount = params.purchase_account;
+  if (params.supplier_number) articleData.SupplierNumber = params.supplier_number;
+  if (params.note) articleData.Note = params.note;
+
+  return articleData;
+}
+
+/**
+ * Register all article, unit and price list tools
+ */
+export function registerArticleTools(server: McpServer): void {
+  // List articles
+  server.registerTool(
+    "fortnox_list_articles",
+    {
+      title: "List Fortnox Articles",
+      description: `List articles (products and services) from the Fortnox article register.
+
+Args:
+  - limit (number): Max results per page, 1-100 (default: 20)
+  - page (number): Page number for pagination (default: 1)
+  - filter ('active' | 'inactive'): Filter by article status
+  - search_description (string): Search by description (partial match)
+  - article_number (string): Filter by article number
+  - supplier_number (string): Filter by supplier number
+  - sort_by ('articlenumber' | 'quantityinstock' | 'reservedquantity' | 'stockvalue'): Sort field
+  - fetch_all (boolean): Fetch all results by auto-paginating (max 10,000 results)
+  - cursor (string): Continue a truncated fetch_all from its next_cursor
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  List of articles with article number, description, unit, sales/purchase price, VAT and stock.
+
+Examples:
+  - Find consulting articles: search_description="konsult"
+  - Lowest stock first: sort_by="quantityinstock"`,
+      inputSchema: ListArticlesSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ListArticlesInput) => {
+      try {
+        const queryParams: Record<string, string | number | boolean | undefined> = {};
+
+        if (params.filter) queryParams.filter = params.filter;
+        if (params.search_description) queryParams.description = params.search_description;
+        if (params.article_number) queryParams.articlenumber = params.article_number;
+        if (params.supplier_number) queryParams.suppliernumber = params.supplier_number;
+        if (params.sort_by) queryParams.sortby = params.sort_by;
+
+        let articles: FortnoxArticleListItem[];
+        let total: number;
+        let pagesFetched = 1;
+        let truncated = false;
+        let truncationReason: string | undefined;
+        let nextCursor: string | undefined;
+
+        if (params.fetch_all || params.cursor) {
+          const result = await fetchAllPages<FortnoxArticleListItem, ArticleListResponse>(
+            "/3/articles",
+            queryParams,
+            (r) => r.Articles || [],
+            (r) => r.MetaInformation?.["@TotalResources"] || 0,
+            { cursor: params.cursor }
+          );
+          articles = result.items;
+          total = result.total;
+          pagesFetched = result.pagesFetched;
+          truncated = result.truncated;
+          truncationReason = result.truncationReason;
+          nextCursor = result.nextCursor;
+        } else {
+          const response = await fortnoxRequest<ArticleListResponse>("/3/articles", "GET", undefined, {
+            ...queryParams,
+            limit: params.limit,
+            page: params.page
+          });
+          articles = response.Articles || [];
+          total = response.MetaInformation?.["@TotalResources"] || articles.length;
+        }
+
+        const paginationMeta = params.fetch_all || params.cursor
+          ? {
+              total,
+              count: articles.length,
+              fetched_all: true,
+              pages_fetched: pagesFetched,
+              truncated,
+              truncation_reason: truncationReason,
+              next_cursor: nextCursor
+            }
+          : buildPaginationMeta(total, params.page, params.limit, articles.length);
+
+        const output = {
+          ...paginationMeta,
+          articles: articles.map((a) => ({
+            article_number: a.ArticleNumber,
+            description: a.Description || null,
+            unit: a.Unit || null,
+            sales_price: a.SalesPrice ?? null,
+            purchase_price: a.PurchasePrice ?? null,
+            vat: a.VAT ?? null,
+            quantity_in_stock: a.QuantityInStock ?? null,
+            disposable_quantity: a.DisposableQuantity ?? null,
+            stock_value: a.StockValue ?? null
+          }))
+        };
+
+        const formatArticle = (a: FortnoxArticleListItem): string =>
+          `## ${a.Description || a.ArticleNumber} (${a.ArticleNumber})\n` +
+          `- **Sales Price**: ${formatMoney(a.SalesPrice)}${a.Unit ? ` / ${a.Unit}` : ""}\n` +
+          `- **Purchase Price**: ${formatMoney(a.PurchasePrice)}\n` +
+          `- **VAT**: ${a.VAT ?? "-"}%` +
+          (a.QuantityInStock !== undefined ? `\n- **In Stock**: ${a.QuantityInStock}` : "");
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else if (params.fetch_all || params.cursor) {
+          const lines: string[] = [
+            "# Articles",
+            "",
+            `Showing ${articles.length} of ${total} total articles`,
+            `(${pagesFetched} pages fetched)`
+          ];
+
+          if (truncated) {
+            lines.push("");
+            lines.push(`**Results truncated**: ${truncationReason}`);
+            if (nextCursor) {
+              lines.push(`**Next cursor** (pass as \`cursor\` to continue): \`${nextCursor}\``);
+            }
+          }
+
+          lines.push("");
+
+          for (const a of articles) {
+            lines.push(formatArticle(a));
+            lines.push("");
+          }
+
+          textContent = lines.join("\n");
+        } else {
+          textContent = formatListMarkdown(
+            "Articles",
+            articles,
+            total,
+            params.page,
+            params.limit,
+            formatArticle
+          );
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Get single article
+  server.registerTool(
+    "fortnox_get_article",
+    {
+      title: "Get Fortnox Article",
+      description: `Retrieve detailed information about a specific article.
+
+Args:
+  - article_number (string): The article number to retrieve (required)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Complete article details including prices, unit, VAT, accounts and stock levels.`,
+      inputSchema: GetArticleSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: GetArticleInput) => {
+      try {
+        const response = await fortnoxRequest<ArticleResponse>(
+          `/3/articles/${encodeURIComponent(params.article_number)}`
+        );
+        const article = response.Article;
+
+        const output = {
+          article_number: article.ArticleNumber,
+          description: article.Description || null,
+          type: article.Type || null,
+          unit: article.Unit || null,
+          sales_price: article.SalesPrice ?? null,
+          purchase_price: article.PurchasePrice ?? null,
+          vat: article.VAT ?? null,
+          stock_goods: article.StockGoods ?? false,
+          quantity_in_stock: article.QuantityInStock ?? null,
+          reserved_quantity: article.ReservedQuantity ?? null,
+          disposable_quantity: article.DisposableQuantity ?? null,
+          stock_place: article.StockPlace || null,
+          stock_value: article.StockValue ?? null,
+          ean: article.EAN || null,
+          sales_account: article.SalesAccount || null,
+          purchase_account: article.PurchaseAccount || null,
+          supplier_number: article.SupplierNumber || null,
+          supplier_name: article.SupplierName || null,
+          active: article.Active ?? true,
+          note: article.Note || null
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = formatDetailMarkdown(`Article: ${article.Description || article.ArticleNumber}`, [
+            { label: "Article Number", value: article.ArticleNumber },
+            { label: "Type", value: article.Type },
+            { label: "Unit", value: article.Unit },
+            { label: "Sales Price", value: formatMoney(article.SalesPrice) },
+            { label: "Purchase Price", value: formatMoney(article.PurchasePrice) },
+            { label: "VAT", value: article.VAT !== undefined ? `${article.VAT}%` : undefined },
+            { label: "Stock Goods", value: article.StockGoods },
+            { label: "Quantity in Stock", value: article.QuantityInStock },
+            { label: "Reserved Quantity", value: article.ReservedQuantity },
+            { label: "Disposable Quantity", value: article.DisposableQuantity },
+            { label: "Stock Place", value: article.StockPlace },
+            { label: "Stock Value", value: article.StockValue !== undefined ? formatMoney(article.StockValue) : undefined },
+            { label: "EAN", value: article.EAN },
+            { label: "Sales Account", value: article.SalesAccount },
+            { label: "Purchase Account", value: article.PurchaseAccount },
+            { label: "Supplier", value: article.SupplierName || article.SupplierNumber },
+            { label: "Active", value: article.Active },
+            { label: "Note", value: article.Note }
+          ]);
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Create article
+  server.registerTool(
+    "fortnox_create_article",
+    {
+      title: "Create Fortnox Article",
+      description: `Create a new article (product or service) in Fortnox.
+
+Args:
+  - description (string): Article description/name (required)
+  - article_number (string): Article number (auto-generated if not provided)
+  - type ('STOCK' | 'SERVICE'): Article type
+  - unit (string): Unit code (e.g., 'st', 'h')
+  - sales_price (number): Sales price excluding VAT
+  - purchase_price (number): Purchase price
+  - vat (number): VAT percentage (25, 12, 6, 0)
+  - stock_goods (boolean): Track the article in stock
+  - quantity_in_stock (number): Initial stock quantity
+  - stock_place, ean, sales_account, purchase_account, supplier_number, note: Optional details
+
+Returns:
+  The created article with assigned article number.
+
+Examples:
+  - Consulting hour: description="Konsulttimme", type="SERVICE", unit="h", sales_price=1200, vat=25`,
+      inputSchema: CreateArticleSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: CreateArticleInput) => {
+      try {
+        const articleData = buildArticleData(params);
+        if (params.article_number) articleData.ArticleNumber = params.article_number;
+
+        const response = await fortnoxRequest<ArticleResponse>(
+          "/3/articles",
+          "POST",
+          { Article: articleData }
+        );
+        const article = response.Article;
+
+        const output = {
+          success: true,
+          message: `Article "${article.Description || article.ArticleNumber}" created successfully`,
+          article_number: article.ArticleNumber,
+          description: article.Description || null,
+          sales_price: article.SalesPrice ?? null,
+          unit: article.Unit || null
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Article Created\n\n` +
+            `**Article Number**: ${article.ArticleNumber}\n` +
+            `**Description**: ${article.Description || "-"}\n` +
+            `**Sales Price**: ${formatMoney(article.SalesPrice)}${article.Unit ? ` / ${article.Unit}` : ""}\n\n` +
+            `Article has been successfully created in Fortnox.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Update article
+  server.registerTool(
+    "fortnox_update_article",
+    {
+      title: "Update Fortnox Article",
+      description: `Update an existing article in Fortnox.
+
+Args:
+  - article_number (string): Article number to update (required)
+  - description, type, unit, sales_price, purchase_price, vat, stock_goods, quantity_in_stock,
+    stock_place, ean, sales_account, purchase_account, supplier_number, active, note:
+    Fields to update (only provided fields are changed)
+
+Returns:
+  The updated article details.`,
+      inputSchema: UpdateArticleSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: UpdateArticleInput) => {
+      try {
+        const articleData = buildArticleData(params);
+        if (params.active !== undefined) articleData.Active = params.active;
+
+        const response = await fortnoxRequest<ArticleResponse>(
+          `/3/articles/${encodeURIComponent(params.article_number)}`,
+          "PUT",
+          { Article: articleData }
+        );
+        const article = response.Article;
+
+        const output = {
+          success: true,
+          message: `Article "${article.Description || article.ArticleNumber}" updated successfully`,
+          article_number: article.ArticleNumber,
+          description: article.Description || null,
+          sales_price: article.SalesPrice ?? null,
+          purchase_price: article.PurchasePrice ?? null,
+          quantity_in_stock: article.QuantityInStock ?? null,
+          active: article.Active ?? true
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Article Updated\n\n` +
+            `**Article Number**: ${article.ArticleNumber}\n` +
+            `**Description**: ${article.Description || "-"}\n` +
+            `**Sales Price**: ${formatMoney(article.SalesPrice)}\n\n` +
+            `Article has been successfully updated.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // List units
+  server.registerTool(
+    "fortnox_list_units",
+    {
+      title: "List Fortnox Units",
+      description: `List the units (e.g., 'st', 'h', 'kg') available for articles and invoice rows.
+
+Args:
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  List of unit codes with descriptions.`,
+      inputSchema: ListUnitsSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ListUnitsInput) => {
+      try {
+        const response = await fortnoxRequest<UnitListResponse>("/3/units");
+        const units = response.Units || [];
+
+        const output = {
+          count: units.length,
+          units: units.map((u) => ({
+            code: u.Code,
+            description: u.Description || null,
+            code_english: u.CodeEnglish || null
+          }))
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = ["# Units", ""];
+
+          if (units.length === 0) {
+            lines.push("No units found.");
+          } else {
+            lines.push("| Code | Description | English Code |");
+            lines.push("|------|-------------|--------------|");
+            for (const u of units) {
+              lines.push(`| ${u.Code} | ${u.Description || "-"} | ${u.CodeEnglish || "-"} |`);
+            }
+          }
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // List price lists
+  server.registerTool(
+    "fortnox_list_price_lists",
+    {
+      title: "List Fortnox Price Lists",
+      description: `List the price lists configured in Fortnox.
+
+Customers can be assigned a price list; article prices can differ per price list and quantity.
+
+Args:
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  List of price lists with code, description and whether it is preselected.`,
+      inputSchema: ListPriceListsSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ListPriceListsInput) => {
+      try {
+        const response = await fortnoxRequest<PriceListListResponse>("/3/pricelists");
+        const priceLists = response.PriceLists || [];
+
+        const output = {
+          count: priceLists.length,
+          price_lists: priceLists.map((pl) => ({
+            code: pl.Code,
+            description: pl.Description || null,
+            comments: pl.Comments || null,
+            preselected: pl.PreSelected ?? false
+          }))
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = ["# Price Lists", ""];
+
+          if (priceLists.length === 0) {
+            lines.push("No price lists found.");
+          } else {
+            for (const pl of priceLists) {
+              lines.push(`- **${pl.Code}**: ${pl.Description || "-"}${pl.PreSelected ? " *(preselected)*" : ""}`);
+            }
+          }
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Get article price
+  server.registerTool(
+    "fortnox_get_article_price",
+    {
+      title: "Get Fortnox Article Price",
+      description: `Look up the price of an article in a price list, including quantity tiers.
+
+Use this before drafting an invoice to check what price applies.
+
+Args:
+  - article_number (string): The article number (required)
+  - price_list (string): Price list code (default: 'A')
+  - quantity (number): Quantity to price; selects the applicable quantity tier
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The article's unit, VAT and all price tiers in the price list, plus the applicable price for the quantity.
+
+Examples:
+  - Standard price: article_number="1001"
+  - Price for 50 units in list B: article_number="1001", price_list="B", quantity=50`,
+      inputSchema: GetArticlePriceSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: GetArticlePriceInput) => {
+      try {
+        const [articleResponse, pricesResponse] = await Promise.all([
+          fortnoxRequest<ArticleResponse>(`/3/articles/${encodeURIComponent(params.article_number)}`),
+          fortnoxRequest<PriceSublistResponse>(
+            `/3/prices/sublist/${encodeURIComponent(params.price_list)}/${encodeURIComponent(params.article_number)}`
+          )
+        ]);
+        const article = articleResponse.Article;
+
+        const tiers = (pricesResponse.Prices || [])
+          .map((p) => ({
+            from_quantity: p.FromQuantity ?? 0,
+            price: p.Price ?? 0
+          }))
+          .sort((a, b) => a.from_quantity - b.from_quantity);
+
+        // Applicable tier is the highest from_quantity not exceeding the requested quantity
+        const quantity = params.quantity ?? 1;
+        const applicable = tiers.filter(t => t.from_quantity <= quantity).pop() || tiers[0];
+
+        const output = {
+          article_number: article.ArticleNumber,
+          description: article.Description || null,
+          unit: article.Unit || null,
+          vat: article.VAT ?? null,
+          price_list: params.price_list,
+          quantity,
+          unit_price: applicable ? applicable.price : article.SalesPrice ?? null,
+          line_total: applicable
+            ? applicable.price * quantity
+            : article.SalesPrice !== undefined ? article.SalesPrice * quantity : null,
+          tiers
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = [
+            `# Price: ${article.Description || article.ArticleNumber} (${article.ArticleNumber})`,
+            "",
+            `**Price List**: ${params.price_list}`,
+            `**Unit**: ${article.Unit || "-"}`,
+            `**VAT**: ${article.VAT ?? "-"}%`,
+            "",
+            `**Unit Price** (quantity ${quantity}): ${output.unit_price !== null ? formatMoney(output.unit_price) : "-"}`,
+            `**Line Total** (excl. VAT): ${output.line_total !== null ? formatMoney(output.line_total) : "-"}`
+          ];
+
+          if (tiers.length > 0) {
+            lines.push("");
+            lines.push("## Quantity Tiers");
+            lines.push("");
+            lines.push("| From Quantity | Price |");
+            lines.push("|---------------|-------|");
+            for (const t of tiers) {
+              lines.push(`| ${t.from_quantity} | ${formatMoney(t.price)} |`);
+            }
+          }
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+}
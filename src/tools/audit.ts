@@ -0,0 +1,110 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResponseFormat } from "../constants.js";
+import { buildToolResponse, buildErrorResponse } from "../services/formatters.js";
+import { queryAuditLog } from "../services/audit/index.js";
+import { AuditLogSchema, type AuditLogInput } from "../schemas/audit.js";
+
+/**
+ * Register audit log tools
+ */
+export function registerAuditTools(server: McpServer): void {
+  // Query the audit trail
+  server.registerTool(
+    "fortnox_audit_log",
+    {
+      title: "Query Audit Log",
+      description: `List the writes (creates, updates, bookkeeping, credits, deletions) sent to Fortnox through this server by the current user, newest first.
+
+Each entry shows when the write was sent, by which MCP client and tool, the endpoint, a SHA-256 hash of the payload, and whether Fortnox accepted it. Writes previewed with dry_run are not recorded.
+
+Retention depends on the audit sink: the file sink keeps every entry, while the upstash-redis sink keeps only the latest
+entries per user (AUDIT_LOG_REDIS_MAX_ENTRIES, default 10,000) and drops older ones.
+
+Args:
+  - tool (string): Only writes sent by this tool (optional)
+  - from_date / to_date (YYYY-MM-DD): Date range, UTC (optional)
+  - result ('success' | 'error'): Only successful or only failed writes (optional)
+  - limit (number): Maximum number of entries (default: 50)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Audit entries with timestamp, client, tool, method, endpoint, record, payload hash and result.`,
+      inputSchema: AuditLogSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: AuditLogInput) => {
+      try {
+        const entries = await queryAuditLog({
+          tool: params.tool,
+          fromDate: params.from_date,
+          toDate: params.to_date,
+          result: params.result,
+          limit: params.limit
+        });
+
+        const output = {
+          count: entries.length,
+          entries: entries.map(e => ({
+            timestamp: e.timestamp,
+            client_id: e.clientId,
+            company_id: e.companyId ?? null,
+            tool: e.tool,
+            method: e.method,
+            endpoint: e.endpoint,
+            params: e.params,
+            record_id: e.recordId,
+            payload_hash: e.payloadHash,
+            result: e.result,
+            status: e.status,
+            error: e.error
+          }))
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = [
+            "# Audit Log",
+            ""
+          ];
+
+          if (entries.length === 0) {
+            lines.push("No writes recorded for the given filters.");
+          } else {
+            lines.push(`Showing ${entries.length} most recent writes`);
+            lines.push("");
+            lines.push("| Time (UTC) | Tool | Request | Record | Result | Client |");
+            lines.push("|------------|------|---------|--------|--------|--------|");
+            for (const e of entries) {
+              const result = e.result === "success" ? "OK" : `⚠️ ${e.status ?? "Error"}`;
+              lines.push(
+                `| ${e.timestamp.replace("T", " ").substring(0, 19)} | ${e.tool || "-"} | ${e.method} ${e.endpoint} | ${e.recordId || "-"} | ${result} | ${e.clientId || "-"} |`
+              );
+            }
+
+            const failures = entries.filter(e => e.error);
+            if (failures.length > 0) {
+              lines.push("");
+              lines.push("## Errors");
+              for (const e of failures) {
+                lines.push(`- ${e.timestamp.replace("T", " ").substring(0, 19)} ${e.method} ${e.endpoint}: ${e.error}`);
+              }
+            }
+          }
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+}
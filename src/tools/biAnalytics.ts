@@ -1,5 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { fetchAllPages } from "../services/api.js";
+import { fortnoxRequest, fetchAllPages, fetchDetailsInBatches } from "../services/api.js";
+import { FortnoxApiError } from "../services/errors.js";
 import { ResponseFormat } from "../constants.js";
 import {
   buildToolResponse,
@@ -21,8 +22,11 @@ import {
   getFutureDate,
   getTodayString,
   isDueDateInRange,
-  type DatePeriod
+  type DatePeriod,
+  type DateRange
 } from "../services/dateHelpers.js";
+import type { ScannedVoucher } from "../services/voucherScanner.js";
+import { queryLedgerForDateRange } from "../services/ledgerCache/index.js";
 import {
   aggregateByDimension,
   groupByTimePeriod,
@@ -149,12 +153,15 @@ interface FortnoxInvoiceDetail {
   CustomerName?: string;
   InvoiceDate?: string;
   Total?: number;
+  Cancelled?: boolean;
   InvoiceRows?: Array<{
     ArticleNumber?: string;
     Description?: string;
-    DeliveredQuantity?: number;
+    DeliveredQuantity?: number | string;
     Price?: number;
     Total?: number;
+    TotalExcludingVAT?: number;
+    ContributionValue?: number | string;
   }>;
 }
 
@@ -215,6 +222,155 @@ interface VoucherListResponse {
   };
 }
 
+interface ArticleSalesTotals {
+  articleNumber: string;
+  description?: string;
+  revenue: number;
+  quantity: number;
+  margin: number;
+  invoiceNumbers: Set<string>;
+}
+
+/**
+ * Fetch invoices for a period and then their details (including rows).
+ * Cancelled invoices are excluded. Invoices whose details could not be fetched
+ * mark the result as truncated.
+ */
+async function fetchInvoicesWithRows(
+  queryParams: Record<string, string | number | boolean | undefined>,
+  maxInvoices: number
+): Promise<{
+  invoices: FortnoxInvoiceDetail[];
+  total: number;
+  truncated: boolean;
+  truncationReason?: string;
+}> {
+  const result = await fetchAllPages<FortnoxInvoiceListItem, InvoiceListResponse>(
+    "/3/invoices",
+    queryParams,
+    (r) => r.Invoices || [],
+    (r) => r.MetaInformation?.["@TotalResources"] || 0,
+    { maxResults: maxInvoices, maxPages: Math.ceil(maxInvoices / 100) }
+  );
+
+  const active = result.items.filter(i => !i.Cancelled);
+  const invoices = await fetchDetailsInBatches(
+    active,
+    async (inv) => {
+      const detail = await fortnoxRequest<InvoiceDetailResponse>(
+        `/3/invoices/${encodeURIComponent(inv.DocumentNumber)}`
+      );
+      return detail.Invoice;
+    }
+  );
+
+  const failed = active.length - invoices.length;
+
+  return {
+    invoices,
+    total: result.total,
+    truncated: result.truncated || failed > 0,
+    truncationReason: failed > 0
+      ? [`${failed} invoices could not be fetched`, result.truncationReason].filter(Boolean).join("; ")
+      : result.truncationReason
+  };
+}
+
+/**
+ * Sum invoice rows per ArticleNumber.
+ * Revenue is excluding VAT; margin uses the row contribution value from Fortnox.
+ */
+function summarizeArticleSales(invoices: FortnoxInvoiceDetail[]): {
+  articles: Map<string, ArticleSalesTotals>;
+  revenueWithoutArticle: number;
+} {
+  const articles = new Map<string, ArticleSalesTotals>();
+  let revenueWithoutArticle = 0;
+
+  for (const invoice of invoices) {
+    for (const row of invoice.InvoiceRows || []) {
+      const revenue = row.TotalExcludingVAT ?? row.Total ?? 0;
+
+      if (!row.ArticleNumber) {
+        revenueWithoutArticle += revenue;
+        continue;
+      }
+
+      const existing = articles.get(row.ArticleNumber) || {
+        articleNumber: row.ArticleNumber,
+        description: row.Description,
+        revenue: 0,
+        quantity: 0,
+        margin: 0,
+        invoiceNumbers: new Set<string>()
+      };
+      existing.revenue += revenue;
+      existing.quantity += Number(row.DeliveredQuantity) || 0;
+      existing.margin += Number(row.ContributionValue) || 0;
+      existing.invoiceNumbers.add(invoice.DocumentNumber);
+      articles.set(row.ArticleNumber, existing);
+    }
+  }
+
+  return { articles, revenueWithoutArticle };
+}
+
+/** Display names for BAS account classes used in expense analysis */
+const EXPENSE_CLASS_NAMES: Record<string, string> = {
+  "1xxx": "Assets",
+  "2xxx": "Equity and Liabilities",
+  "3xxx": "Revenue",
+  "4xxx": "Cost of Goods Sold",
+  "5xxx": "Other External Costs (Premises, Sales)",
+  "6xxx": "Other External Costs",
+  "7xxx": "Personnel Costs and Depreciation",
+  "8xxx": "Financial Items and Tax"
+};
+
+interface ExpenseGroupTotals {
+  amount: number;
+  debit: number;
+  credit: number;
+  count: number;
+}
+
+/**
+ * Sum voucher rows within an account range into expense groups.
+ * Expense amount is debit minus credit (expense accounts are debit-normal).
+ */
+function summarizeExpenses(
+  vouchers: ScannedVoucher[],
+  accountFrom: number,
+  accountTo: number,
+  groupBy: "account" | "account_class" | "month"
+): Map<string, ExpenseGroupTotals> {
+  const groups = new Map<string, ExpenseGroupTotals>();
+
+  for (const voucher of vouchers) {
+    for (const row of voucher.VoucherRows || []) {
+      if (row.Account < accountFrom || row.Account > accountTo) continue;
+
+      let key: string;
+      if (groupBy === "account") {
+        key = row.Account.toString();
+      } else if (groupBy === "month") {
+        key = getTimeBucketKey(voucher.TransactionDate, "month");
+      } else {
+        key = `${Math.floor(row.Account / 1000)}xxx`;
+      }
+
+      const existing = groups.get(key) || { amount: 0, debit: 0, credit: 0, count: 0 };
+      existing.debit += row.Debit || 0;
+      existing.credit += row.Credit || 0;
+      existing.amount = existing.debit - existing.credit;
+      existing.count += 1;
+      groups.set(key, existing);
+    }
+  }
+
+  return groups;
+}
+
 /**
  * Register all Business Intelligence analytics tools
  */
@@ -262,8 +418,7 @@ export function registerBIAnalyticsTools(server: McpServer): void {
             (r) => r.MetaInformation?.["@TotalResources"] || 0
           );
         } catch (error) {
-          const msg = error instanceof Error ? error.message : String(error);
-          if (msg.includes("behörighet") || msg.includes("403") || msg.includes("Permission") || msg.includes("scope")) {
+          if (error instanceof FortnoxApiError && error.kind === "permission") {
             supplierInvoicesWarning = "⚠️ Supplier invoices unavailable (missing scope). Outflows show as 0.";
             payablesResult = { items: [], total: 0, truncated: false };
           } else {
@@ -744,7 +899,9 @@ export function registerBIAnalyticsTools(server: McpServer): void {
     "fortnox_product_performance",
     {
       title: "Product Performance Analytics",
-      description: `Analyze product/customer sales performance. Returns top performers ranked by revenue, quantity, or invoice count.`,
+      description: `Analyze sales per article using invoice rows. Returns revenue, quantity, average price and margin per ArticleNumber, with top and bottom performers ranked by revenue, quantity, invoice count or margin.
+
+Analyzes at most max_invoices invoices; beyond that, or if some invoices could not be fetched, the result is marked truncated.`,
       inputSchema: ProductPerformanceSchema,
       annotations: {
         readOnlyHint: true,
@@ -769,108 +926,164 @@ export function registerBIAnalyticsTools(server: McpServer): void {
           dateRangeDescription = `${params.from_date || "start"} to ${params.to_date || "end"}`;
         }
 
-        // Fetch invoices
-        const result = await fetchAllPages<FortnoxInvoiceListItem, InvoiceListResponse>(
-          "/3/invoices",
-          queryParams,
-          (r) => r.Invoices || [],
-          (r) => r.MetaInformation?.["@TotalResources"] || 0
-        );
+        const previousPeriod = params.include_trends && params.period
+          ? getPreviousPeriod(params.period)
+          : undefined;
+
+        // Fetch invoices with rows for the current (and optionally previous) period
+        const [current, previous] = await Promise.all([
+          fetchInvoicesWithRows(queryParams, params.max_invoices),
+          previousPeriod
+            ? fetchInvoicesWithRows(
+                {
+                  fromdate: periodToDateRange(previousPeriod).from_date,
+                  todate: periodToDateRange(previousPeriod).to_date
+                },
+                params.max_invoices
+              )
+            : Promise.resolve(undefined)
+        ]);
 
-        const invoices = result.items.filter(i => !i.Cancelled);
+        const currentSales = summarizeArticleSales(current.invoices);
+        const previousSales = previous ? summarizeArticleSales(previous.invoices) : undefined;
+
+        const metricValue = (a: ArticleSalesTotals): number => {
+          switch (params.metric) {
+            case "quantity":
+              return a.quantity;
+            case "invoice_count":
+              return a.invoiceNumbers.size;
+            case "margin":
+              return a.margin;
+            default:
+              return a.revenue;
+          }
+        };
 
-        // Aggregate by product - use invoice totals grouped by customer as proxy
-        // Note: Full product breakdown requires fetching each invoice detail which is expensive
-        // For a real implementation, you'd need to fetch invoice details with rows
-        // For now, we'll show customer-based analytics as a placeholder
+        const ranked = Array.from(currentSales.articles.values())
+          .sort((a, b) => metricValue(b) - metricValue(a));
+
+        const toPerformer = (a: ArticleSalesTotals, rank: number) => {
+          const performer: Record<string, unknown> = {
+            rank,
+            article_number: a.articleNumber,
+            description: a.description || null,
+            revenue: a.revenue,
+            quantity: a.quantity,
+            average_price: a.quantity !== 0 ? a.revenue / a.quantity : null,
+            margin: a.margin,
+            margin_percent: a.revenue !== 0 ? (a.margin / a.revenue) * 100 : null,
+            invoice_count: a.invoiceNumbers.size
+          };
 
-        const customerStats = new Map<string, {
-          customer_number: string;
-          customer_name: string;
-          revenue: number;
-          invoice_count: number;
-        }>();
-
-        for (const inv of invoices) {
-          const key = inv.CustomerNumber || "unknown";
-          if (!customerStats.has(key)) {
-            customerStats.set(key, {
-              customer_number: key,
-              customer_name: inv.CustomerName || key,
-              revenue: 0,
-              invoice_count: 0
-            });
+          if (previousSales) {
+            const previousArticle = previousSales.articles.get(a.articleNumber);
+            const growth = calculateGrowth(metricValue(a), previousArticle ? metricValue(previousArticle) : 0);
+            performer.previous_value = growth.previous;
+            performer.percent_change = growth.percentChange;
+            performer.trend = growth.trend;
           }
-          const stats = customerStats.get(key)!;
-          stats.revenue += inv.Total || 0;
-          stats.invoice_count += 1;
-        }
 
-        // Sort and take top N
-        const sortedStats = Array.from(customerStats.values())
-          .sort((a, b) => {
-            switch (params.metric) {
-              case "revenue":
-                return b.revenue - a.revenue;
-              case "invoice_count":
-                return b.invoice_count - a.invoice_count;
-              default:
-                return b.revenue - a.revenue;
-            }
-          })
-          .slice(0, params.top_n);
+          return performer;
+        };
+
+        const top = ranked.slice(0, params.top_n);
+        const bottom = ranked.slice(top.length).slice(-params.top_n).reverse();
+
+        const totalRevenue = sumBy(ranked, a => a.revenue);
+        const totalMargin = sumBy(ranked, a => a.margin);
 
         const output = {
           period: params.period || null,
           date_range: dateRangeDescription || null,
           metric: params.metric,
           summary: {
-            total_revenue: sumBy(invoices, i => i.Total || 0),
-            total_invoices: invoices.length,
-            unique_customers: customerStats.size
+            total_revenue: totalRevenue,
+            total_quantity: sumBy(ranked, a => a.quantity),
+            total_margin: totalMargin,
+            margin_percent: totalRevenue !== 0 ? (totalMargin / totalRevenue) * 100 : null,
+            unique_articles: ranked.length,
+            invoices_analyzed: current.invoices.length,
+            total_invoices: current.total,
+            revenue_without_article: currentSales.revenueWithoutArticle
           },
-          // Note: Returning customer stats as product breakdown requires invoice detail API
-          top_performers: sortedStats.map((s, index) => ({
-            rank: index + 1,
-            identifier: s.customer_number,
-            name: s.customer_name,
-            revenue: s.revenue,
-            invoice_count: s.invoice_count
-          })),
-          note: "Product-level breakdown requires invoice row details. Showing customer-level aggregation.",
-          truncated: result.truncated
+          previous_period: previousPeriod && previous && previousSales
+            ? {
+                period: previousPeriod,
+                description: getPeriodDescription(previousPeriod),
+                total_revenue: sumBy(Array.from(previousSales.articles.values()), a => a.revenue),
+                invoices_analyzed: previous.invoices.length
+              }
+            : null,
+          top_performers: top.map((a, index) => toPerformer(a, index + 1)),
+          bottom_performers: bottom.map((a, index) => toPerformer(a, ranked.length - index)),
+          truncated: current.truncated || (previous?.truncated ?? false),
+          truncation_reason: current.truncationReason || previous?.truncationReason || null
         };
 
         let textContent: string;
         if (params.response_format === ResponseFormat.JSON) {
           textContent = JSON.stringify(output, null, 2);
         } else {
-          const lines: string[] = [
-            "# Product/Customer Performance",
-            "",
-            "*Note: Full product-level analytics requires invoice row details. Showing customer-level aggregation.*",
-            ""
-          ];
+          const metricLabel = {
+            revenue: "Revenue",
+            quantity: "Quantity",
+            invoice_count: "Invoice Count",
+            margin: "Margin"
+          }[params.metric];
+
+          const lines: string[] = ["# Product Performance", ""];
 
           if (dateRangeDescription) {
             lines.push(`**Period**: ${dateRangeDescription}`);
+          }
+          if (output.previous_period) {
+            lines.push(`**Compared To**: ${output.previous_period.description}`);
+          }
+          lines.push(`**Invoices Analyzed**: ${current.invoices.length} of ${current.total}`);
+          lines.push("");
+
+          if (output.truncated) {
+            lines.push(`⚠️ **Note**: ${output.truncation_reason}`);
             lines.push("");
           }
 
           lines.push("## Summary");
           lines.push("");
-          lines.push(`- **Total Revenue**: ${formatMoney(output.summary.total_revenue)}`);
-          lines.push(`- **Total Invoices**: ${output.summary.total_invoices}`);
-          lines.push(`- **Unique Customers**: ${output.summary.unique_customers}`);
+          lines.push(`- **Total Revenue**: ${formatMoney(totalRevenue)}`);
+          lines.push(`- **Total Margin**: ${formatMoney(totalMargin)}${output.summary.margin_percent !== null ? ` (${formatMargin(output.summary.margin_percent)})` : ""}`);
+          lines.push(`- **Unique Articles**: ${ranked.length}`);
+          if (currentSales.revenueWithoutArticle !== 0) {
+            lines.push(`- **Revenue Without Article**: ${formatMoney(currentSales.revenueWithoutArticle)}`);
+          }
           lines.push("");
 
-          lines.push(`## Top ${params.top_n} by ${params.metric === "revenue" ? "Revenue" : "Invoice Count"}`);
-          lines.push("");
-          lines.push("| Rank | Customer | Revenue | Invoices |");
-          lines.push("|------|----------|---------|----------|");
+          const pushTable = (title: string, performers: Array<Record<string, unknown>>) => {
+            lines.push(`## ${title}`);
+            lines.push("");
+            const trendHeader = previousSales ? " Trend |" : "";
+            lines.push(`| Rank | Article | Revenue | Quantity | Avg Price | Margin | Invoices |${trendHeader}`);
+            lines.push(`|------|---------|---------|----------|-----------|--------|----------|${previousSales ? "-------|" : ""}`);
+
+            for (const p of performers) {
+              const name = p.description ? `${p.description} (${p.article_number})` : String(p.article_number);
+              const avgPrice = p.average_price !== null ? formatMoney(p.average_price as number) : "-";
+              const margin = p.margin_percent !== null
+                ? `${formatMoney(p.margin as number)} (${(p.margin_percent as number).toFixed(1)}%)`
+                : formatMoney(p.margin as number);
+              const trend = previousSales ? ` ${formatTrend(p.percent_change as number)} |` : "";
+              lines.push(`| ${p.rank} | ${name} | ${formatMoney(p.revenue as number)} | ${p.quantity} | ${avgPrice} | ${margin} | ${p.invoice_count} |${trend}`);
+            }
+            lines.push("");
+          };
 
-          for (const s of sortedStats) {
-            lines.push(`| ${sortedStats.indexOf(s) + 1} | ${s.customer_name} | ${formatMoney(s.revenue)} | ${s.invoice_count} |`);
+          if (ranked.length === 0) {
+            lines.push("*No article rows found on invoices in this period.*");
+          } else {
+            pushTable(`Top ${output.top_performers.length} by ${metricLabel}`, output.top_performers);
+            if (output.bottom_performers.length > 0) {
+              pushTable(`Bottom ${output.bottom_performers.length} by ${metricLabel}`, output.bottom_performers);
+            }
           }
 
           textContent = lines.join("\n");
@@ -1399,9 +1612,9 @@ For actual cost center data, use fortnox_account_activity with cost center filte
     "fortnox_expense_analysis",
     {
       title: "Expense Analysis",
-      description: `[LIMITED] Analyze expenses by account class. Returns category structure only.
+      description: `Analyze expenses by summing voucher rows in an account range (default 4000-8999). Group by account, account class or month, with optional period comparison. Defaults to this month if no dates are given.
 
-For actual expense data, use fortnox_account_activity with account_range={from: 4000, to: 8999}.`,
+Scans at most max_vouchers vouchers per period (unless the ledger cache serves them); beyond that the result is marked truncated.`,
       inputSchema: ExpenseAnalysisSchema,
       annotations: {
         readOnlyHint: true,
@@ -1412,64 +1625,181 @@ For actual expense data, use fortnox_account_activity with account_range={from:
     },
     async (params: ExpenseAnalysisInput) => {
       try {
-        let dateRangeDescription: string | undefined;
+        // Resolve the current date range
+        let currentRange: DateRange;
+        let dateRangeDescription: string;
         if (params.period) {
+          currentRange = periodToDateRange(params.period);
           dateRangeDescription = getPeriodDescription(params.period);
         } else if (params.from_date || params.to_date) {
-          dateRangeDescription = `${params.from_date || "start"} to ${params.to_date || "end"}`;
+          const toDate = params.to_date || getTodayString();
+          currentRange = {
+            from_date: params.from_date || `${toDate.substring(0, 4)}-01-01`,
+            to_date: toDate
+          };
+          dateRangeDescription = `${currentRange.from_date} to ${currentRange.to_date}`;
+        } else {
+          currentRange = periodToDateRange("this_month");
+          dateRangeDescription = getPeriodDescription("this_month");
+        }
+
+        const compareRange = params.compare_to ? periodToDateRange(params.compare_to) : undefined;
+
+        const [currentScan, compareScan] = await Promise.all([
+          queryLedgerForDateRange(currentRange.from_date, currentRange.to_date, params.max_vouchers),
+          compareRange
+            ? queryLedgerForDateRange(compareRange.from_date, compareRange.to_date, params.max_vouchers)
+            : Promise.resolve(undefined)
+        ]);
+
+        const currentGroups = summarizeExpenses(
+          currentScan.vouchers,
+          params.account_range_from,
+          params.account_range_to,
+          params.group_by
+        );
+        const compareGroups = compareScan
+          ? summarizeExpenses(
+              compareScan.vouchers,
+              params.account_range_from,
+              params.account_range_to,
+              params.group_by
+            )
+          : undefined;
+
+        // Month groups are compared by position in the period (1st month vs 1st month, ...)
+        let groupKeys: string[];
+        const previousKeyFor = new Map<string, string>();
+        if (params.group_by === "month") {
+          groupKeys = generateTimeBucketKeys(currentRange.from_date, currentRange.to_date, "month");
+          if (compareRange) {
+            const compareKeys = generateTimeBucketKeys(compareRange.from_date, compareRange.to_date, "month");
+            groupKeys.forEach((key, index) => {
+              if (compareKeys[index]) previousKeyFor.set(key, compareKeys[index]);
+            });
+          }
+        } else {
+          groupKeys = [...new Set([...currentGroups.keys(), ...(compareGroups?.keys() || [])])]
+            .sort((a, b) => a.localeCompare(b));
         }
 
-        // Note: Full expense analysis requires fetching vouchers and filtering by account range
-        // This is a placeholder showing the structure
-        const expenseClasses = [
-          { class: "4xxx", name: "Cost of Goods Sold", amount: 0 },
-          { class: "5xxx", name: "Personnel Costs", amount: 0 },
-          { class: "6xxx", name: "Other External Costs", amount: 0 },
-          { class: "7xxx", name: "Depreciation", amount: 0 },
-          { class: "8xxx", name: "Financial Items", amount: 0 }
-        ].filter(c => {
-          const classStart = parseInt(c.class.replace("xxx", "000"));
-          const classEnd = parseInt(c.class.replace("xxx", "999"));
-          return classStart <= params.account_range_to && classEnd >= params.account_range_from;
+        const totalExpenses = sumBy([...currentGroups.values()], g => g.amount);
+        const previousTotal = compareGroups ? sumBy([...compareGroups.values()], g => g.amount) : 0;
+
+        const groups = groupKeys.map(key => {
+          const current = currentGroups.get(key) || { amount: 0, debit: 0, credit: 0, count: 0 };
+          const group: Record<string, unknown> = {
+            key,
+            name: params.group_by === "account_class" ? EXPENSE_CLASS_NAMES[key] || key : key,
+            amount: current.amount,
+            debit: current.debit,
+            credit: current.credit,
+            transaction_count: current.count,
+            share_percent: totalExpenses !== 0 ? (current.amount / totalExpenses) * 100 : 0
+          };
+
+          if (compareGroups) {
+            const previousKey = params.group_by === "month" ? previousKeyFor.get(key) : key;
+            const previousAmount = previousKey ? compareGroups.get(previousKey)?.amount || 0 : 0;
+            const growth = calculateGrowth(current.amount, previousAmount);
+            group.previous_key = previousKey || null;
+            group.previous_amount = previousAmount;
+            group.change = growth.change;
+            group.percent_change = growth.percentChange;
+            group.trend = growth.trend;
+          }
+
+          return group;
         });
 
+        const totalGrowth = calculateGrowth(totalExpenses, previousTotal);
+
         const output = {
           period: params.period || null,
-          date_range: dateRangeDescription || null,
+          date_range: dateRangeDescription,
+          from_date: currentRange.from_date,
+          to_date: currentRange.to_date,
           account_range: {
             from: params.account_range_from,
             to: params.account_range_to
           },
           group_by: params.group_by,
-          note: "Full expense breakdown requires voucher analysis. Showing account class structure.",
-          expense_classes: expenseClasses,
-          comparison_period: params.compare_to || null
+          total_expenses: totalExpenses,
+          vouchers_scanned: currentScan.vouchersScanned,
+          source: currentScan.source,
+          total_vouchers_available: currentScan.totalVouchers,
+          truncated: currentScan.truncated || (compareScan?.truncated ?? false),
+          truncation_reason: currentScan.truncationReason || compareScan?.truncationReason || null,
+          comparison: params.compare_to && compareRange && compareScan
+            ? {
+                period: params.compare_to,
+                date_range: getPeriodDescription(params.compare_to),
+                from_date: compareRange.from_date,
+                to_date: compareRange.to_date,
+                total_expenses: previousTotal,
+                change: totalGrowth.change,
+                percent_change: totalGrowth.percentChange,
+                trend: totalGrowth.trend,
+                vouchers_scanned: compareScan.vouchersScanned
+              }
+            : null,
+          groups
         };
 
         let textContent: string;
         if (params.response_format === ResponseFormat.JSON) {
           textContent = JSON.stringify(output, null, 2);
         } else {
+          const groupLabel = params.group_by === "account"
+            ? "Account"
+            : params.group_by === "month" ? "Month" : "Account Class";
+
           const lines: string[] = [
             "# Expense Analysis",
             "",
-            "*Note: Full expense breakdown requires voucher analysis by account.*",
+            `**Period**: ${dateRangeDescription}`,
+            `**Account Range**: ${params.account_range_from} - ${params.account_range_to}`,
+            `**Vouchers Scanned**: ${currentScan.vouchersScanned}${currentScan.source === "cache" ? " (ledger cache)" : ""}`,
             ""
           ];
 
-          if (dateRangeDescription) {
-            lines.push(`**Period**: ${dateRangeDescription}`);
+          if (output.truncated) {
+            lines.push(`⚠️ **Note**: ${output.truncation_reason}`);
+            lines.push("");
           }
-          lines.push(`**Account Range**: ${params.account_range_from} - ${params.account_range_to}`);
-          lines.push("");
 
-          lines.push("## Expense Categories");
-          lines.push("");
-          lines.push("| Account Class | Category |");
-          lines.push("|---------------|----------|");
+          if (output.comparison) {
+            lines.push("## Summary");
+            lines.push("");
+            lines.push(...formatComparisonTableHeader(dateRangeDescription, output.comparison.date_range));
+            lines.push(formatComparisonRow("Total Expenses", totalExpenses, previousTotal));
+            lines.push("");
+
+            lines.push(`## Expenses by ${groupLabel}`);
+            lines.push("");
+            lines.push(`| ${groupLabel} | Current | Previous | Change |`);
+            lines.push("|--------|---------|----------|--------|");
+
+            for (const g of groups) {
+              lines.push(`| ${g.name} | ${formatMoney(g.amount as number)} | ${formatMoney(g.previous_amount as number)} | ${formatTrend(g.percent_change as number)} |`);
+            }
+          } else {
+            lines.push(`**Total Expenses**: ${formatMoney(totalExpenses)}`);
+            lines.push("");
+
+            lines.push(`## Expenses by ${groupLabel}`);
+            lines.push("");
+            lines.push(`| ${groupLabel} | Amount | Share | Transactions |`);
+            lines.push("|--------|--------|-------|--------------|");
 
-          for (const ec of expenseClasses) {
-            lines.push(`| ${ec.class} | ${ec.name} |`);
+            for (const g of groups) {
+              lines.push(`| ${g.name} | ${formatMoney(g.amount as number)} | ${(g.share_percent as number).toFixed(1)}% | ${g.transaction_count} |`);
+            }
+          }
+
+          if (groups.length === 0) {
+            lines.push("");
+            lines.push("*No expense transactions found in the account range.*");
           }
 
           textContent = lines.join("\n");
@@ -0,0 +1,274 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResponseFormat } from "../constants.js";
+import { buildToolResponse, buildErrorResponse } from "../services/formatters.js";
+import { ValidationError } from "../services/errors.js";
+import { getToolCallState } from "../services/toolCallContext.js";
+import { getCurrentUserId, getRequestContext } from "../auth/context.js";
+import { AuthRequiredError } from "../auth/types.js";
+import type { FortnoxProxyOAuthProvider } from "../auth/oauthProvider.js";
+import {
+  ListCompaniesSchema,
+  SetActiveCompanySchema,
+  LinkCompanySchema,
+  UnlinkCompanySchema,
+  type ListCompaniesInput,
+  type SetActiveCompanyInput,
+  type LinkCompanyInput,
+  type UnlinkCompanyInput
+} from "../schemas/companyLinks.js";
+
+function requireUserId(): string {
+  const userId = getCurrentUserId();
+  if (!userId) {
+    throw new AuthRequiredError();
+  }
+  return userId;
+}
+
+/**
+ * Build the response for a company tool called with dry_run (these tools only change server state)
+ */
+function buildDryRunNote(toolName: string, action: string, responseFormat: ResponseFormat) {
+  const output = { dry_run: true, tool: toolName, action };
+  const textContent = responseFormat === ResponseFormat.JSON
+    ? JSON.stringify(output, null, 2)
+    : `# Dry Run: ${toolName}\n\nNothing was changed. Without \`dry_run\` this would ${action}.`;
+  return buildToolResponse(textContent, output);
+}
+
+/**
+ * Register tools for working with several Fortnox companies (remote mode)
+ */
+export function registerCompanyLinkTools(server: McpServer, oauthProvider: FortnoxProxyOAuthProvider): void {
+  const tokenProvider = oauthProvider.getTokenProvider();
+
+  // List companies
+  server.registerTool(
+    "fortnox_list_companies",
+    {
+      title: "List Fortnox Companies",
+      description: `List the Fortnox companies you can work with: the company you signed in with and the companies you have linked.
+
+Every tool accepts company_id to run against one of these companies; without it, tools use the active company (see fortnox_set_active_company).
+
+Args:
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Companies with ID (database number), name, and which one is your own and which is active.`,
+      inputSchema: ListCompaniesSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: ListCompaniesInput) => {
+      try {
+        const companies = await tokenProvider.listCompanies(requireUserId());
+
+        const output = {
+          count: companies.length,
+          companies: companies.map(c => ({
+            company_id: c.fortnoxCompanyId,
+            company_name: c.fortnoxCompanyName,
+            own: c.own,
+            active: c.isDefault
+          }))
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = [
+            "# Fortnox Companies",
+            "",
+            "| Company ID | Name | |",
+            "|------------|------|---|"
+          ];
+          for (const c of companies) {
+            const notes = [c.own ? "Own company" : "Linked", c.isDefault ? "**Active**" : ""].filter(Boolean).join(", ");
+            lines.push(`| ${c.fortnoxCompanyId || "-"} | ${c.fortnoxCompanyName || "-"} | ${notes} |`);
+          }
+          lines.push("");
+          lines.push("Use fortnox_link_company to link another company.");
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Set the active company
+  server.registerTool(
+    "fortnox_set_active_company",
+    {
+      title: "Set Active Fortnox Company",
+      description: `Set the Fortnox company that tools use when they are called without company_id.
+
+Args:
+  - company_id (string): Company ID from fortnox_list_companies. Omit to go back to your own company.
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The active company.`,
+      inputSchema: SetActiveCompanySchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: SetActiveCompanyInput) => {
+      try {
+        const userId = requireUserId();
+        const companyId = await tokenProvider.resolveCompany(userId, params.company_id);
+
+        if (getToolCallState()?.dryRun) {
+          return buildDryRunNote(
+            "fortnox_set_active_company",
+            companyId ? `make company ${companyId} active` : "make your own company active",
+            params.response_format
+          );
+        }
+
+        await tokenProvider.setDefaultCompany(userId, companyId);
+        const active = (await tokenProvider.listCompanies(userId)).find(c => c.isDefault);
+
+        const output = {
+          company_id: active?.fortnoxCompanyId ?? null,
+          company_name: active?.fortnoxCompanyName ?? null,
+          own: active?.own ?? true
+        };
+
+        const textContent = params.response_format === ResponseFormat.JSON
+          ? JSON.stringify(output, null, 2)
+          : `# Active Company\n\n**${output.company_name || output.company_id || "Your own company"}**${output.own ? " (own company)" : ""} is now the active company.`;
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Link a company
+  server.registerTool(
+    "fortnox_link_company",
+    {
+      title: "Link Fortnox Company",
+      description: `Link another Fortnox company to your account.
+
+Returns a Fortnox authorization link. Open it, sign in to Fortnox and pick the company to link. The link expires after 10 minutes.
+
+Args:
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Authorization URL to open in a browser.`,
+      inputSchema: LinkCompanySchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: LinkCompanyInput) => {
+      try {
+        const userId = requireUserId();
+
+        if (getToolCallState()?.dryRun) {
+          return buildDryRunNote("fortnox_link_company", "create a Fortnox authorization link", params.response_format);
+        }
+
+        const authorizationUrl = await oauthProvider.createLinkAuthorizationUrl(
+          userId,
+          getRequestContext()?.clientId || userId
+        );
+
+        const output = { authorization_url: authorizationUrl };
+
+        const textContent = params.response_format === ResponseFormat.JSON
+          ? JSON.stringify(output, null, 2)
+          : [
+              "# Link Fortnox Company",
+              "",
+              "Open this link, sign in to Fortnox and pick the company to link (valid for 10 minutes):",
+              "",
+              authorizationUrl,
+              "",
+              "Then use fortnox_list_companies to see its company ID."
+            ].join("\n");
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Unlink a company
+  server.registerTool(
+    "fortnox_unlink_company",
+    {
+      title: "Unlink Fortnox Company",
+      description: `Unlink a linked Fortnox company. Your own company cannot be unlinked.
+
+Args:
+  - company_id (string): Company ID from fortnox_list_companies
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Confirmation of the unlinked company.`,
+      inputSchema: UnlinkCompanySchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: UnlinkCompanyInput) => {
+      try {
+        const userId = requireUserId();
+        const companies = await tokenProvider.listCompanies(userId);
+        const company = companies.find(c => !c.own && c.fortnoxCompanyId === params.company_id);
+        if (!company) {
+          throw new ValidationError(`Fortnox company ${params.company_id} is not linked`);
+        }
+
+        if (getToolCallState()?.dryRun) {
+          return buildDryRunNote(
+            "fortnox_unlink_company",
+            `unlink ${company.fortnoxCompanyName || params.company_id}`,
+            params.response_format
+          );
+        }
+
+        await tokenProvider.unlinkCompany(userId, params.company_id);
+
+        const output = {
+          company_id: params.company_id,
+          company_name: company.fortnoxCompanyName,
+          unlinked: true,
+          was_active: company.isDefault
+        };
+
+        const textContent = params.response_format === ResponseFormat.JSON
+          ? JSON.stringify(output, null, 2)
+          : `# Company Unlinked\n\n**${company.fortnoxCompanyName || params.company_id}** has been unlinked.${company.isDefault ? " Your own company is now active." : ""}`;
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,584 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fetchAllPages } from "../services/api.js";
+import { ResponseFormat } from "../constants.js";
+import {
+  buildToolResponse,
+  buildErrorResponse,
+  formatMoney,
+  formatDisplayDate,
+  truncateText
+} from "../services/formatters.js";
+import { ValidationError } from "../services/errors.js";
+import { getTodayString } from "../services/dateHelpers.js";
+import { fetchFinancialYears, type FinancialYear } from "../services/voucherScanner.js";
+import { queryLedger } from "../services/ledgerCache/index.js";
+import {
+  FinancialStatementsSchema,
+  type FinancialStatementsInput
+} from "../schemas/financialStatements.js";
+
+// API response types
+interface FortnoxAccountListItem {
+  Number: number;
+  Description: string;
+  Active?: boolean;
+  BalanceBroughtForward?: number;
+}
+
+interface AccountListResponse {
+  Accounts: FortnoxAccountListItem[];
+  MetaInformation?: {
+    "@TotalResources": number;
+  };
+}
+
+// BAS account groups (first two digits) for the balance sheet
+const BAS_GROUP_NAMES: Record<string, string> = {
+  "10": "Intangible Fixed Assets",
+  "11": "Buildings and Land",
+  "12": "Machinery and Equipment",
+  "13": "Financial Fixed Assets",
+  "14": "Inventory",
+  "15": "Accounts Receivable",
+  "16": "Other Current Receivables",
+  "17": "Prepaid Expenses and Accrued Income",
+  "18": "Short-term Investments",
+  "19": "Cash and Bank",
+  "20": "Equity",
+  "21": "Untaxed Reserves",
+  "22": "Provisions",
+  "23": "Long-term Liabilities",
+  "24": "Short-term Liabilities to Credit Institutions, Customers and Suppliers",
+  "25": "Tax Liabilities",
+  "26": "VAT and Excise Duties",
+  "27": "Personnel Taxes and Deductions",
+  "28": "Other Current Liabilities",
+  "29": "Accrued Expenses and Deferred Income"
+};
+
+// BAS account classes (first digit) for the income statement
+const BAS_CLASS_NAMES: Record<string, string> = {
+  "3": "Revenue",
+  "4": "Cost of Goods Sold",
+  "5": "Other External Costs (Premises, Sales)",
+  "6": "Other External Costs",
+  "7": "Personnel Costs and Depreciation",
+  "8": "Financial Items, Appropriations and Tax"
+};
+
+/**
+ * Balances and movements for one account
+ */
+interface AccountLedger {
+  account: number;
+  name: string;
+  openingBalance: number;
+  /** Net movement (debit - credit) from the start of the financial year up to the period */
+  movementBefore: number;
+  periodDebit: number;
+  periodCredit: number;
+}
+
+interface Ledger {
+  accounts: Map<number, AccountLedger>;
+  vouchersScanned: number;
+  totalVouchers: number;
+  truncated: boolean;
+  truncationReason?: string;
+}
+
+interface StatementLine {
+  account: number;
+  name: string;
+  amount: number;
+  previous_amount: number | null;
+}
+
+interface StatementGroup {
+  code: string;
+  name: string;
+  amount: number;
+  previous_amount: number | null;
+  accounts: StatementLine[];
+}
+
+/**
+ * Round to two decimals
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole years (Feb 29 becomes Feb 28)
+ */
+function shiftYears(date: string, years: number): string {
+  const year = Number(date.substring(0, 4)) + years;
+  let rest = date.substring(4);
+  if (rest === "-02-29") rest = "-02-28";
+  return `${year}${rest}`;
+}
+
+/**
+ * Net movement (debit - credit) within the period
+ */
+function periodMovement(a: AccountLedger): number {
+  return a.periodDebit - a.periodCredit;
+}
+
+/**
+ * Balance at the end of the period
+ */
+function closingBalance(a: AccountLedger): number {
+  return a.openingBalance + a.movementBefore + periodMovement(a);
+}
+
+/**
+ * Build account balances for a period within a financial year from the
+ * opening balances (/3/accounts) and voucher rows (scanned from scanFrom to toDate)
+ */
+async function buildLedger(
+  fy: FinancialYear,
+  scanFrom: string,
+  fromDate: string,
+  toDate: string,
+  maxVouchers: number
+): Promise<Ledger> {
+  const accountsResult = await fetchAllPages<FortnoxAccountListItem, AccountListResponse>(
+    "/3/accounts",
+    { financialyear: fy.Id },
+    (r) => r.Accounts || [],
+    (r) => r.MetaInformation?.["@TotalResources"] || 0
+  );
+
+  const accounts = new Map<number, AccountLedger>();
+  const getAccount = (number: number): AccountLedger => {
+    let entry = accounts.get(number);
+    if (!entry) {
+      entry = { account: number, name: "", openingBalance: 0, movementBefore: 0, periodDebit: 0, periodCredit: 0 };
+      accounts.set(number, entry);
+    }
+    return entry;
+  };
+
+  for (const account of accountsResult.items) {
+    const entry = getAccount(account.Number);
+    entry.name = account.Description;
+    entry.openingBalance = Number(account.BalanceBroughtForward || 0);
+  }
+
+  const scan = await queryLedger({
+    financialYear: fy.Id,
+    fromDate: scanFrom,
+    toDate,
+    maxVouchers
+  });
+
+  for (const voucher of scan.vouchers) {
+    const inPeriod = voucher.TransactionDate >= fromDate;
+    for (const row of voucher.VoucherRows || []) {
+      if (row.Removed) continue;
+      const entry = getAccount(row.Account);
+      const debit = Number(row.Debit || 0);
+      const credit = Number(row.Credit || 0);
+      if (inPeriod) {
+        entry.periodDebit += debit;
+        entry.periodCredit += credit;
+      } else {
+        entry.movementBefore += debit - credit;
+      }
+    }
+  }
+
+  return {
+    accounts,
+    vouchersScanned: scan.vouchersScanned,
+    totalVouchers: scan.totalVouchers,
+    truncated: scan.truncated,
+    truncationReason: scan.truncationReason
+  };
+}
+
+/**
+ * Group accounts into statement groups with an optional previous-year column
+ */
+function buildGroups(
+  current: Ledger,
+  previous: Ledger | null,
+  groupOf: (account: number) => string | null,
+  valueOf: (a: AccountLedger) => number,
+  names: Record<string, string>
+): StatementGroup[] {
+  const accountNumbers = new Set<number>(current.accounts.keys());
+  if (previous) {
+    for (const number of previous.accounts.keys()) accountNumbers.add(number);
+  }
+
+  const groups = new Map<string, StatementGroup>();
+  for (const number of accountNumbers) {
+    const code = groupOf(number);
+    if (!code) continue;
+
+    const cur = current.accounts.get(number);
+    const prev = previous?.accounts.get(number);
+    const amount = round2(cur ? valueOf(cur) : 0);
+    const previousAmount = previous ? round2(prev ? valueOf(prev) : 0) : null;
+    if (amount === 0 && !previousAmount) continue;
+
+    let group = groups.get(code);
+    if (!group) {
+      group = { code, name: names[code] || `Group ${code}`, amount: 0, previous_amount: previous ? 0 : null, accounts: [] };
+      groups.set(code, group);
+    }
+
+    group.amount = round2(group.amount + amount);
+    if (group.previous_amount !== null && previousAmount !== null) {
+      group.previous_amount = round2(group.previous_amount + previousAmount);
+    }
+    group.accounts.push({
+      account: number,
+      name: cur?.name || prev?.name || "",
+      amount,
+      previous_amount: previousAmount
+    });
+  }
+
+  return Array.from(groups.values())
+    .map(g => ({ ...g, accounts: g.accounts.sort((a, b) => a.account - b.account) }))
+    .sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/**
+ * Sum the current and previous amounts of groups whose code passes the filter
+ */
+function sumGroups(
+  groups: StatementGroup[],
+  filter: (code: string) => boolean = () => true
+): { amount: number; previous_amount: number | null } {
+  const selected = groups.filter(g => filter(g.code));
+  const hasPrevious = groups.some(g => g.previous_amount !== null);
+  return {
+    amount: round2(selected.reduce((sum, g) => sum + g.amount, 0)),
+    previous_amount: hasPrevious ? round2(selected.reduce((sum, g) => sum + (g.previous_amount || 0), 0)) : null
+  };
+}
+
+/**
+ * Year-to-date result (revenue minus costs) of a ledger, classes 3-8
+ */
+function calculateResult(ledger: Ledger): number {
+  let result = 0;
+  for (const entry of ledger.accounts.values()) {
+    if (entry.account >= 3000 && entry.account <= 8999) {
+      result -= entry.movementBefore + periodMovement(entry);
+    }
+  }
+  return round2(result);
+}
+
+/**
+ * Format a statement row for a markdown table with optional comparison column
+ */
+function formatStatementRow(label: string, amount: number, previousAmount: number | null, compare: boolean, bold = false): string {
+  const b = bold ? "**" : "";
+  const cells = [`${b}${label}${b}`, `${b}${formatMoney(amount)}${b}`];
+  if (compare) cells.push(previousAmount !== null ? `${b}${formatMoney(previousAmount)}${b}` : "-");
+  return `| ${cells.join(" | ")} |`;
+}
+
+/**
+ * Register financial statement tools
+ */
+export function registerFinancialStatementTools(server: McpServer): void {
+  // Financial statements
+  server.registerTool(
+    "fortnox_financial_statements",
+    {
+      title: "Financial Statements",
+      description: `Income statement, balance sheet and trial balance for a financial year and period, grouped by Swedish BAS account classes.
+
+Built from account opening balances (/3/accounts) and voucher rows for the period, with an optional
+comparison column for the same period of the previous financial year.
+
+Income statement sections (BAS classes, revenue positive / costs negative):
+  3 Revenue, 4 Cost of goods sold, 5-6 Other external costs, 7 Personnel costs and depreciation,
+  8 Financial items, appropriations and tax - with gross profit, operating result and net result.
+Balance sheet (closing balances at to_date, BAS groups 10-19 assets, 20-29 equity and liabilities),
+including the calculated result for the year to date.
+
+Args:
+  - statement ('both' | 'income_statement' | 'balance_sheet' | 'trial_balance'): Statement(s) to produce (default: both)
+  - financial_year (number): Fortnox financial year ID (default: year containing to_date or today)
+  - from_date (string): Period start YYYY-MM-DD (default: start of financial year)
+  - to_date (string): Period end YYYY-MM-DD (default: end of financial year)
+  - compare_previous_year (boolean): Add previous year column (default: true)
+  - include_accounts (boolean): Show accounts under each group (default: true)
+  - max_vouchers (number): Maximum vouchers to scan per year when the ledger cache is off (default: 2000)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The requested statements with group and account amounts, totals, and scan statistics.
+
+Examples:
+  - Month-end review: from_date="2025-03-01", to_date="2025-03-31"
+  - Year-end statements: financial_year=3
+  - Trial balance year to date: statement="trial_balance", to_date="2025-06-30"`,
+      inputSchema: FinancialStatementsSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: FinancialStatementsInput) => {
+      try {
+        const years = await fetchFinancialYears();
+        const referenceDate = params.to_date || params.from_date || getTodayString();
+        const fy = params.financial_year
+          ? years.find(y => y.Id === params.financial_year)
+          : years.find(y => y.FromDate <= referenceDate && y.ToDate >= referenceDate);
+
+        if (!fy) {
+          throw new ValidationError(
+            params.financial_year
+              ? `Financial year ${params.financial_year} not found. Use fortnox_list_financial_years to find the correct ID.`
+              : `No financial year contains ${referenceDate}. Use fortnox_list_financial_years to find the correct ID.`
+          );
+        }
+
+        const fromDate = params.from_date || fy.FromDate;
+        const toDate = params.to_date || fy.ToDate;
+        if (fromDate < fy.FromDate || toDate > fy.ToDate) {
+          throw new ValidationError(`The period ${fromDate} - ${toDate} must be within the financial year ${fy.FromDate} - ${fy.ToDate}.`);
+        }
+
+        // The income statement alone only needs the period; balances need the year to date
+        const scanFromStart = params.statement !== "income_statement";
+        const current = await buildLedger(fy, scanFromStart ? fy.FromDate : fromDate, fromDate, toDate, params.max_vouchers);
+
+        // Same period in the previous financial year
+        let previous: Ledger | null = null;
+        let previousPeriod: { financial_year_id: number; from_date: string; to_date: string } | null = null;
+        const prevFy = params.compare_previous_year && params.statement !== "trial_balance"
+          ? years.filter(y => y.ToDate < fy.FromDate).pop()
+          : undefined;
+
+        if (prevFy) {
+          const shiftedFrom = shiftYears(fromDate, -1);
+          const shiftedTo = shiftYears(toDate, -1);
+          const prevFrom = fromDate === fy.FromDate || shiftedFrom < prevFy.FromDate ? prevFy.FromDate : shiftedFrom;
+          const prevTo = toDate === fy.ToDate || shiftedTo > prevFy.ToDate ? prevFy.ToDate : shiftedTo;
+          previous = await buildLedger(prevFy, scanFromStart ? prevFy.FromDate : prevFrom, prevFrom, prevTo, params.max_vouchers);
+          previousPeriod = { financial_year_id: prevFy.Id, from_date: prevFrom, to_date: prevTo };
+        }
+
+        const compare = previous !== null;
+        const showIncome = params.statement === "both" || params.statement === "income_statement";
+        const showBalance = params.statement === "both" || params.statement === "balance_sheet";
+        const showTrial = params.statement === "trial_balance";
+
+        // Income statement: classes 3-8, revenue positive and costs negative
+        let incomeStatement: {
+          sections: StatementGroup[];
+          gross_profit: { amount: number; previous_amount: number | null };
+          operating_result: { amount: number; previous_amount: number | null };
+          result: { amount: number; previous_amount: number | null };
+        } | null = null;
+
+        if (showIncome) {
+          const sections = buildGroups(
+            current,
+            previous,
+            (n) => (n >= 3000 && n <= 8999 ? String(n).charAt(0) : null),
+            (a) => -periodMovement(a),
+            BAS_CLASS_NAMES
+          );
+          incomeStatement = {
+            sections,
+            gross_profit: sumGroups(sections, c => c === "3" || c === "4"),
+            operating_result: sumGroups(sections, c => c !== "8"),
+            result: sumGroups(sections)
+          };
+        }
+
+        // Balance sheet: closing balances, equity and liabilities shown as positive amounts
+        let balanceSheet: {
+          assets: { groups: StatementGroup[]; total: number; previous_total: number | null };
+          equity_and_liabilities: { groups: StatementGroup[]; total: number; previous_total: number | null };
+          calculated_result: number;
+          previous_calculated_result: number | null;
+          difference: number;
+        } | null = null;
+
+        if (showBalance) {
+          const assetGroups = buildGroups(
+            current,
+            previous,
+            (n) => (n >= 1000 && n <= 1999 ? String(n).substring(0, 2) : null),
+            closingBalance,
+            BAS_GROUP_NAMES
+          );
+          const liabilityGroups = buildGroups(
+            current,
+            previous,
+            (n) => (n >= 2000 && n <= 2999 ? String(n).substring(0, 2) : null),
+            (a) => -closingBalance(a),
+            BAS_GROUP_NAMES
+          );
+          const assets = sumGroups(assetGroups);
+          const liabilities = sumGroups(liabilityGroups);
+          const calculatedResult = calculateResult(current);
+          const previousResult = previous ? calculateResult(previous) : null;
+
+          balanceSheet = {
+            assets: { groups: assetGroups, total: assets.amount, previous_total: assets.previous_amount },
+            equity_and_liabilities: {
+              groups: liabilityGroups,
+              total: round2(liabilities.amount + calculatedResult),
+              previous_total: liabilities.previous_amount !== null && previousResult !== null
+                ? round2(liabilities.previous_amount + previousResult)
+                : null
+            },
+            calculated_result: calculatedResult,
+            previous_calculated_result: previousResult,
+            difference: round2(assets.amount - liabilities.amount - calculatedResult)
+          };
+        }
+
+        // Trial balance: every account with a balance or movement
+        const trialBalance = showTrial
+          ? Array.from(current.accounts.values())
+            .map(a => ({
+              account: a.account,
+              name: a.name,
+              opening_balance: round2(a.openingBalance + a.movementBefore),
+              debit: round2(a.periodDebit),
+              credit: round2(a.periodCredit),
+              closing_balance: round2(closingBalance(a))
+            }))
+            .filter(a => a.opening_balance !== 0 || a.debit !== 0 || a.credit !== 0)
+            .sort((a, b) => a.account - b.account)
+          : null;
+
+        const truncated = current.truncated || (previous?.truncated ?? false);
+        const output = {
+          financial_year: { id: fy.Id, from_date: fy.FromDate, to_date: fy.ToDate },
+          period: { from_date: fromDate, to_date: toDate },
+          comparison_period: previousPeriod,
+          income_statement: incomeStatement,
+          balance_sheet: balanceSheet,
+          trial_balance: trialBalance,
+          data_quality: {
+            vouchers_scanned: current.vouchersScanned,
+            total_vouchers: current.totalVouchers,
+            previous_vouchers_scanned: previous?.vouchersScanned ?? null,
+            truncated,
+            truncation_reason: current.truncationReason || previous?.truncationReason || null
+          }
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = [
+            "# Financial Statements",
+            "",
+            `**Financial Year**: ${formatDisplayDate(fy.FromDate)} - ${formatDisplayDate(fy.ToDate)}`,
+            `**Period**: ${formatDisplayDate(fromDate)} - ${formatDisplayDate(toDate)}`
+          ];
+          if (previousPeriod) {
+            lines.push(`**Compared With**: ${formatDisplayDate(previousPeriod.from_date)} - ${formatDisplayDate(previousPeriod.to_date)}`);
+          }
+          lines.push("");
+
+          if (truncated) {
+            lines.push(`⚠️ **Incomplete**: ${output.data_quality.truncation_reason}. Increase max_vouchers or narrow the period.`);
+            lines.push("");
+          }
+
+          const header = compare
+            ? ["| Item | Current | Previous Year |", "|------|---------|---------------|"]
+            : ["| Item | Amount |", "|------|--------|"];
+
+          const pushGroups = (groups: StatementGroup[]) => {
+            for (const group of groups) {
+              if (params.include_accounts) {
+                for (const line of group.accounts) {
+                  lines.push(formatStatementRow(`${line.account} ${truncateText(line.name, 40)}`, line.amount, line.previous_amount, compare));
+                }
+              }
+              lines.push(formatStatementRow(`${group.code} ${group.name}`, group.amount, group.previous_amount, compare, true));
+            }
+          };
+
+          if (incomeStatement) {
+            lines.push("## Income Statement");
+            lines.push("");
+            lines.push(...header);
+            for (const section of incomeStatement.sections) {
+              pushGroups([section]);
+              if (section.code === "4") {
+                lines.push(formatStatementRow("= Gross Profit", incomeStatement.gross_profit.amount, incomeStatement.gross_profit.previous_amount, compare, true));
+              }
+              if (section.code === "7") {
+                lines.push(formatStatementRow("= Operating Result", incomeStatement.operating_result.amount, incomeStatement.operating_result.previous_amount, compare, true));
+              }
+            }
+            lines.push(formatStatementRow("= Net Result", incomeStatement.result.amount, incomeStatement.result.previous_amount, compare, true));
+            lines.push("");
+          }
+
+          if (balanceSheet) {
+            lines.push(`## Balance Sheet (${formatDisplayDate(toDate)})`);
+            lines.push("");
+            lines.push("### Assets");
+            lines.push("");
+            lines.push(...header);
+            pushGroups(balanceSheet.assets.groups);
+            lines.push(formatStatementRow("Total Assets", balanceSheet.assets.total, balanceSheet.assets.previous_total, compare, true));
+            lines.push("");
+            lines.push("### Equity and Liabilities");
+            lines.push("");
+            lines.push(...header);
+            pushGroups(balanceSheet.equity_and_liabilities.groups);
+            lines.push(formatStatementRow("Calculated Result (year to date)", balanceSheet.calculated_result, balanceSheet.previous_calculated_result, compare));
+            lines.push(formatStatementRow("Total Equity and Liabilities", balanceSheet.equity_and_liabilities.total, balanceSheet.equity_and_liabilities.previous_total, compare, true));
+
+            if (Math.abs(balanceSheet.difference) >= 0.01) {
+              lines.push("");
+              lines.push(`⚠️ Assets and equity/liabilities differ by ${formatMoney(balanceSheet.difference)}.`);
+            }
+            lines.push("");
+          }
+
+          if (trialBalance) {
+            lines.push("## Trial Balance");
+            lines.push("");
+            lines.push("| Account | Name | Opening | Debit | Credit | Closing |");
+            lines.push("|---------|------|---------|-------|--------|---------|");
+            for (const a of trialBalance) {
+              lines.push(
+                `| ${a.account} | ${truncateText(a.name, 40)} | ${formatMoney(a.opening_balance)} ` +
+                `| ${formatMoney(a.debit)} | ${formatMoney(a.credit)} | ${formatMoney(a.closing_balance)} |`
+              );
+            }
+            const totalDebit = round2(trialBalance.reduce((sum, a) => sum + a.debit, 0));
+            const totalCredit = round2(trialBalance.reduce((sum, a) => sum + a.credit, 0));
+            lines.push(`| | **Total** | | **${formatMoney(totalDebit)}** | **${formatMoney(totalCredit)}** | |`);
+            lines.push("");
+          }
+
+          lines.push(`*Based on ${current.vouchersScanned} of ${current.totalVouchers} vouchers scanned for the period.*`);
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+}
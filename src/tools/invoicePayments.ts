@@ -0,0 +1,412 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fortnoxRequest } from "../services/api.js";
+import { ResponseFormat } from "../constants.js";
+import {
+  buildToolResponse,
+  buildErrorResponse,
+  formatMoney,
+  formatDisplayDate,
+  formatBoolean,
+  formatListMarkdown,
+  buildPaginationMeta
+} from "../services/formatters.js";
+import { ValidationError } from "../services/errors.js";
+import { getTodayString } from "../services/dateHelpers.js";
+import {
+  ListInvoicePaymentsSchema,
+  CreateInvoicePaymentSchema,
+  InvoicePaymentActionSchema,
+  DeleteInvoicePaymentSchema,
+  type ListInvoicePaymentsInput,
+  type CreateInvoicePaymentInput,
+  type InvoicePaymentActionInput,
+  type DeleteInvoicePaymentInput
+} from "../schemas/invoicePayments.js";
+
+// API response types
+interface FortnoxInvoicePayment {
+  Number: string;
+  InvoiceNumber: number;
+  Amount?: number;
+  AmountCurrency?: number;
+  Currency?: string;
+  CurrencyRate?: number;
+  PaymentDate?: string;
+  ModeOfPayment?: string;
+  Booked?: boolean;
+  InvoiceCustomerName?: string;
+  InvoiceCustomerNumber?: string;
+  VoucherSeries?: string;
+  VoucherNumber?: number;
+  "@url"?: string;
+}
+
+interface FortnoxInvoicePaymentListItem {
+  Number: string;
+  InvoiceNumber: number;
+  Amount?: number;
+  Currency?: string;
+  CurrencyRate?: number;
+  PaymentDate?: string;
+  Booked?: boolean;
+  "@url"?: string;
+}
+
+interface InvoicePaymentListResponse {
+  InvoicePayments: FortnoxInvoicePaymentListItem[];
+  MetaInformation?: {
+    "@TotalResources": number;
+    "@TotalPages": number;
+    "@CurrentPage": number;
+  };
+}
+
+interface InvoicePaymentResponse {
+  InvoicePayment: FortnoxInvoicePayment;
+}
+
+interface InvoiceResponse {
+  Invoice: {
+    DocumentNumber: string;
+    CustomerName?: string;
+    Balance?: number;
+    Currency?: string;
+    CurrencyRate?: number;
+    Booked?: boolean;
+    Cancelled?: boolean;
+  };
+}
+
+/**
+ * Round an amount to two decimals (öre)
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Register all invoice payment tools
+ */
+export function registerInvoicePaymentTools(server: McpServer): void {
+  // List invoice payments
+  server.registerTool(
+    "fortnox_list_invoice_payments",
+    {
+      title: "List Fortnox Invoice Payments",
+      description: `List payments registered against customer invoices.
+
+Args:
+  - limit (number): Max results per page, 1-100 (default: 20)
+  - page (number): Page number for pagination (default: 1)
+  - invoice_number (number): Only show payments for this invoice
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  List of payments with payment number, invoice number, amount, payment date and booked status.`,
+      inputSchema: ListInvoicePaymentsSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ListInvoicePaymentsInput) => {
+      try {
+        const queryParams: Record<string, string | number | boolean | undefined> = {
+          limit: params.limit,
+          page: params.page,
+          sortby: "paymentdate"
+        };
+
+        if (params.invoice_number) {
+          queryParams.invoicenumber = params.invoice_number;
+        }
+
+        const response = await fortnoxRequest<InvoicePaymentListResponse>(
+          "/3/invoicepayments",
+          "GET",
+          undefined,
+          queryParams
+        );
+        const payments = response.InvoicePayments || [];
+        const total = response.MetaInformation?.["@TotalResources"] || payments.length;
+
+        const output = {
+          ...buildPaginationMeta(total, params.page, params.limit, payments.length),
+          payments: payments.map((p) => ({
+            payment_number: p.Number,
+            invoice_number: p.InvoiceNumber,
+            amount: p.Amount ?? 0,
+            currency: p.Currency || "SEK",
+            currency_rate: p.CurrencyRate ?? null,
+            payment_date: p.PaymentDate || null,
+            booked: p.Booked ?? false
+          }))
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = formatListMarkdown(
+            "Invoice Payments",
+            payments,
+            total,
+            params.page,
+            params.limit,
+            (p) => `## Payment ${p.Number} - Invoice #${p.InvoiceNumber}\n` +
+              `- **Amount**: ${formatMoney(p.Amount)}\n` +
+              `- **Payment Date**: ${formatDisplayDate(p.PaymentDate)}\n` +
+              `- **Booked**: ${formatBoolean(p.Booked)}`
+          );
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Create invoice payment
+  server.registerTool(
+    "fortnox_create_invoice_payment",
+    {
+      title: "Register Invoice Payment",
+      description: `Register a customer payment against an invoice.
+
+If no amount is given, the invoice's remaining balance is paid in full.
+For foreign-currency invoices, amount_currency is the amount in the invoice currency and
+currency_rate the rate on the payment date (defaults to the invoice rate); the SEK amount
+is derived from these unless given explicitly.
+
+Args:
+  - invoice_number (number): Invoice document number (required)
+  - amount (number): Paid amount in SEK (default: remaining balance)
+  - amount_currency (number): Paid amount in invoice currency (foreign-currency invoices)
+  - currency_rate (number): Currency rate on the payment date (foreign-currency invoices)
+  - payment_date (string): Payment date YYYY-MM-DD (default: today)
+  - mode_of_payment (string): Mode of payment code (e.g., 'BG', 'PG')
+  - bookkeep (boolean): Bookkeep the payment immediately (default: false). Bookkeeping cannot be undone,
+    so a call with bookkeep=true returns a preview and a confirmation_token first.
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The created payment with payment number and booked status.
+
+Examples:
+  - Full payment today: invoice_number=1042
+  - Partial payment: invoice_number=1042, amount=5000, payment_date="2025-03-14"
+  - EUR invoice: invoice_number=1043, amount_currency=1000, currency_rate=11.42, bookkeep=true`,
+      inputSchema: CreateInvoicePaymentSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: CreateInvoicePaymentInput) => {
+      try {
+        // Look up the invoice for balance and currency
+        const invoiceResponse = await fortnoxRequest<InvoiceResponse>(
+          `/3/invoices/${params.invoice_number}`
+        );
+        const invoice = invoiceResponse.Invoice;
+
+        if (invoice.Cancelled) {
+          throw new ValidationError(`Invoice #${params.invoice_number} is cancelled and cannot receive payments.`);
+        }
+
+        const currency = invoice.Currency || "SEK";
+        const isForeignCurrency = currency !== "SEK";
+
+        const paymentData: Record<string, unknown> = {
+          InvoiceNumber: params.invoice_number,
+          PaymentDate: params.payment_date || getTodayString()
+        };
+
+        if (isForeignCurrency) {
+          const amountCurrency = params.amount_currency ?? invoice.Balance ?? 0;
+          const currencyRate = params.currency_rate ?? invoice.CurrencyRate ?? 1;
+          paymentData.AmountCurrency = amountCurrency;
+          paymentData.CurrencyRate = currencyRate;
+          paymentData.Amount = params.amount ?? roundAmount(amountCurrency * currencyRate);
+        } else {
+          paymentData.Amount = params.amount ?? invoice.Balance ?? 0;
+        }
+
+        if (!paymentData.Amount) {
+          throw new ValidationError(`Invoice #${params.invoice_number} has no remaining balance. Specify an amount to register a payment.`);
+        }
+
+        if (params.mode_of_payment) paymentData.ModeOfPayment = params.mode_of_payment;
+
+        const response = await fortnoxRequest<InvoicePaymentResponse>(
+          "/3/invoicepayments",
+          "POST",
+          { InvoicePayment: paymentData }
+        );
+        let payment = response.InvoicePayment;
+
+        if (params.bookkeep) {
+          const booked = await fortnoxRequest<InvoicePaymentResponse>(
+            `/3/invoicepayments/${encodeURIComponent(payment.Number)}/bookkeep`,
+            "PUT",
+            undefined,
+            undefined,
+            { readEndpoint: `/3/invoicepayments/${encodeURIComponent(payment.Number)}` }
+          );
+          payment = booked.InvoicePayment;
+        }
+
+        const output = {
+          success: true,
+          message: `Payment ${payment.Number} registered for invoice #${payment.InvoiceNumber}`,
+          payment_number: payment.Number,
+          invoice_number: payment.InvoiceNumber,
+          amount: payment.Amount ?? paymentData.Amount,
+          amount_currency: isForeignCurrency ? payment.AmountCurrency ?? paymentData.AmountCurrency : null,
+          currency,
+          currency_rate: isForeignCurrency ? payment.CurrencyRate ?? paymentData.CurrencyRate : null,
+          payment_date: payment.PaymentDate || paymentData.PaymentDate,
+          mode_of_payment: payment.ModeOfPayment || null,
+          booked: payment.Booked ?? params.bookkeep
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = [
+            "# Payment Registered",
+            "",
+            `**Payment Number**: ${output.payment_number}`,
+            `**Invoice**: #${output.invoice_number}${invoice.CustomerName ? ` (${invoice.CustomerName})` : ""}`,
+            `**Amount**: ${formatMoney(output.amount as number)}`
+          ];
+
+          if (isForeignCurrency) {
+            lines.push(`**Amount (${currency})**: ${formatMoney(output.amount_currency as number, currency)}`);
+            lines.push(`**Currency Rate**: ${output.currency_rate}`);
+          }
+
+          lines.push(`**Payment Date**: ${formatDisplayDate(output.payment_date as string)}`);
+          lines.push(`**Booked**: ${formatBoolean(output.booked)}`);
+          lines.push("");
+          lines.push(output.booked
+            ? "Payment has been booked."
+            : "Payment is not yet booked. Use `fortnox_bookkeep_invoice_payment` to bookkeep it.");
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Bookkeep invoice payment
+  server.registerTool(
+    "fortnox_bookkeep_invoice_payment",
+    {
+      title: "Bookkeep Invoice Payment",
+      description: `Bookkeep an invoice payment, creating the accounting entries. Once booked, the payment cannot be deleted.
+
+Args:
+  - payment_number (string): Invoice payment number to bookkeep (required)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Confirmation of bookkeeping.`,
+      inputSchema: InvoicePaymentActionSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: InvoicePaymentActionInput) => {
+      try {
+        const response = await fortnoxRequest<InvoicePaymentResponse>(
+          `/3/invoicepayments/${encodeURIComponent(params.payment_number)}/bookkeep`,
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/invoicepayments/${encodeURIComponent(params.payment_number)}` }
+        );
+        const payment = response.InvoicePayment;
+
+        const output = {
+          success: true,
+          message: `Payment ${payment.Number} has been booked`,
+          payment_number: payment.Number,
+          invoice_number: payment.InvoiceNumber,
+          amount: payment.Amount ?? null,
+          booked: true
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Payment Booked\n\n` +
+            `Payment **${payment.Number}** for invoice **#${payment.InvoiceNumber}** has been successfully booked.\n\n` +
+            `Accounting entries have been created.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Delete invoice payment
+  server.registerTool(
+    "fortnox_delete_invoice_payment",
+    {
+      title: "Delete Invoice Payment",
+      description: `Delete an invoice payment. Only unbooked payments can be deleted.
+
+WARNING: This action cannot be undone. The invoice balance is restored.
+
+Args:
+  - payment_number (string): Invoice payment number to delete (required)
+
+Returns:
+  Confirmation of deletion.`,
+      inputSchema: DeleteInvoicePaymentSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: DeleteInvoicePaymentInput) => {
+      try {
+        await fortnoxRequest(
+          `/3/invoicepayments/${encodeURIComponent(params.payment_number)}`,
+          "DELETE"
+        );
+
+        const output = {
+          success: true,
+          message: `Invoice payment ${params.payment_number} deleted successfully`
+        };
+
+        return buildToolResponse(
+          `# Payment Deleted\n\nInvoice payment **${params.payment_number}** has been successfully deleted.`,
+          output
+        );
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+}
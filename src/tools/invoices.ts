@@ -115,6 +115,7 @@ Args:
   - sortby ('customername' | 'customernumber' | 'documentnumber' | 'invoicedate' | 'total'): Field to sort by
   - sortorder ('ascending' | 'descending'): Sort order (default: ascending)
   - fetch_all (boolean): Fetch all results by auto-paginating (max 10,000 results)
+  - cursor (string): Continue a truncated fetch_all from its next_cursor
   - min_amount (number): Filter invoices >= this amount (client-side)
   - max_amount (number): Filter invoices <= this amount (client-side)
   - response_format ('markdown' | 'json'): Output format
@@ -171,20 +172,23 @@ Error Handling:
         let pagesFetched = 1;
         let truncated = false;
         let truncationReason: string | undefined;
+        let nextCursor: string | undefined;
 
-        if (params.fetch_all) {
+        if (params.fetch_all || params.cursor) {
           // Use fetchAllPages for complete dataset
           const result = await fetchAllPages<FortnoxInvoiceListItem, InvoiceListResponse>(
             "/3/invoices",
             queryParams,
             (r) => r.Invoices || [],
-            (r) => r.MetaInformation?.["@TotalResources"] || 0
+            (r) => r.MetaInformation?.["@TotalResources"] || 0,
+            { cursor: params.cursor }
           );
           invoices = result.items;
           total = result.total;
           pagesFetched = result.pagesFetched;
           truncated = result.truncated;
           truncationReason = result.truncationReason;
+          nextCursor = result.nextCursor;
         } else {
           // Single page request
           queryParams.limit = params.limit;
@@ -204,14 +208,15 @@ Error Handling:
         }
 
         // Build pagination metadata
-        const paginationMeta = params.fetch_all
+        const paginationMeta = params.fetch_all || params.cursor
           ? {
               total,
               count: invoices.length,
               fetched_all: true,
               pages_fetched: pagesFetched,
               truncated,
-              truncation_reason: truncationReason
+              truncation_reason: truncationReason,
+              next_cursor: nextCursor
             }
           : {
               ...buildPaginationMeta(total, params.page, params.limit, invoices.length),
@@ -243,7 +248,7 @@ Error Handling:
             ? `Invoices - ${getPeriodDescription(params.period)}`
             : "Invoices";
 
-          if (params.fetch_all) {
+          if (params.fetch_all || params.cursor) {
             // Custom formatting for fetch_all mode
             const lines: string[] = [
               `# ${title}`,
@@ -255,6 +260,9 @@ Error Handling:
             if (truncated) {
               lines.push("");
               lines.push(`⚠️ **Results truncated**: ${truncationReason}`);
+              if (nextCursor) {
+                lines.push(`**Next cursor** (pass as \`cursor\` to continue): \`${nextCursor}\``);
+              }
             }
 
             lines.push("");
@@ -622,7 +630,10 @@ Returns:
       try {
         const response = await fortnoxRequest<InvoiceResponse>(
           `/3/invoices/${encodeURIComponent(params.document_number)}/bookkeep`,
-          "PUT"
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/invoices/${encodeURIComponent(params.document_number)}` }
         );
         const invoice = response.Invoice;
 
@@ -674,7 +685,10 @@ Returns:
       try {
         const response = await fortnoxRequest<InvoiceResponse>(
           `/3/invoices/${encodeURIComponent(params.document_number)}/cancel`,
-          "PUT"
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/invoices/${encodeURIComponent(params.document_number)}` }
         );
         const invoice = response.Invoice;
 
@@ -725,7 +739,10 @@ Returns:
       try {
         const response = await fortnoxRequest<InvoiceResponse>(
           `/3/invoices/${encodeURIComponent(params.document_number)}/credit`,
-          "PUT"
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/invoices/${encodeURIComponent(params.document_number)}` }
         );
         const creditInvoice = response.Invoice;
 
@@ -781,7 +798,10 @@ Returns:
       try {
         const response = await fortnoxRequest<InvoiceResponse>(
           `/3/invoices/${encodeURIComponent(params.document_number)}/email`,
-          "PUT"
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/invoices/${encodeURIComponent(params.document_number)}` }
         );
         const invoice = response.Invoice;
 
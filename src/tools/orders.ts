@@ -143,19 +143,22 @@ export function registerOrderTools(server: McpServer): void {
         let pagesFetched = 1;
         let truncated = false;
         let truncationReason: string | undefined;
+        let nextCursor: string | undefined;
 
-        if (params.fetch_all) {
+        if (params.fetch_all || params.cursor) {
           const result = await fetchAllPages<FortnoxOrderListItem, OrderListResponse>(
             "/3/orders",
             queryParams,
             (r) => r.Orders || [],
-            (r) => r.MetaInformation?.["@TotalResources"] || 0
+            (r) => r.MetaInformation?.["@TotalResources"] || 0,
+            { cursor: params.cursor }
           );
           orders = result.items;
           total = result.total;
           pagesFetched = result.pagesFetched;
           truncated = result.truncated;
           truncationReason = result.truncationReason;
+          nextCursor = result.nextCursor;
         } else {
           queryParams.limit = params.limit;
           queryParams.page = params.page;
@@ -165,14 +168,15 @@ export function registerOrderTools(server: McpServer): void {
           total = response.MetaInformation?.["@TotalResources"] || orders.length;
         }
 
-        const paginationMeta = params.fetch_all
+        const paginationMeta = params.fetch_all || params.cursor
           ? {
               total,
               count: orders.length,
               fetched_all: true,
               pages_fetched: pagesFetched,
               truncated,
-              truncation_reason: truncationReason
+              truncation_reason: truncationReason,
+              next_cursor: nextCursor
             }
           : {
               ...buildPaginationMeta(total, params.page, params.limit, orders.length),
@@ -203,7 +207,7 @@ export function registerOrderTools(server: McpServer): void {
             ? `Orders - ${getPeriodDescription(params.period)}`
             : "Orders";
 
-          if (params.fetch_all) {
+          if (params.fetch_all || params.cursor) {
             const lines: string[] = [
               `# ${title}`,
               "",
@@ -214,6 +218,9 @@ export function registerOrderTools(server: McpServer): void {
             if (truncated) {
               lines.push("");
               lines.push(`**Results truncated**: ${truncationReason}`);
+              if (nextCursor) {
+                lines.push(`**Next cursor** (pass as \`cursor\` to continue): \`${nextCursor}\``);
+              }
             }
 
             lines.push("");
@@ -295,19 +302,22 @@ export function registerOrderTools(server: McpServer): void {
         let pagesFetched = 1;
         let truncated = false;
         let truncationReason: string | undefined;
+        let nextCursor: string | undefined;
 
-        if (params.fetch_all) {
+        if (params.fetch_all || params.cursor) {
           const result = await fetchAllPages<FortnoxOfferListItem, OfferListResponse>(
             "/3/offers",
             queryParams,
             (r) => r.Offers || [],
-            (r) => r.MetaInformation?.["@TotalResources"] || 0
+            (r) => r.MetaInformation?.["@TotalResources"] || 0,
+            { cursor: params.cursor }
           );
           offers = result.items;
           total = result.total;
           pagesFetched = result.pagesFetched;
           truncated = result.truncated;
           truncationReason = result.truncationReason;
+          nextCursor = result.nextCursor;
         } else {
           queryParams.limit = params.limit;
           queryParams.page = params.page;
@@ -317,14 +327,15 @@ export function registerOrderTools(server: McpServer): void {
           total = response.MetaInformation?.["@TotalResources"] || offers.length;
         }
 
-        const paginationMeta = params.fetch_all
+        const paginationMeta = params.fetch_all || params.cursor
           ? {
               total,
               count: offers.length,
               fetched_all: true,
               pages_fetched: pagesFetched,
               truncated,
-              truncation_reason: truncationReason
+              truncation_reason: truncationReason,
+              next_cursor: nextCursor
             }
           : {
               ...buildPaginationMeta(total, params.page, params.limit, offers.length),
@@ -356,7 +367,7 @@ export function registerOrderTools(server: McpServer): void {
             ? `Offers - ${getPeriodDescription(params.period)}`
             : "Offers";
 
-          if (params.fetch_all) {
+          if (params.fetch_all || params.cursor) {
             const lines: string[] = [
               `# ${title}`,
               "",
@@ -367,6 +378,9 @@ export function registerOrderTools(server: McpServer): void {
             if (truncated) {
               lines.push("");
               lines.push(`**Results truncated**: ${truncationReason}`);
+              if (nextCursor) {
+                lines.push(`**Next cursor** (pass as \`cursor\` to continue): \`${nextCursor}\``);
+              }
             }
 
             lines.push("");
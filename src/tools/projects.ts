@@ -0,0 +1,736 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fortnoxRequest, fetchAllPages } from "../services/api.js";
+import { ResponseFormat } from "../constants.js";
+import {
+  buildToolResponse,
+  buildErrorResponse,
+  formatDisplayDate,
+  formatListMarkdown,
+  formatDetailMarkdown,
+  buildPaginationMeta
+} from "../services/formatters.js";
+import {
+  ListProjectsSchema,
+  GetProjectSchema,
+  CreateProjectSchema,
+  UpdateProjectSchema,
+  ListCostCentersSchema,
+  GetCostCenterSchema,
+  CreateCostCenterSchema,
+  UpdateCostCenterSchema,
+  type ListProjectsInput,
+  type GetProjectInput,
+  type CreateProjectInput,
+  type UpdateProjectInput,
+  type ListCostCentersInput,
+  type GetCostCenterInput,
+  type CreateCostCenterInput,
+  type UpdateCostCenterInput
+} from "../schemas/projects.js";
+
+// API response types
+interface FortnoxProject {
+  ProjectNumber: string;
+  Description?: string;
+  Status?: string;
+  StartDate?: string;
+  EndDate?: string;
+  ProjectLeader?: string;
+  ContactPerson?: string;
+  Comments?: string;
+  "@url"?: string;
+}
+
+interface FortnoxProjectListItem {
+  ProjectNumber: string;
+  Description?: string;
+  Status?: string;
+  StartDate?: string;
+  EndDate?: string;
+  ProjectLeader?: string;
+  "@url"?: string;
+}
+
+interface ProjectListResponse {
+  Projects: FortnoxProjectListItem[];
+  MetaInformation?: {
+    "@TotalResources": number;
+    "@TotalPages": number;
+    "@CurrentPage": number;
+  };
+}
+
+interface ProjectResponse {
+  Project: FortnoxProject;
+}
+
+interface FortnoxCostCenter {
+  Code: string;
+  Description?: string;
+  Active?: boolean;
+  Note?: string;
+  "@url"?: string;
+}
+
+interface CostCenterListResponse {
+  CostCenters: FortnoxCostCenter[];
+  MetaInformation?: {
+    "@TotalResources": number;
+    "@TotalPages": number;
+    "@CurrentPage": number;
+  };
+}
+
+interface CostCenterResponse {
+  CostCenter: FortnoxCostCenter;
+}
+
+/**
+ * Register all project and cost center tools
+ */
+export function registerProjectTools(server: McpServer): void {
+  // List projects
+  server.registerTool(
+    "fortnox_list_projects",
+    {
+      title: "List Fortnox Projects",
+      description: `List projects from Fortnox.
+
+Projects are used as an accounting dimension on vouchers, invoices and supplier invoices.
+
+Args:
+  - limit (number): Max results per page, 1-100 (default: 20)
+  - page (number): Page number for pagination (default: 1)
+  - fetch_all (boolean): Fetch all results by auto-paginating (max 10,000 results)
+  - cursor (string): Continue a truncated fetch_all from its next_cursor
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  List of projects with project number, description, status, dates and project leader.`,
+      inputSchema: ListProjectsSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ListProjectsInput) => {
+      try {
+        let projects: FortnoxProjectListItem[];
+        let total: number;
+        let pagesFetched = 1;
+        let truncated = false;
+        let truncationReason: string | undefined;
+        let nextCursor: string | undefined;
+
+        if (params.fetch_all || params.cursor) {
+          const result = await fetchAllPages<FortnoxProjectListItem, ProjectListResponse>(
+            "/3/projects",
+            {},
+            (r) => r.Projects || [],
+            (r) => r.MetaInformation?.["@TotalResources"] || 0,
+            { cursor: params.cursor }
+          );
+          projects = result.items;
+          total = result.total;
+          pagesFetched = result.pagesFetched;
+          truncated = result.truncated;
+          truncationReason = result.truncationReason;
+          nextCursor = result.nextCursor;
+        } else {
+          const response = await fortnoxRequest<ProjectListResponse>("/3/projects", "GET", undefined, {
+            limit: params.limit,
+            page: params.page
+          });
+          projects = response.Projects || [];
+          total = response.MetaInformation?.["@TotalResources"] || projects.length;
+        }
+
+        const paginationMeta = params.fetch_all || params.cursor
+          ? {
+              total,
+              count: projects.length,
+              fetched_all: true,
+              pages_fetched: pagesFetched,
+              truncated,
+              truncation_reason: truncationReason,
+              next_cursor: nextCursor
+            }
+          : buildPaginationMeta(total, params.page, params.limit, projects.length);
+
+        const output = {
+          ...paginationMeta,
+          projects: projects.map((p) => ({
+            project_number: p.ProjectNumber,
+            description: p.Description || null,
+            status: p.Status || null,
+            start_date: p.StartDate || null,
+            end_date: p.EndDate || null,
+            project_leader: p.ProjectLeader || null
+          }))
+        };
+
+        const formatProject = (p: FortnoxProjectListItem): string =>
+          `## ${p.Description || p.ProjectNumber} (${p.ProjectNumber})\n` +
+          `- **Status**: ${p.Status || "-"}\n` +
+          `- **Period**: ${formatDisplayDate(p.StartDate)} - ${formatDisplayDate(p.EndDate)}` +
+          (p.ProjectLeader ? `\n- **Project Leader**: ${p.ProjectLeader}` : "");
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else if (params.fetch_all || params.cursor) {
+          const lines: string[] = [
+            "# Projects",
+            "",
+            `Showing ${projects.length} of ${total} total projects`,
+            `(${pagesFetched} pages fetched)`
+          ];
+
+          if (truncated) {
+            lines.push("");
+            lines.push(`**Results truncated**: ${truncationReason}`);
+            if (nextCursor) {
+              lines.push(`**Next cursor** (pass as \`cursor\` to continue): \`${nextCursor}\``);
+            }
+          }
+
+          lines.push("");
+
+          for (const p of projects) {
+            lines.push(formatProject(p));
+            lines.push("");
+          }
+
+          textContent = lines.join("\n");
+        } else {
+          textContent = formatListMarkdown(
+            "Projects",
+            projects,
+            total,
+            params.page,
+            params.limit,
+            formatProject
+          );
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Get single project
+  server.registerTool(
+    "fortnox_get_project",
+    {
+      title: "Get Fortnox Project",
+      description: `Retrieve detailed information about a specific project.
+
+Args:
+  - project_number (string): The project number to retrieve (required)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Complete project details including status, dates, project leader, contact person and comments.`,
+      inputSchema: GetProjectSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: GetProjectInput) => {
+      try {
+        const response = await fortnoxRequest<ProjectResponse>(
+          `/3/projects/${encodeURIComponent(params.project_number)}`
+        );
+        const project = response.Project;
+
+        const output = {
+          project_number: project.ProjectNumber,
+          description: project.Description || null,
+          status: project.Status || null,
+          start_date: project.StartDate || null,
+          end_date: project.EndDate || null,
+          project_leader: project.ProjectLeader || null,
+          contact_person: project.ContactPerson || null,
+          comments: project.Comments || null
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = formatDetailMarkdown(`Project: ${project.Description || project.ProjectNumber}`, [
+            { label: "Project Number", value: project.ProjectNumber },
+            { label: "Description", value: project.Description },
+            { label: "Status", value: project.Status },
+            { label: "Start Date", value: project.StartDate },
+            { label: "End Date", value: project.EndDate },
+            { label: "Project Leader", value: project.ProjectLeader },
+            { label: "Contact Person", value: project.ContactPerson },
+            { label: "Comments", value: project.Comments }
+          ]);
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Create project
+  server.registerTool(
+    "fortnox_create_project",
+    {
+      title: "Create Fortnox Project",
+      description: `Create a new project in Fortnox.
+
+Args:
+  - description (string): Project description/name (required)
+  - project_number (string): Project number (auto-generated if not provided)
+  - status ('NOTSTARTED' | 'ONGOING' | 'COMPLETED'): Project status
+  - start_date (string): Start date YYYY-MM-DD
+  - end_date (string): End date YYYY-MM-DD
+  - project_leader (string): Project leader
+  - contact_person (string): Contact person
+  - comments (string): Comments
+
+Returns:
+  The created project with assigned project number.`,
+      inputSchema: CreateProjectSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: CreateProjectInput) => {
+      try {
+        const projectData: Record<string, unknown> = {
+          Description: params.description
+        };
+
+        if (params.project_number) projectData.ProjectNumber = params.project_number;
+        if (params.status) projectData.Status = params.status;
+        if (params.start_date) projectData.StartDate = params.start_date;
+        if (params.end_date) projectData.EndDate = params.end_date;
+        if (params.project_leader) projectData.ProjectLeader = params.project_leader;
+        if (params.contact_person) projectData.ContactPerson = params.contact_person;
+        if (params.comments) projectData.Comments = params.comments;
+
+        const response = await fortnoxRequest<ProjectResponse>(
+          "/3/projects",
+          "POST",
+          { Project: projectData }
+        );
+        const project = response.Project;
+
+        const output = {
+          success: true,
+          message: `Project "${project.Description || project.ProjectNumber}" created successfully`,
+          project_number: project.ProjectNumber,
+          description: project.Description || null,
+          status: project.Status || null
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Project Created\n\n` +
+            `**Project Number**: ${project.ProjectNumber}\n` +
+            `**Description**: ${project.Description || "-"}\n` +
+            `**Status**: ${project.Status || "-"}\n\n` +
+            `Project has been successfully created in Fortnox.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Update project
+  server.registerTool(
+    "fortnox_update_project",
+    {
+      title: "Update Fortnox Project",
+      description: `Update an existing project in Fortnox.
+
+Args:
+  - project_number (string): Project number to update (required)
+  - description, status, start_date, end_date, project_leader, contact_person, comments:
+    Fields to update (only provided fields are changed)
+
+Returns:
+  The updated project details.`,
+      inputSchema: UpdateProjectSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: UpdateProjectInput) => {
+      try {
+        const projectData: Record<string, unknown> = {};
+
+        if (params.description) projectData.Description = params.description;
+        if (params.status) projectData.Status = params.status;
+        if (params.start_date) projectData.StartDate = params.start_date;
+        if (params.end_date) projectData.EndDate = params.end_date;
+        if (params.project_leader) projectData.ProjectLeader = params.project_leader;
+        if (params.contact_person) projectData.ContactPerson = params.contact_person;
+        if (params.comments) projectData.Comments = params.comments;
+
+        const response = await fortnoxRequest<ProjectResponse>(
+          `/3/projects/${encodeURIComponent(params.project_number)}`,
+          "PUT",
+          { Project: projectData }
+        );
+        const project = response.Project;
+
+        const output = {
+          success: true,
+          message: `Project "${project.Description || project.ProjectNumber}" updated successfully`,
+          project_number: project.ProjectNumber,
+          description: project.Description || null,
+          status: project.Status || null
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Project Updated\n\n` +
+            `**Project Number**: ${project.ProjectNumber}\n` +
+            `**Description**: ${project.Description || "-"}\n` +
+            `**Status**: ${project.Status || "-"}\n\n` +
+            `Project has been successfully updated.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // List cost centers
+  server.registerTool(
+    "fortnox_list_cost_centers",
+    {
+      title: "List Fortnox Cost Centers",
+      description: `List cost centers (departments/result units) from Fortnox.
+
+Cost centers are used as an accounting dimension on vouchers and supplier invoice rows.
+
+Args:
+  - limit (number): Max results per page, 1-100 (default: 20)
+  - page (number): Page number for pagination (default: 1)
+  - fetch_all (boolean): Fetch all results by auto-paginating (max 10,000 results)
+  - cursor (string): Continue a truncated fetch_all from its next_cursor
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  List of cost centers with code, description and active status.`,
+      inputSchema: ListCostCentersSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ListCostCentersInput) => {
+      try {
+        let costCenters: FortnoxCostCenter[];
+        let total: number;
+        let pagesFetched = 1;
+        let truncated = false;
+        let truncationReason: string | undefined;
+        let nextCursor: string | undefined;
+
+        if (params.fetch_all || params.cursor) {
+          const result = await fetchAllPages<FortnoxCostCenter, CostCenterListResponse>(
+            "/3/costcenters",
+            {},
+            (r) => r.CostCenters || [],
+            (r) => r.MetaInformation?.["@TotalResources"] || 0,
+            { cursor: params.cursor }
+          );
+          costCenters = result.items;
+          total = result.total;
+          pagesFetched = result.pagesFetched;
+          truncated = result.truncated;
+          truncationReason = result.truncationReason;
+          nextCursor = result.nextCursor;
+        } else {
+          const response = await fortnoxRequest<CostCenterListResponse>("/3/costcenters", "GET", undefined, {
+            limit: params.limit,
+            page: params.page
+          });
+          costCenters = response.CostCenters || [];
+          total = response.MetaInformation?.["@TotalResources"] || costCenters.length;
+        }
+
+        const paginationMeta = params.fetch_all || params.cursor
+          ? {
+              total,
+              count: costCenters.length,
+              fetched_all: true,
+              pages_fetched: pagesFetched,
+              truncated,
+              truncation_reason: truncationReason,
+              next_cursor: nextCursor
+            }
+          : buildPaginationMeta(total, params.page, params.limit, costCenters.length);
+
+        const output = {
+          ...paginationMeta,
+          cost_centers: costCenters.map((cc) => ({
+            code: cc.Code,
+            description: cc.Description || null,
+            active: cc.Active ?? true,
+            note: cc.Note || null
+          }))
+        };
+
+        const formatCostCenter = (cc: FortnoxCostCenter): string =>
+          `- **${cc.Code}**: ${cc.Description || "-"}${cc.Active === false ? " *(inactive)*" : ""}`;
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else if (params.fetch_all || params.cursor) {
+          const lines: string[] = [
+            "# Cost Centers",
+            "",
+            `Showing ${costCenters.length} of ${total} total cost centers`,
+            `(${pagesFetched} pages fetched)`
+          ];
+
+          if (truncated) {
+            lines.push("");
+            lines.push(`**Results truncated**: ${truncationReason}`);
+            if (nextCursor) {
+              lines.push(`**Next cursor** (pass as \`cursor\` to continue): \`${nextCursor}\``);
+            }
+          }
+
+          lines.push("");
+
+          for (const cc of costCenters) {
+            lines.push(formatCostCenter(cc));
+          }
+
+          textContent = lines.join("\n");
+        } else {
+          textContent = formatListMarkdown(
+            "Cost Centers",
+            costCenters,
+            total,
+            params.page,
+            params.limit,
+            formatCostCenter
+          );
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Get single cost center
+  server.registerTool(
+    "fortnox_get_cost_center",
+    {
+      title: "Get Fortnox Cost Center",
+      description: `Retrieve detailed information about a specific cost center.
+
+Args:
+  - code (string): The cost center code to retrieve (required)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Cost center details including description, active status and note.`,
+      inputSchema: GetCostCenterSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: GetCostCenterInput) => {
+      try {
+        const response = await fortnoxRequest<CostCenterResponse>(
+          `/3/costcenters/${encodeURIComponent(params.code)}`
+        );
+        const costCenter = response.CostCenter;
+
+        const output = {
+          code: costCenter.Code,
+          description: costCenter.Description || null,
+          active: costCenter.Active ?? true,
+          note: costCenter.Note || null
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = formatDetailMarkdown(`Cost Center ${costCenter.Code}`, [
+            { label: "Code", value: costCenter.Code },
+            { label: "Description", value: costCenter.Description },
+            { label: "Active", value: costCenter.Active ?? true },
+            { label: "Note", value: costCenter.Note }
+          ]);
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Create cost center
+  server.registerTool(
+    "fortnox_create_cost_center",
+    {
+      title: "Create Fortnox Cost Center",
+      description: `Create a new cost center in Fortnox.
+
+Args:
+  - code (string): Cost center code, max 6 characters (required)
+  - description (string): Cost center description (required)
+  - active (boolean): Whether the cost center is active (default: true)
+  - note (string): Note about the cost center
+
+Returns:
+  The created cost center.`,
+      inputSchema: CreateCostCenterSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: CreateCostCenterInput) => {
+      try {
+        const costCenterData: Record<string, unknown> = {
+          Code: params.code,
+          Description: params.description
+        };
+
+        if (params.active !== undefined) costCenterData.Active = params.active;
+        if (params.note) costCenterData.Note = params.note;
+
+        const response = await fortnoxRequest<CostCenterResponse>(
+          "/3/costcenters",
+          "POST",
+          { CostCenter: costCenterData }
+        );
+        const costCenter = response.CostCenter;
+
+        const output = {
+          success: true,
+          message: `Cost center ${costCenter.Code} created successfully`,
+          code: costCenter.Code,
+          description: costCenter.Description || null
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Cost Center Created\n\n` +
+            `**Code**: ${costCenter.Code}\n` +
+            `**Description**: ${costCenter.Description || "-"}\n\n` +
+            `Cost center has been successfully created in Fortnox.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Update cost center
+  server.registerTool(
+    "fortnox_update_cost_center",
+    {
+      title: "Update Fortnox Cost Center",
+      description: `Update an existing cost center in Fortnox.
+
+Args:
+  - code (string): Cost center code to update (required)
+  - description (string): New description
+  - active (boolean): Whether the cost center is active
+  - note (string): Note about the cost center
+
+Returns:
+  The updated cost center.`,
+      inputSchema: UpdateCostCenterSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: UpdateCostCenterInput) => {
+      try {
+        const costCenterData: Record<string, unknown> = {};
+
+        if (params.description) costCenterData.Description = params.description;
+        if (params.active !== undefined) costCenterData.Active = params.active;
+        if (params.note) costCenterData.Note = params.note;
+
+        const response = await fortnoxRequest<CostCenterResponse>(
+          `/3/costcenters/${encodeURIComponent(params.code)}`,
+          "PUT",
+          { CostCenter: costCenterData }
+        );
+        const costCenter = response.CostCenter;
+
+        const output = {
+          success: true,
+          message: `Cost center ${costCenter.Code} updated successfully`,
+          code: costCenter.Code,
+          description: costCenter.Description || null,
+          active: costCenter.Active ?? true
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Cost Center Updated\n\n` +
+            `**Code**: ${costCenter.Code}\n` +
+            `**Description**: ${costCenter.Description || "-"}\n` +
+            `**Active**: ${costCenter.Active === false ? "No" : "Yes"}\n\n` +
+            `Cost center has been successfully updated.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+}
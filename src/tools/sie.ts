@@ -0,0 +1,634 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fortnoxDownload, fetchAllPages } from "../services/api.js";
+import { ResponseFormat, SIE_RESOURCE_CHARACTER_LIMIT } from "../constants.js";
+import {
+  buildToolResponse,
+  buildErrorResponse,
+  formatMoney,
+  formatDisplayDate,
+  truncateText
+} from "../services/formatters.js";
+import { ValidationError } from "../services/errors.js";
+import { decodeSie, parseSie, type SieFile, type SieVoucher } from "../services/sieParser.js";
+import { createVoucher, sumVoucherRows, getVoucherBalanceError, type VoucherDraft } from "../services/voucherWriter.js";
+import { getToolCallState, DryRunInterrupt } from "../services/toolCallContext.js";
+import { CreateVoucherSchema, type VoucherRowInput } from "../schemas/vouchers.js";
+import {
+  ExportSieSchema,
+  ImportSieSchema,
+  type ExportSieInput,
+  type ImportSieInput
+} from "../schemas/sie.js";
+
+// API response types
+interface FortnoxAccountListItem {
+  Number: number;
+  Description: string;
+  Active?: boolean;
+}
+
+interface AccountListResponse {
+  Accounts: FortnoxAccountListItem[];
+  MetaInformation?: {
+    "@TotalResources": number;
+  };
+}
+
+// Maximum accounts listed in the markdown summary
+const SUMMARY_ACCOUNT_LIMIT = 100;
+
+// SIE dimension numbers for cost center and project
+const SIE_DIMENSION_COST_CENTER = "1";
+const SIE_DIMENSION_PROJECT = "6";
+
+/**
+ * Balances per account for the current year (year index 0) of a SIE file
+ */
+function summarizeAccounts(sie: SieFile): Array<{
+  number: string;
+  name: string;
+  opening_balance: number | null;
+  closing_balance: number | null;
+  result: number | null;
+}> {
+  const pick = (balances: SieFile["openingBalances"]) => {
+    const map = new Map<string, number>();
+    for (const b of balances) {
+      if (b.yearIndex === 0) map.set(b.account, b.amount);
+    }
+    return map;
+  };
+  const opening = pick(sie.openingBalances);
+  const closing = pick(sie.closingBalances);
+  const results = pick(sie.results);
+
+  return sie.accounts
+    .map(account => ({
+      number: account.number,
+      name: account.name,
+      opening_balance: opening.get(account.number) ?? null,
+      closing_balance: closing.get(account.number) ?? null,
+      result: results.get(account.number) ?? null
+    }))
+    .filter(a => a.opening_balance !== null || a.closing_balance !== null || a.result !== null)
+    .sort((a, b) => a.number.localeCompare(b.number));
+}
+
+/**
+ * Convert a SIE voucher to a voucher draft and collect validation issues
+ * (CreateVoucherSchema/VoucherRowSchema rules, balance, and accounts known to Fortnox)
+ */
+function sieVoucherToDraft(
+  voucher: SieVoucher,
+  params: ImportSieInput,
+  fortnoxAccounts: Map<number, FortnoxAccountListItem>
+): { draft: VoucherDraft; issues: string[] } {
+  const issues: string[] = [];
+  const rows: VoucherRowInput[] = [];
+
+  for (const trans of voucher.transactions) {
+    // Zero rows carry no amount and are not allowed by Fortnox
+    if (Math.round(trans.amount * 100) === 0) continue;
+
+    const accountNumber = params.account_mapping?.[trans.account] ?? Number(trans.account);
+    const row: VoucherRowInput = { account_number: accountNumber };
+    const amount = Math.round(Math.abs(trans.amount) * 100) / 100;
+    if (trans.amount > 0) {
+      row.debit = amount;
+    } else {
+      row.credit = amount;
+    }
+    if (trans.text) row.description = trans.text.substring(0, 200);
+
+    const costCenter = trans.objects.find(o => o.dimension === SIE_DIMENSION_COST_CENTER);
+    const project = trans.objects.find(o => o.dimension === SIE_DIMENSION_PROJECT);
+    if (costCenter) row.cost_center = costCenter.object;
+    if (project) row.project = project.object;
+
+    rows.push(row);
+
+    const account = fortnoxAccounts.get(accountNumber);
+    if (!account) {
+      issues.push(`Account ${accountNumber} does not exist in Fortnox`);
+    } else if (account.Active === false) {
+      issues.push(`Account ${accountNumber} is inactive in Fortnox`);
+    }
+  }
+
+  const draft: VoucherDraft = {
+    voucher_series: params.voucher_series || voucher.series,
+    description: (voucher.text || `SIE ${voucher.series}${voucher.number}`).substring(0, 200),
+    transaction_date: voucher.date,
+    rows
+  };
+
+  const validation = CreateVoucherSchema.safeParse(draft);
+  if (!validation.success) {
+    for (const issue of validation.error.issues) {
+      issues.push(`${issue.path.join(".") || "voucher"}: ${issue.message}`);
+    }
+  }
+
+  const balanceError = getVoucherBalanceError(rows);
+  if (balanceError) issues.push(balanceError);
+
+  return { draft, issues: Array.from(new Set(issues)) };
+}
+
+/**
+ * Register SIE export and import tools
+ */
+export function registerSieTools(server: McpServer): void {
+  // Export SIE file
+  server.registerTool(
+    "fortnox_export_sie",
+    {
+      title: "Export SIE File",
+      description: `Export the general ledger for a financial year as a standard SIE file (types 1-4).
+
+SIE is the Swedish accounting exchange format accepted by auditors and most BI/accounting tools.
+
+Args:
+  - financial_year (number): Fortnox financial year ID from fortnox_list_financial_years (required)
+  - sie_type (1-4): 1 = year-end balances, 2 = period balances, 3 = object balances, 4 = transactions (default: 4)
+  - output ('summary' | 'raw'): Parsed summary, or the SIE file as an embedded resource (default: summary)
+  - max_vouchers (number): Vouchers to list in the summary (default: 20)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  summary: company, financial year, accounts with opening/closing balances and results,
+           voucher counts per series and a voucher sample.
+  raw: the complete SIE file (text/plain resource) for handing to auditors or other tools.
+       Files over ${SIE_RESOURCE_CHARACTER_LIMIT.toLocaleString("en-US")} characters are not attached; the response says so and
+       suggests a smaller export (SIE 1/2 balances, or fortnox_list_vouchers for a narrower period).
+
+Examples:
+  - Full SIE4 for auditors: financial_year=3, output="raw"
+  - Overview of the ledger: financial_year=3`,
+      inputSchema: ExportSieSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: ExportSieInput) => {
+      try {
+        const buffer = await fortnoxDownload(`/3/sie/${params.sie_type}`, {
+          financialyear: params.financial_year
+        });
+        const content = decodeSie(buffer);
+        const sie = parseSie(content);
+        const year = sie.financialYears.find(y => y.index === 0);
+
+        if (params.output === "raw") {
+          const filename = year
+            ? `SIE${params.sie_type}_${year.fromDate}_${year.toDate}.se`
+            : `SIE${params.sie_type}_year${params.financial_year}.se`;
+          const uri = `fortnox://sie/${params.sie_type}?financialyear=${params.financial_year}`;
+
+          // A cut-off SIE file would be invalid, so an oversized file is left out entirely
+          const tooLarge = content.length > SIE_RESOURCE_CHARACTER_LIMIT;
+          const suggestion = params.sie_type === 4
+            ? "Export sie_type 1 or 2 for balances only, use output=\"summary\", or list a narrower period's transactions with fortnox_list_vouchers (from_date/to_date)."
+            : "Use output=\"summary\" for the parsed balances instead.";
+
+          const output = {
+            sie_type: params.sie_type,
+            financial_year_id: params.financial_year,
+            filename,
+            uri,
+            bytes: buffer.length,
+            characters: content.length,
+            attached: !tooLarge,
+            company_name: sie.companyName || null,
+            from_date: year?.fromDate || null,
+            to_date: year?.toDate || null,
+            ...(tooLarge ? {
+              note: `The SIE file has ${content.length} characters, more than the ${SIE_RESOURCE_CHARACTER_LIMIT} that can be returned, and was not attached. ${suggestion}`
+            } : {})
+          };
+
+          const textContent = params.response_format === ResponseFormat.JSON
+            ? JSON.stringify(output, null, 2)
+            : `# SIE ${params.sie_type} Export\n\n` +
+              `**File**: ${filename} (${buffer.length.toLocaleString("sv-SE")} bytes)\n` +
+              (sie.companyName ? `**Company**: ${sie.companyName}\n` : "") +
+              (year ? `**Financial Year**: ${formatDisplayDate(year.fromDate)} - ${formatDisplayDate(year.toDate)}\n` : "") +
+              (tooLarge
+                ? `\n**The SIE file was not attached**: it has ${content.length.toLocaleString("sv-SE")} characters, ` +
+                  `more than the limit of ${SIE_RESOURCE_CHARACTER_LIMIT.toLocaleString("sv-SE")}. ${suggestion}`
+                : `\nThe SIE file is attached as a resource (decoded from PC8 to UTF-8 text).`);
+
+          return {
+            content: [
+              { type: "text" as const, text: textContent },
+              ...(tooLarge ? [] : [{
+                type: "resource" as const,
+                resource: { uri, mimeType: "text/plain", text: content }
+              }])
+            ],
+            structuredContent: { ...output, api_retries: getToolCallState()?.retries ?? 0 }
+          };
+        }
+
+        // Summary
+        const accounts = summarizeAccounts(sie);
+        const seriesCounts = new Map<string, number>();
+        let transactionCount = 0;
+        let unbalancedVouchers = 0;
+        for (const voucher of sie.vouchers) {
+          seriesCounts.set(voucher.series, (seriesCounts.get(voucher.series) || 0) + 1);
+          transactionCount += voucher.transactions.length;
+          const sum = voucher.transactions.reduce((s, t) => s + t.amount, 0);
+          if (Math.abs(sum) >= 0.005) unbalancedVouchers++;
+        }
+
+        const output = {
+          sie_type: sie.sieType ?? params.sie_type,
+          financial_year_id: params.financial_year,
+          company_name: sie.companyName || null,
+          organization_number: sie.organizationNumber || null,
+          program: sie.program || null,
+          generated_date: sie.generatedDate || null,
+          from_date: year?.fromDate || null,
+          to_date: year?.toDate || null,
+          counts: {
+            accounts: sie.accounts.length,
+            accounts_with_balances: accounts.length,
+            opening_balances: sie.openingBalances.length,
+            closing_balances: sie.closingBalances.length,
+            results: sie.results.length,
+            period_balances: sie.periodBalances.length,
+            dimensions: sie.dimensions.length,
+            objects: sie.objects.length,
+            vouchers: sie.vouchers.length,
+            transactions: transactionCount
+          },
+          unbalanced_vouchers: unbalancedVouchers,
+          voucher_series: Array.from(seriesCounts.entries())
+            .map(([series, count]) => ({ series, count }))
+            .sort((a, b) => a.series.localeCompare(b.series)),
+          accounts,
+          vouchers: sie.vouchers.slice(0, params.max_vouchers).map(v => ({
+            series: v.series,
+            number: v.number,
+            date: v.date,
+            text: v.text,
+            rows: v.transactions.length,
+            amount: Math.round(v.transactions
+              .filter(t => t.amount > 0)
+              .reduce((s, t) => s + t.amount, 0) * 100) / 100
+          })),
+          warnings: sie.warnings
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = [
+            `# SIE ${output.sie_type} Export Summary`,
+            ""
+          ];
+          if (sie.companyName) {
+            lines.push(`**Company**: ${sie.companyName}${sie.organizationNumber ? ` (${sie.organizationNumber})` : ""}`);
+          }
+          if (year) {
+            lines.push(`**Financial Year**: ${formatDisplayDate(year.fromDate)} - ${formatDisplayDate(year.toDate)}`);
+          }
+          if (sie.program) lines.push(`**Program**: ${sie.program}`);
+          lines.push("");
+
+          lines.push("## Contents");
+          lines.push("");
+          lines.push("| Item | Count |");
+          lines.push("|------|-------|");
+          lines.push(`| Accounts | ${output.counts.accounts} |`);
+          lines.push(`| Opening Balances (#IB) | ${output.counts.opening_balances} |`);
+          lines.push(`| Closing Balances (#UB) | ${output.counts.closing_balances} |`);
+          lines.push(`| Results (#RES) | ${output.counts.results} |`);
+          if (output.counts.period_balances > 0) lines.push(`| Period Balances (#PSALDO) | ${output.counts.period_balances} |`);
+          if (output.counts.objects > 0) lines.push(`| Objects (#OBJEKT) | ${output.counts.objects} |`);
+          lines.push(`| Vouchers | ${output.counts.vouchers} |`);
+          lines.push(`| Transactions | ${output.counts.transactions} |`);
+
+          if (unbalancedVouchers > 0) {
+            lines.push("");
+            lines.push(`⚠️ ${unbalancedVouchers} voucher(s) do not balance.`);
+          }
+
+          if (output.voucher_series.length > 0) {
+            lines.push("");
+            lines.push("## Vouchers per Series");
+            lines.push("");
+            lines.push("| Series | Vouchers |");
+            lines.push("|--------|----------|");
+            for (const s of output.voucher_series) {
+              lines.push(`| ${s.series} | ${s.count} |`);
+            }
+          }
+
+          if (accounts.length > 0) {
+            lines.push("");
+            lines.push("## Account Balances");
+            lines.push("");
+            lines.push("| Account | Name | Opening | Closing | Result |");
+            lines.push("|---------|------|---------|---------|--------|");
+            for (const a of accounts.slice(0, SUMMARY_ACCOUNT_LIMIT)) {
+              lines.push(
+                `| ${a.number} | ${truncateText(a.name, 40)} ` +
+                `| ${a.opening_balance !== null ? formatMoney(a.opening_balance) : "-"} ` +
+                `| ${a.closing_balance !== null ? formatMoney(a.closing_balance) : "-"} ` +
+                `| ${a.result !== null ? formatMoney(a.result) : "-"} |`
+              );
+            }
+            if (accounts.length > SUMMARY_ACCOUNT_LIMIT) {
+              lines.push("");
+              lines.push(`*Showing ${SUMMARY_ACCOUNT_LIMIT} of ${accounts.length} accounts. Use response_format="json" for all.*`);
+            }
+          }
+
+          if (output.vouchers.length > 0) {
+            lines.push("");
+            lines.push("## Vouchers");
+            lines.push("");
+            lines.push("| Voucher | Date | Text | Rows | Amount |");
+            lines.push("|---------|------|------|------|--------|");
+            for (const v of output.vouchers) {
+              lines.push(`| ${v.series}${v.number} | ${v.date} | ${truncateText(v.text, 40)} | ${v.rows} | ${formatMoney(v.amount)} |`);
+            }
+            if (sie.vouchers.length > output.vouchers.length) {
+              lines.push("");
+              lines.push(`*Showing ${output.vouchers.length} of ${sie.vouchers.length} vouchers. Use output="raw" for the complete file.*`);
+            }
+          }
+
+          if (sie.warnings.length > 0) {
+            lines.push("");
+            lines.push(`**Parse warnings**: ${sie.warnings.length} line(s) could not be parsed.`);
+          }
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Import vouchers from SIE4
+  server.registerTool(
+    "fortnox_import_sie",
+    {
+      title: "Import Vouchers from SIE4",
+      description: `Import vouchers (#VER/#TRANS) from a SIE4 file, e.g. when migrating from another ledger.
+
+Every voucher is validated with the same rules as fortnox_create_voucher (balanced, at least two rows,
+valid accounts) and its accounts are checked against the Fortnox chart of accounts (/3/accounts).
+SIE dimension 1 is mapped to cost center and dimension 6 to project. Zero-amount rows are dropped.
+
+Runs as a dry run by default: review the preview, then call again with dry_run=false to create
+the vouchers through the fortnox_create_voucher request path. Created vouchers cannot be deleted,
+so the call with dry_run=false returns a confirmation_token first; call again with the same
+arguments and the token to create them.
+
+Vouchers are created in file order and the import stops at the first voucher Fortnox rejects.
+The result lists the source vouchers created so far in skip_sources; call again with the same
+content and skip_sources to continue without duplicating them.
+
+Args:
+  - content (string): SIE4 file contents (required)
+  - dry_run (boolean): Preview only (default: true)
+  - voucher_series (string): Create all vouchers in this series instead of the file's series
+  - account_mapping (object): SIE account -> Fortnox account, e.g. {"1930": 1920}
+  - skip_invalid (boolean): Skip invalid vouchers instead of aborting (default: false)
+  - skip_sources (string[]): Source vouchers (e.g. 'A12') to skip, from an earlier import that stopped
+  - max_vouchers (number): Maximum vouchers to import (default: 200)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Per-voucher validation results, unknown accounts, and (when not a dry run) the created voucher numbers.`,
+      inputSchema: ImportSieSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: ImportSieInput) => {
+      try {
+        const sie = parseSie(params.content);
+        if (sie.vouchers.length === 0) {
+          throw new ValidationError("No vouchers (#VER) found in the SIE content. Only SIE type 4 files contain vouchers.");
+        }
+
+        const accountsResult = await fetchAllPages<FortnoxAccountListItem, AccountListResponse>(
+          "/3/accounts",
+          {},
+          (r) => r.Accounts || [],
+          (r) => r.MetaInformation?.["@TotalResources"] || 0
+        );
+        const fortnoxAccounts = new Map(accountsResult.items.map(a => [a.Number, a]));
+        const sieAccountNames = new Map(sie.accounts.map(a => [a.number, a.name]));
+
+        const vouchers = sie.vouchers.slice(0, params.max_vouchers);
+        const prepared = vouchers.map(voucher => ({
+          voucher,
+          ...sieVoucherToDraft(voucher, params, fortnoxAccounts)
+        }));
+
+        // Accounts used by the file that Fortnox doesn't know
+        const unknownAccounts = new Map<number, { sie_account: string; name: string }>();
+        for (const { voucher } of prepared) {
+          for (const trans of voucher.transactions) {
+            if (Math.round(trans.amount * 100) === 0) continue;
+            const accountNumber = params.account_mapping?.[trans.account] ?? Number(trans.account);
+            if (!fortnoxAccounts.has(accountNumber) && !unknownAccounts.has(accountNumber)) {
+              unknownAccounts.set(accountNumber, {
+                sie_account: trans.account,
+                name: sieAccountNames.get(trans.account) || ""
+              });
+            }
+          }
+        }
+
+        const invalidCount = prepared.filter(p => p.issues.length > 0).length;
+
+        if (!params.dry_run && invalidCount > 0 && !params.skip_invalid) {
+          throw new ValidationError(
+            `${invalidCount} of ${prepared.length} vouchers failed validation. ` +
+            `Fix them (e.g. with account_mapping), or set skip_invalid=true to import only the valid ones. ` +
+            `Run with dry_run=true to see the issues.`
+          );
+        }
+
+        const results = prepared.map(p => ({
+          source: `${p.voucher.series}${p.voucher.number}`,
+          voucher_series: p.draft.voucher_series,
+          transaction_date: p.draft.transaction_date,
+          description: p.draft.description,
+          amount: sumVoucherRows(p.draft.rows).totalDebit,
+          rows: p.draft.rows,
+          valid: p.issues.length === 0,
+          issues: p.issues,
+          skipped: false,
+          created_voucher: null as string | null,
+          error: null as string | null
+        }));
+
+        const skipSources = new Set(params.skip_sources || []);
+        for (const result of results) {
+          result.skipped = result.valid && skipSources.has(result.source);
+        }
+
+        let createdCount = 0;
+        let failedCount = 0;
+        let stoppedAt: string | null = null;
+
+        if (!params.dry_run) {
+          // Sequential creation keeps voucher numbers in file order. Stop at the first
+          // failure, so a retry with skip_sources continues exactly where this run stopped.
+          for (let i = 0; i < prepared.length; i++) {
+            if (!results[i].valid || results[i].skipped) continue;
+            try {
+              const created = await createVoucher(prepared[i].draft);
+              results[i].created_voucher = `${created.VoucherSeries}${created.VoucherNumber}`;
+              createdCount++;
+            } catch (error) {
+              // Awaiting confirmation: collect every voucher for the preview
+              if (error instanceof DryRunInterrupt) continue;
+              results[i].error = error instanceof Error ? error.message : String(error);
+              failedCount++;
+              stoppedAt = results[i].source;
+              break;
+            }
+          }
+        }
+
+        // Source vouchers a retry must skip: skipped before, or created by this run
+        const nextSkipSources = results
+          .filter(r => r.skipped || r.created_voucher)
+          .map(r => r.source);
+        const notAttempted = stoppedAt
+          ? results.filter(r => r.valid && !r.skipped && !r.created_voucher && !r.error).length
+          : 0;
+
+        const output = {
+          dry_run: params.dry_run,
+          company_name: sie.companyName || null,
+          program: sie.program || null,
+          summary: {
+            vouchers_in_file: sie.vouchers.length,
+            vouchers_processed: prepared.length,
+            valid: prepared.length - invalidCount,
+            invalid: invalidCount,
+            skipped: results.filter(r => r.skipped).length,
+            created: createdCount,
+            failed: failedCount,
+            not_attempted: notAttempted,
+            total_amount: Math.round(results.reduce((sum, r) => sum + r.amount, 0) * 100) / 100
+          },
+          unknown_accounts: Array.from(unknownAccounts.entries())
+            .map(([account, info]) => ({ account, ...info }))
+            .sort((a, b) => a.account - b.account),
+          stopped_at: stoppedAt,
+          skip_sources: nextSkipSources,
+          vouchers: results,
+          truncated: sie.vouchers.length > prepared.length,
+          parse_warnings: sie.warnings
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = [
+            params.dry_run ? "# SIE Import Preview (Dry Run)" : "# SIE Import Result",
+            ""
+          ];
+          if (sie.companyName) lines.push(`**Source Company**: ${sie.companyName}`);
+          if (sie.program) lines.push(`**Source Program**: ${sie.program}`);
+          lines.push("");
+
+          lines.push("## Summary");
+          lines.push("");
+          lines.push("| Metric | Value |");
+          lines.push("|--------|-------|");
+          lines.push(`| Vouchers in File | ${output.summary.vouchers_in_file} |`);
+          lines.push(`| Processed | ${output.summary.vouchers_processed} |`);
+          lines.push(`| Valid | ${output.summary.valid} |`);
+          lines.push(`| Invalid | ${output.summary.invalid} |`);
+          if (output.summary.skipped > 0) {
+            lines.push(`| Skipped (skip_sources) | ${output.summary.skipped} |`);
+          }
+          if (!params.dry_run) {
+            lines.push(`| **Created** | **${createdCount}** |`);
+            lines.push(`| Failed | ${failedCount} |`);
+            if (stoppedAt) lines.push(`| Not Attempted | ${notAttempted} |`);
+          }
+          lines.push(`| Total Amount | ${formatMoney(output.summary.total_amount)} |`);
+
+          if (stoppedAt) {
+            lines.push("");
+            lines.push("## Import Stopped");
+            lines.push("");
+            lines.push(`Creating source voucher ${stoppedAt} failed, so the import stopped there.`);
+            lines.push("Fix the problem and run again with the same content and these skip_sources, so the vouchers already created are not created twice:");
+            lines.push("");
+            lines.push(`\`${JSON.stringify(nextSkipSources)}\``);
+          }
+
+          if (output.truncated) {
+            lines.push("");
+            lines.push(`**Note**: Only the first ${prepared.length} vouchers were processed (max_vouchers).`);
+          }
+
+          if (output.unknown_accounts.length > 0) {
+            lines.push("");
+            lines.push("## Accounts Missing in Fortnox");
+            lines.push("");
+            lines.push("| Account | SIE Account | Name |");
+            lines.push("|---------|-------------|------|");
+            for (const a of output.unknown_accounts) {
+              lines.push(`| ${a.account} | ${a.sie_account} | ${a.name || "-"} |`);
+            }
+            lines.push("");
+            lines.push("Create these accounts or map them with `account_mapping`.");
+          }
+
+          lines.push("");
+          lines.push("## Vouchers");
+          lines.push("");
+          lines.push("| Source | Series | Date | Description | Amount | Status |");
+          lines.push("|--------|--------|------|-------------|--------|--------|");
+          for (const r of results) {
+            let status: string;
+            if (!r.valid) status = `❌ ${r.issues.join("; ")}`;
+            else if (r.skipped) status = "Skipped";
+            else if (r.created_voucher) status = `✅ Created ${r.created_voucher}`;
+            else if (r.error) status = `❌ ${r.error}`;
+            else if (stoppedAt) status = "Not attempted";
+            else status = "✓ Valid";
+            lines.push(`| ${r.source} | ${r.voucher_series} | ${r.transaction_date} | ${truncateText(r.description, 40)} | ${formatMoney(r.amount)} | ${status} |`);
+          }
+
+          if (params.dry_run) {
+            lines.push("");
+            lines.push("Nothing has been created. Run again with `dry_run=false` to create the valid vouchers.");
+          }
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+}
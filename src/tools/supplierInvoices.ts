@@ -9,21 +9,36 @@ import {
   formatListMarkdown,
   buildPaginationMeta
 } from "../services/formatters.js";
+import { ValidationError } from "../services/errors.js";
 import {
   periodToDateRange,
   getPeriodDescription,
   getAgeBucket,
+  getTodayString,
   type AgeBucket
 } from "../services/dateHelpers.js";
 import {
   ListSupplierInvoicesSchema,
   GetSupplierInvoiceSchema,
+  CreateSupplierInvoiceSchema,
+  UpdateSupplierInvoiceSchema,
+  SupplierInvoiceActionSchema,
   ApproveSupplierInvoiceSchema,
   PayablesReportSchema,
+  CreateSupplierInvoicePaymentSchema,
+  BookkeepSupplierInvoicePaymentSchema,
+  SupplierPaymentRunSchema,
   type ListSupplierInvoicesInput,
   type GetSupplierInvoiceInput,
+  type CreateSupplierInvoiceInput,
+  type UpdateSupplierInvoiceInput,
+  type SupplierInvoiceActionInput,
   type ApproveSupplierInvoiceInput,
-  type PayablesReportInput
+  type PayablesReportInput,
+  type SupplierInvoiceRowInput,
+  type CreateSupplierInvoicePaymentInput,
+  type BookkeepSupplierInvoicePaymentInput,
+  type SupplierPaymentRunInput
 } from "../schemas/supplierInvoices.js";
 
 // API response types
@@ -49,6 +64,7 @@ interface FortnoxSupplierInvoice {
   Total?: number;
   Balance?: number;
   Currency?: string;
+  CurrencyRate?: number;
   Booked?: boolean;
   Cancelled?: boolean;
   Credit?: boolean;
@@ -69,6 +85,7 @@ interface FortnoxSupplierInvoiceListItem {
   Total?: number;
   Balance?: number;
   Currency?: string;
+  CurrencyRate?: number;
   Booked?: boolean;
   Cancelled?: boolean;
   "@url"?: string;
@@ -87,6 +104,25 @@ interface SupplierInvoiceResponse {
   SupplierInvoice: FortnoxSupplierInvoice;
 }
 
+interface FortnoxSupplierInvoicePayment {
+  Number: number;
+  InvoiceNumber: string;
+  Amount?: number;
+  AmountCurrency?: number;
+  Currency?: string;
+  CurrencyRate?: number;
+  PaymentDate?: string;
+  ModeOfPayment?: string;
+  Booked?: boolean;
+  InvoiceSupplierName?: string;
+  InvoiceSupplierNumber?: string;
+  "@url"?: string;
+}
+
+interface SupplierInvoicePaymentResponse {
+  SupplierInvoicePayment: FortnoxSupplierInvoicePayment;
+}
+
 /**
  * Get supplier invoice status
  */
@@ -97,6 +133,53 @@ function getSupplierInvoiceStatus(inv: FortnoxSupplierInvoiceListItem): string {
   return "unpaid";
 }
 
+/**
+ * Round an amount to two decimals (öre)
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Build Fortnox supplier invoice rows and the header VAT/Total they add up to.
+ * Fortnox adds the supplier debt (TOT) and input VAT rows itself from the header amounts.
+ */
+function buildSupplierInvoiceRows(rows: SupplierInvoiceRowInput[]): {
+  rows: Record<string, unknown>[];
+  net: number;
+  vat: number;
+  total: number;
+} {
+  let net = 0;
+  let vat = 0;
+
+  const supplierInvoiceRows = rows.map((row) => {
+    const quantity = row.quantity ?? 1;
+    const amount = roundAmount(quantity * row.price);
+    net += amount;
+    vat += amount * (row.vat ?? 25) / 100;
+
+    const invoiceRow: Record<string, unknown> = { Account: row.account_number };
+    if (amount >= 0) {
+      invoiceRow.Debit = amount;
+    } else {
+      invoiceRow.Credit = -amount;
+    }
+    if (row.description) invoiceRow.TransactionInformation = row.description;
+    if (row.article_number) invoiceRow.ArticleNumber = row.article_number;
+    if (row.quantity !== undefined) invoiceRow.Quantity = row.quantity;
+    if (row.unit) invoiceRow.Unit = row.unit;
+    invoiceRow.Price = row.price;
+    if (row.cost_center) invoiceRow.CostCenter = row.cost_center;
+    if (row.project) invoiceRow.Project = row.project;
+    return invoiceRow;
+  });
+
+  net = roundAmount(net);
+  vat = roundAmount(vat);
+  return { rows: supplierInvoiceRows, net, vat, total: roundAmount(net + vat) };
+}
+
 /**
  * Register all supplier invoice-related tools
  */
@@ -123,6 +206,7 @@ Args:
   - sortby ('suppliername' | 'suppliernumber' | 'invoicenumber' | 'invoicedate' | 'total'): Field to sort by
   - sortorder ('ascending' | 'descending'): Sort order (default: ascending)
   - fetch_all (boolean): Fetch all results by auto-paginating (max 10,000 results)
+  - cursor (string): Continue a truncated fetch_all from its next_cursor
   - min_amount (number): Filter invoices >= this amount (client-side)
   - max_amount (number): Filter invoices <= this amount (client-side)
   - response_format ('markdown' | 'json'): Output format
@@ -172,20 +256,23 @@ Examples:
         let pagesFetched = 1;
         let truncated = false;
         let truncationReason: string | undefined;
+        let nextCursor: string | undefined;
 
-        if (params.fetch_all) {
+        if (params.fetch_all || params.cursor) {
           // Use fetchAllPages for complete dataset
           const result = await fetchAllPages<FortnoxSupplierInvoiceListItem, SupplierInvoiceListResponse>(
             "/3/supplierinvoices",
             queryParams,
             (r) => r.SupplierInvoices || [],
-            (r) => r.MetaInformation?.["@TotalResources"] || 0
+            (r) => r.MetaInformation?.["@TotalResources"] || 0,
+            { cursor: params.cursor }
           );
           invoices = result.items;
           total = result.total;
           pagesFetched = result.pagesFetched;
           truncated = result.truncated;
           truncationReason = result.truncationReason;
+          nextCursor = result.nextCursor;
         } else {
           // Single page request
           queryParams.limit = params.limit;
@@ -205,14 +292,15 @@ Examples:
         }
 
         // Build pagination metadata
-        const paginationMeta = params.fetch_all
+        const paginationMeta = params.fetch_all || params.cursor
           ? {
               total,
               count: invoices.length,
               fetched_all: true,
               pages_fetched: pagesFetched,
               truncated,
-              truncation_reason: truncationReason
+              truncation_reason: truncationReason,
+              next_cursor: nextCursor
             }
           : {
               ...buildPaginationMeta(total, params.page, params.limit, invoices.length),
@@ -246,7 +334,7 @@ Examples:
             ? `Supplier Invoices - ${getPeriodDescription(params.period)}`
             : "Supplier Invoices";
 
-          if (params.fetch_all) {
+          if (params.fetch_all || params.cursor) {
             const lines: string[] = [
               `# ${title}`,
               "",
@@ -257,6 +345,9 @@ Examples:
             if (truncated) {
               lines.push("");
               lines.push(`**Results truncated**: ${truncationReason}`);
+              if (nextCursor) {
+                lines.push(`**Next cursor** (pass as \`cursor\` to continue): \`${nextCursor}\``);
+              }
             }
 
             lines.push("");
@@ -437,7 +528,10 @@ Returns:
       try {
         const response = await fortnoxRequest<SupplierInvoiceResponse>(
           `/3/supplierinvoices/${encodeURIComponent(params.given_number)}/approvalpayment`,
-          "PUT"
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/supplierinvoices/${encodeURIComponent(params.given_number)}` }
         );
         const invoice = response.SupplierInvoice;
 
@@ -468,6 +562,358 @@ Returns:
     }
   );
 
+  // Create supplier invoice
+  server.registerTool(
+    "fortnox_create_supplier_invoice",
+    {
+      title: "Create Fortnox Supplier Invoice",
+      description: `Register an incoming supplier invoice in Fortnox.
+
+Each row is a cost line on an account (amount = quantity x price, excluding VAT). VAT and the
+invoice total are calculated from the rows; Fortnox adds the supplier debt and input VAT rows.
+
+Args:
+  - supplier_number (string): Supplier number (required)
+  - rows (array): Cost rows (at least one required)
+    - Each row: { account_number, price, description?, quantity?, unit?, article_number?, vat?, cost_center?, project? }
+  - invoice_number (string): The supplier's invoice number
+  - invoice_date (string): Invoice date YYYY-MM-DD (defaults to today)
+  - due_date (string): Due date YYYY-MM-DD
+  - ocr (string): OCR/payment reference
+  - currency (string): 3-letter currency code
+  - currency_rate (number): Currency rate for foreign-currency invoices
+  - cost_center (string): Default cost center
+  - project (string): Default project
+  - our_reference / your_reference (string): References
+  - comments (string): Internal comments
+
+Returns:
+  The created supplier invoice with assigned given number.
+
+Example rows:
+  [{ "account_number": 5410, "description": "Laptops", "quantity": 2, "price": 12000, "cost_center": "IT" }]`,
+      inputSchema: CreateSupplierInvoiceSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: CreateSupplierInvoiceInput) => {
+      try {
+        const built = buildSupplierInvoiceRows(params.rows);
+
+        const invoiceData: Record<string, unknown> = {
+          SupplierNumber: params.supplier_number,
+          SupplierInvoiceRows: built.rows,
+          Total: built.total,
+          VAT: built.vat,
+          VATType: "NORMAL"
+        };
+
+        if (params.invoice_number) invoiceData.InvoiceNumber = params.invoice_number;
+        if (params.invoice_date) invoiceData.InvoiceDate = params.invoice_date;
+        if (params.due_date) invoiceData.DueDate = params.due_date;
+        if (params.ocr) invoiceData.OCR = params.ocr;
+        if (params.currency) invoiceData.Currency = params.currency;
+        if (params.currency_rate !== undefined) invoiceData.CurrencyRate = params.currency_rate;
+        if (params.cost_center) invoiceData.CostCenter = params.cost_center;
+        if (params.project) invoiceData.Project = params.project;
+        if (params.our_reference) invoiceData.OurReference = params.our_reference;
+        if (params.your_reference) invoiceData.YourReference = params.your_reference;
+        if (params.comments) invoiceData.Comments = params.comments;
+
+        const response = await fortnoxRequest<SupplierInvoiceResponse>(
+          "/3/supplierinvoices",
+          "POST",
+          { SupplierInvoice: invoiceData }
+        );
+        const invoice = response.SupplierInvoice;
+
+        const output = {
+          success: true,
+          message: `Supplier invoice #${invoice.GivenNumber} created successfully`,
+          given_number: invoice.GivenNumber,
+          supplier_number: invoice.SupplierNumber,
+          supplier_name: invoice.SupplierName || null,
+          invoice_number: invoice.InvoiceNumber || null,
+          net: built.net,
+          vat: built.vat,
+          total: Number(invoice.Total ?? built.total),
+          currency: invoice.Currency || "SEK",
+          due_date: invoice.DueDate || null
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Supplier Invoice Created\n\n` +
+            `**Given Number**: ${invoice.GivenNumber}\n` +
+            `**Supplier**: ${invoice.SupplierName || invoice.SupplierNumber}\n` +
+            (invoice.InvoiceNumber ? `**Supplier Invoice Number**: ${invoice.InvoiceNumber}\n` : "") +
+            `**Net**: ${formatMoney(built.net, output.currency)}\n` +
+            `**VAT**: ${formatMoney(built.vat, output.currency)}\n` +
+            `**Total**: ${formatMoney(output.total, output.currency)}\n` +
+            (invoice.DueDate ? `**Due Date**: ${formatDisplayDate(invoice.DueDate)}\n` : "") +
+            `\nSupplier invoice has been registered as a draft. Use \`fortnox_bookkeep_supplier_invoice\` to bookkeep it.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Update supplier invoice
+  server.registerTool(
+    "fortnox_update_supplier_invoice",
+    {
+      title: "Update Fortnox Supplier Invoice",
+      description: `Update a draft supplier invoice in Fortnox. Only unbooked supplier invoices can be updated.
+
+Args:
+  - given_number (string): Supplier invoice given number to update (required)
+  - rows (array): Updated cost rows (replaces all existing rows; VAT and total are recalculated)
+  - Other fields: Same as create_supplier_invoice
+
+Returns:
+  The updated supplier invoice details.`,
+      inputSchema: UpdateSupplierInvoiceSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: UpdateSupplierInvoiceInput) => {
+      try {
+        const current = await fortnoxRequest<SupplierInvoiceResponse>(
+          `/3/supplierinvoices/${encodeURIComponent(params.given_number)}`
+        );
+        if (current.SupplierInvoice.Booked) {
+          throw new ValidationError(`Supplier invoice #${params.given_number} is already booked and cannot be updated. Use fortnox_credit_supplier_invoice to reverse it.`);
+        }
+
+        const invoiceData: Record<string, unknown> = {};
+
+        if (params.rows) {
+          const built = buildSupplierInvoiceRows(params.rows);
+          invoiceData.SupplierInvoiceRows = built.rows;
+          invoiceData.Total = built.total;
+          invoiceData.VAT = built.vat;
+        }
+
+        if (params.invoice_number) invoiceData.InvoiceNumber = params.invoice_number;
+        if (params.invoice_date) invoiceData.InvoiceDate = params.invoice_date;
+        if (params.due_date) invoiceData.DueDate = params.due_date;
+        if (params.ocr) invoiceData.OCR = params.ocr;
+        if (params.cost_center) invoiceData.CostCenter = params.cost_center;
+        if (params.project) invoiceData.Project = params.project;
+        if (params.our_reference) invoiceData.OurReference = params.our_reference;
+        if (params.your_reference) invoiceData.YourReference = params.your_reference;
+        if (params.comments) invoiceData.Comments = params.comments;
+
+        const response = await fortnoxRequest<SupplierInvoiceResponse>(
+          `/3/supplierinvoices/${encodeURIComponent(params.given_number)}`,
+          "PUT",
+          { SupplierInvoice: invoiceData }
+        );
+        const invoice = response.SupplierInvoice;
+
+        const output = {
+          success: true,
+          message: `Supplier invoice #${invoice.GivenNumber} updated successfully`,
+          given_number: invoice.GivenNumber,
+          total: Number(invoice.Total || 0)
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Supplier Invoice Updated\n\n` +
+            `**Given Number**: ${invoice.GivenNumber}\n` +
+            `**Total**: ${formatMoney(invoice.Total, invoice.Currency)}\n\n` +
+            `Supplier invoice has been updated.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Bookkeep supplier invoice
+  server.registerTool(
+    "fortnox_bookkeep_supplier_invoice",
+    {
+      title: "Bookkeep Fortnox Supplier Invoice",
+      description: `Bookkeep a supplier invoice, creating the accounting entries. Once booked, the supplier invoice cannot be edited.
+
+Args:
+  - given_number (string): Supplier invoice given number to bookkeep (required)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Confirmation of bookkeeping.`,
+      inputSchema: SupplierInvoiceActionSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: SupplierInvoiceActionInput) => {
+      try {
+        const response = await fortnoxRequest<SupplierInvoiceResponse>(
+          `/3/supplierinvoices/${encodeURIComponent(params.given_number)}/bookkeep`,
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/supplierinvoices/${encodeURIComponent(params.given_number)}` }
+        );
+        const invoice = response.SupplierInvoice;
+
+        const output = {
+          success: true,
+          message: `Supplier invoice #${invoice.GivenNumber} has been booked`,
+          given_number: invoice.GivenNumber,
+          booked: true
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Supplier Invoice Booked\n\n` +
+            `Supplier invoice **#${invoice.GivenNumber}** has been successfully booked.\n\n` +
+            `Accounting entries have been created.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Cancel supplier invoice
+  server.registerTool(
+    "fortnox_cancel_supplier_invoice",
+    {
+      title: "Cancel Fortnox Supplier Invoice",
+      description: `Cancel a supplier invoice. Only unbooked supplier invoices can be cancelled; credit booked ones instead.
+
+Args:
+  - given_number (string): Supplier invoice given number to cancel (required)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Confirmation of cancellation.`,
+      inputSchema: SupplierInvoiceActionSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: SupplierInvoiceActionInput) => {
+      try {
+        const response = await fortnoxRequest<SupplierInvoiceResponse>(
+          `/3/supplierinvoices/${encodeURIComponent(params.given_number)}/cancel`,
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/supplierinvoices/${encodeURIComponent(params.given_number)}` }
+        );
+        const invoice = response.SupplierInvoice;
+
+        const output = {
+          success: true,
+          message: `Supplier invoice #${invoice.GivenNumber} has been cancelled`,
+          given_number: invoice.GivenNumber,
+          cancelled: true
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Supplier Invoice Cancelled\n\n` +
+            `Supplier invoice **#${invoice.GivenNumber}** has been cancelled.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Credit supplier invoice
+  server.registerTool(
+    "fortnox_credit_supplier_invoice",
+    {
+      title: "Credit Fortnox Supplier Invoice",
+      description: `Create a credit supplier invoice for a supplier invoice. This creates a new credit invoice referencing the original.
+
+Args:
+  - given_number (string): Supplier invoice given number to credit (required)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The created credit supplier invoice details.`,
+      inputSchema: SupplierInvoiceActionSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: SupplierInvoiceActionInput) => {
+      try {
+        const response = await fortnoxRequest<SupplierInvoiceResponse>(
+          `/3/supplierinvoices/${encodeURIComponent(params.given_number)}/credit`,
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/supplierinvoices/${encodeURIComponent(params.given_number)}` }
+        );
+        const creditInvoice = response.SupplierInvoice;
+
+        const output = {
+          success: true,
+          message: `Credit supplier invoice #${creditInvoice.GivenNumber} created for supplier invoice #${params.given_number}`,
+          original_given_number: params.given_number,
+          credit_given_number: creditInvoice.GivenNumber,
+          total: Number(creditInvoice.Total || 0)
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Credit Supplier Invoice Created\n\n` +
+            `**Credit Supplier Invoice**: #${creditInvoice.GivenNumber}\n` +
+            `**Original Supplier Invoice**: #${params.given_number}\n` +
+            `**Total**: ${formatMoney(creditInvoice.Total, creditInvoice.Currency)}`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
   // Payables aging report
   server.registerTool(
     "fortnox_payables_report",
@@ -712,4 +1158,390 @@ Examples:
       }
     }
   );
+
+  // Register supplier invoice payment
+  server.registerTool(
+    "fortnox_create_supplier_invoice_payment",
+    {
+      title: "Register Supplier Invoice Payment",
+      description: `Register a payment of a supplier invoice.
+
+If no amount is given, the invoice's remaining balance is paid in full.
+For foreign-currency invoices, amount_currency is the amount in the invoice currency and
+currency_rate the rate on the payment date (defaults to the invoice rate); the SEK amount
+is derived from these unless given explicitly.
+
+Args:
+  - given_number (string): Supplier invoice given number (required)
+  - amount (number): Paid amount in SEK (default: remaining balance)
+  - amount_currency (number): Paid amount in invoice currency (foreign-currency invoices)
+  - currency_rate (number): Currency rate on the payment date (foreign-currency invoices)
+  - payment_date (string): Payment date YYYY-MM-DD (default: today)
+  - mode_of_payment (string): Mode of payment code (e.g., 'BG', 'PG')
+  - bookkeep (boolean): Bookkeep the payment immediately (default: false). Bookkeeping cannot be undone,
+    so a call with bookkeep=true returns a preview and a confirmation_token first.
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  The registered payment with payment number and booked status.
+
+Examples:
+  - Pay in full today: given_number="215"
+  - Execute a payment run entry: given_number="215", amount=12500, payment_date="2025-03-28", bookkeep=true`,
+      inputSchema: CreateSupplierInvoicePaymentSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: CreateSupplierInvoicePaymentInput) => {
+      try {
+        // Look up the supplier invoice for balance and currency
+        const invoiceResponse = await fortnoxRequest<SupplierInvoiceResponse>(
+          `/3/supplierinvoices/${encodeURIComponent(params.given_number)}`
+        );
+        const invoice = invoiceResponse.SupplierInvoice;
+
+        if (invoice.Cancelled) {
+          throw new ValidationError(`Supplier invoice #${params.given_number} is cancelled and cannot be paid.`);
+        }
+
+        const currency = invoice.Currency || "SEK";
+        const isForeignCurrency = currency !== "SEK";
+
+        const paymentData: Record<string, unknown> = {
+          InvoiceNumber: params.given_number,
+          PaymentDate: params.payment_date || getTodayString()
+        };
+
+        if (isForeignCurrency) {
+          const amountCurrency = params.amount_currency ?? invoice.Balance ?? 0;
+          const currencyRate = params.currency_rate ?? invoice.CurrencyRate ?? 1;
+          paymentData.AmountCurrency = amountCurrency;
+          paymentData.CurrencyRate = currencyRate;
+          paymentData.Amount = params.amount ?? roundAmount(amountCurrency * currencyRate);
+        } else {
+          paymentData.Amount = params.amount ?? invoice.Balance ?? 0;
+        }
+
+        if (!paymentData.Amount) {
+          throw new ValidationError(`Supplier invoice #${params.given_number} has no remaining balance. Specify an amount to register a payment.`);
+        }
+
+        if (params.mode_of_payment) paymentData.ModeOfPayment = params.mode_of_payment;
+
+        const response = await fortnoxRequest<SupplierInvoicePaymentResponse>(
+          "/3/supplierinvoicepayments",
+          "POST",
+          { SupplierInvoicePayment: paymentData }
+        );
+        let payment = response.SupplierInvoicePayment;
+
+        if (params.bookkeep) {
+          const booked = await fortnoxRequest<SupplierInvoicePaymentResponse>(
+            `/3/supplierinvoicepayments/${payment.Number}/bookkeep`,
+            "PUT",
+            undefined,
+            undefined,
+            { readEndpoint: `/3/supplierinvoicepayments/${payment.Number}` }
+          );
+          payment = booked.SupplierInvoicePayment;
+        }
+
+        const output = {
+          success: true,
+          message: `Payment ${payment.Number} registered for supplier invoice #${params.given_number}`,
+          payment_number: payment.Number,
+          given_number: params.given_number,
+          supplier_name: invoice.SupplierName || null,
+          amount: payment.Amount ?? paymentData.Amount,
+          amount_currency: isForeignCurrency ? payment.AmountCurrency ?? paymentData.AmountCurrency : null,
+          currency,
+          currency_rate: isForeignCurrency ? payment.CurrencyRate ?? paymentData.CurrencyRate : null,
+          payment_date: payment.PaymentDate || paymentData.PaymentDate,
+          mode_of_payment: payment.ModeOfPayment || null,
+          booked: payment.Booked ?? params.bookkeep
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = [
+            "# Supplier Payment Registered",
+            "",
+            `**Payment Number**: ${output.payment_number}`,
+            `**Supplier Invoice**: #${params.given_number}${invoice.SupplierName ? ` (${invoice.SupplierName})` : ""}`,
+            `**Amount**: ${formatMoney(output.amount as number)}`
+          ];
+
+          if (isForeignCurrency) {
+            lines.push(`**Amount (${currency})**: ${formatMoney(output.amount_currency as number, currency)}`);
+            lines.push(`**Currency Rate**: ${output.currency_rate}`);
+          }
+
+          lines.push(`**Payment Date**: ${formatDisplayDate(output.payment_date as string)}`);
+          lines.push(`**Booked**: ${output.booked ? "Yes" : "No"}`);
+          lines.push("");
+          lines.push(output.booked
+            ? "Payment has been booked."
+            : "Payment is not yet booked. Use `fortnox_bookkeep_supplier_invoice_payment` to bookkeep it.");
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Bookkeep supplier invoice payment
+  server.registerTool(
+    "fortnox_bookkeep_supplier_invoice_payment",
+    {
+      title: "Bookkeep Supplier Invoice Payment",
+      description: `Bookkeep a supplier invoice payment, creating the accounting entries.
+
+Args:
+  - payment_number (number): Supplier invoice payment number to bookkeep (required)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Confirmation of bookkeeping.`,
+      inputSchema: BookkeepSupplierInvoicePaymentSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true
+      }
+    },
+    async (params: BookkeepSupplierInvoicePaymentInput) => {
+      try {
+        const response = await fortnoxRequest<SupplierInvoicePaymentResponse>(
+          `/3/supplierinvoicepayments/${params.payment_number}/bookkeep`,
+          "PUT",
+          undefined,
+          undefined,
+          { readEndpoint: `/3/supplierinvoicepayments/${params.payment_number}` }
+        );
+        const payment = response.SupplierInvoicePayment;
+
+        const output = {
+          success: true,
+          message: `Supplier payment ${payment.Number} has been booked`,
+          payment_number: payment.Number,
+          given_number: payment.InvoiceNumber,
+          amount: payment.Amount ?? null,
+          booked: true
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Supplier Payment Booked\n\n` +
+            `Payment **${payment.Number}** for supplier invoice **#${payment.InvoiceNumber}** has been successfully booked.\n\n` +
+            `Accounting entries have been created.`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
+
+  // Supplier payment run proposal
+  server.registerTool(
+    "fortnox_supplier_payment_run",
+    {
+      title: "Supplier Payment Run Proposal",
+      description: `Build a payment proposal from approved, unpaid supplier invoices.
+
+Picks invoices approved for payment (pending payment) that are due on or before due_before,
+oldest due date first, and fits them into the budget. Invoices that don't fit are deferred.
+The proposal does not pay anything: execute it invoice by invoice with
+fortnox_create_supplier_invoice_payment using the given_number, amount and payment_date listed.
+
+Args:
+  - due_before (string): Include invoices due on or before this date, YYYY-MM-DD (required)
+  - budget (number): Maximum total to pay in SEK (default: no limit)
+  - supplier_number (string): Only include invoices from this supplier
+  - payment_date (string): Planned payment date YYYY-MM-DD (default: today)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Proposed payments with totals, deferred invoices, and the payment calls to execute.
+
+Examples:
+  - Everything due this month within 200k: due_before="2025-03-31", budget=200000`,
+      inputSchema: SupplierPaymentRunSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: SupplierPaymentRunInput) => {
+      try {
+        const queryParams: Record<string, string | number | boolean | undefined> = {
+          filter: "pendingpayment"
+        };
+        if (params.supplier_number) queryParams.suppliernumber = params.supplier_number;
+
+        const result = await fetchAllPages<FortnoxSupplierInvoiceListItem, SupplierInvoiceListResponse>(
+          "/3/supplierinvoices",
+          queryParams,
+          (r) => r.SupplierInvoices || [],
+          (r) => r.MetaInformation?.["@TotalResources"] || 0
+        );
+
+        const paymentDate = params.payment_date || getTodayString();
+
+        // Approved, unpaid and due in time - oldest due date first
+        const candidates = result.items
+          .filter(inv => !inv.Cancelled && Number(inv.Balance || 0) > 0)
+          .filter(inv => !!inv.DueDate && inv.DueDate <= params.due_before)
+          .map(inv => {
+            const currency = inv.Currency || "SEK";
+            const balance = Number(inv.Balance || 0);
+            const rate = currency === "SEK" ? 1 : Number(inv.CurrencyRate || 1);
+            return {
+              given_number: inv.GivenNumber,
+              supplier_number: inv.SupplierNumber,
+              supplier_name: inv.SupplierName || null,
+              invoice_number: inv.InvoiceNumber || null,
+              due_date: inv.DueDate as string,
+              currency,
+              balance,
+              amount_sek: currency === "SEK" ? balance : roundAmount(balance * rate),
+              overdue: (inv.DueDate as string) < paymentDate
+            };
+          })
+          .sort((a, b) => a.due_date.localeCompare(b.due_date) || b.amount_sek - a.amount_sek);
+
+        const proposed: typeof candidates = [];
+        const deferred: typeof candidates = [];
+        let proposedTotal = 0;
+
+        for (const inv of candidates) {
+          if (params.budget === undefined || proposedTotal + inv.amount_sek <= params.budget) {
+            proposed.push(inv);
+            proposedTotal = roundAmount(proposedTotal + inv.amount_sek);
+          } else {
+            deferred.push(inv);
+          }
+        }
+
+        const output = {
+          due_before: params.due_before,
+          payment_date: paymentDate,
+          budget: params.budget ?? null,
+          summary: {
+            candidate_invoices: candidates.length,
+            proposed_count: proposed.length,
+            proposed_total: proposedTotal,
+            remaining_budget: params.budget !== undefined ? roundAmount(params.budget - proposedTotal) : null,
+            deferred_count: deferred.length,
+            deferred_total: roundAmount(deferred.reduce((sum, inv) => sum + inv.amount_sek, 0))
+          },
+          proposed_payments: proposed.map(inv => ({
+            ...inv,
+            execute: {
+              tool: "fortnox_create_supplier_invoice_payment",
+              arguments: {
+                given_number: inv.given_number,
+                ...(inv.currency === "SEK" ? { amount: inv.balance } : { amount_currency: inv.balance }),
+                payment_date: paymentDate
+              }
+            }
+          })),
+          deferred_invoices: deferred,
+          truncated: result.truncated,
+          truncation_reason: result.truncationReason
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          const lines: string[] = [
+            "# Supplier Payment Proposal",
+            "",
+            `**Due On or Before**: ${formatDisplayDate(params.due_before)}`,
+            `**Payment Date**: ${formatDisplayDate(paymentDate)}`,
+            `**Budget**: ${params.budget !== undefined ? formatMoney(params.budget) : "No limit"}`,
+            ""
+          ];
+
+          if (result.truncated) {
+            lines.push(`**Note**: ${result.truncationReason}`);
+            lines.push("");
+          }
+
+          lines.push("## Summary");
+          lines.push("");
+          lines.push("| Metric | Value |");
+          lines.push("|--------|-------|");
+          lines.push(`| Approved Invoices Due | ${candidates.length} |`);
+          lines.push(`| **Proposed Payments** | **${proposed.length} (${formatMoney(proposedTotal)})** |`);
+          if (output.summary.remaining_budget !== null) {
+            lines.push(`| Remaining Budget | ${formatMoney(output.summary.remaining_budget)} |`);
+          }
+          lines.push(`| Deferred | ${deferred.length} (${formatMoney(output.summary.deferred_total)}) |`);
+
+          if (proposed.length > 0) {
+            lines.push("");
+            lines.push("## Proposed Payments");
+            lines.push("");
+            lines.push("| Invoice | Supplier | Due Date | Amount | Amount (SEK) |");
+            lines.push("|---------|----------|----------|--------|--------------|");
+            for (const inv of proposed) {
+              lines.push(
+                `| #${inv.given_number} ` +
+                `| ${inv.supplier_name || inv.supplier_number} ` +
+                `| ${inv.due_date}${inv.overdue ? " ⚠️" : ""} ` +
+                `| ${formatMoney(inv.balance, inv.currency)} ` +
+                `| ${formatMoney(inv.amount_sek)} |`
+              );
+            }
+          }
+
+          if (deferred.length > 0) {
+            lines.push("");
+            lines.push("## Deferred (Over Budget)");
+            lines.push("");
+            lines.push("| Invoice | Supplier | Due Date | Amount (SEK) |");
+            lines.push("|---------|----------|----------|--------------|");
+            for (const inv of deferred) {
+              lines.push(`| #${inv.given_number} | ${inv.supplier_name || inv.supplier_number} | ${inv.due_date} | ${formatMoney(inv.amount_sek)} |`);
+            }
+          }
+
+          if (proposed.length > 0) {
+            lines.push("");
+            lines.push("## Next Step");
+            lines.push("");
+            lines.push("Execute each proposed payment with `fortnox_create_supplier_invoice_payment` " +
+              `(given_number, amount, payment_date="${paymentDate}"), then bookkeep it.`);
+          } else {
+            lines.push("");
+            lines.push("*No approved supplier invoices to pay in this run.*");
+          }
+
+          textContent = lines.join("\n");
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
 }
@@ -1,6 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { fortnoxRequest, fetchAllPages } from "../services/api.js";
-import { ResponseFormat, FETCH_ALL_DELAY_MS } from "../constants.js";
+import { fortnoxRequest } from "../services/api.js";
+import { ResponseFormat } from "../constants.js";
 import {
   buildToolResponse,
   buildErrorResponse,
@@ -10,6 +10,9 @@ import {
   buildPaginationMeta
 } from "../services/formatters.js";
 import { periodToDateRange, getPeriodDescription } from "../services/dateHelpers.js";
+import { fetchVoucherList, type ScannedVoucher } from "../services/voucherScanner.js";
+import { queryLedger, syncLedger, getLedgerCacheStorage } from "../services/ledgerCache/index.js";
+import { createVoucher, getVoucherBalanceError, sumVoucherRows } from "../services/voucherWriter.js";
 import {
   ListVouchersSchema,
   GetVoucherSchema,
@@ -17,12 +20,14 @@ import {
   ListVoucherSeriesSchema,
   AccountActivitySchema,
   SearchVouchersSchema,
+  RefreshLedgerCacheSchema,
   type ListVouchersInput,
   type GetVoucherInput,
   type CreateVoucherInput,
   type ListVoucherSeriesInput,
   type AccountActivityInput,
-  type SearchVouchersInput
+  type SearchVouchersInput,
+  type RefreshLedgerCacheInput
 } from "../schemas/vouchers.js";
 
 // API response types
@@ -306,48 +311,13 @@ Example:
     async (params: CreateVoucherInput) => {
       try {
         // Validate that debits equal credits
-        let totalDebit = 0;
-        let totalCredit = 0;
-        for (const row of params.rows) {
-          totalDebit += row.debit || 0;
-          totalCredit += row.credit || 0;
+        const balanceError = getVoucherBalanceError(params.rows);
+        if (balanceError) {
+          return buildErrorResponse(new Error(balanceError));
         }
+        const { totalDebit } = sumVoucherRows(params.rows);
 
-        if (Math.abs(totalDebit - totalCredit) > 0.01) {
-          return buildErrorResponse(
-            new Error(
-              `Voucher is not balanced. Total debit (${totalDebit}) must equal total credit (${totalCredit}).`
-            )
-          );
-        }
-
-        const voucherData: Record<string, unknown> = {
-          VoucherSeries: params.voucher_series,
-          Description: params.description,
-          TransactionDate: params.transaction_date,
-          VoucherRows: params.rows.map((row) => {
-            const voucherRow: Record<string, unknown> = {
-              Account: row.account_number
-            };
-            if (row.debit !== undefined && row.debit > 0) voucherRow.Debit = row.debit;
-            if (row.credit !== undefined && row.credit > 0) voucherRow.Credit = row.credit;
-            if (row.description) voucherRow.Description = row.description;
-            if (row.cost_center || params.cost_center) {
-              voucherRow.CostCenter = row.cost_center || params.cost_center;
-            }
-            if (row.project || params.project) {
-              voucherRow.Project = row.project || params.project;
-            }
-            return voucherRow;
-          })
-        };
-
-        const response = await fortnoxRequest<VoucherResponse>(
-          "/3/vouchers",
-          "POST",
-          { Voucher: voucherData }
-        );
-        const voucher = response.Voucher;
+        const voucher = await createVoucher(params);
 
         const output = {
           success: true,
@@ -454,8 +424,9 @@ Common use cases:
 - Bank transactions: account_number=1930
 - Revenue analysis: account_range={ from: 3000, to: 3999 }
 
-Note: This tool fetches voucher details and filters client-side since the Fortnox API
-doesn't support native account filtering. Use date ranges to limit the scan.
+Note: The Fortnox API doesn't support native account filtering, so rows are filtered client-side.
+Vouchers are served from the local ledger cache (built once per financial year, then refreshed
+incrementally). Without the cache, voucher details are fetched one by one, limited by max_vouchers.
 
 Args:
   - account_number (number): Single account number to filter by (1000-9999)
@@ -467,7 +438,8 @@ Args:
   - to_date (string): Filter vouchers to this date (YYYY-MM-DD)
   - voucher_series (string): Filter by voucher series (e.g., 'A')
   - include_summary (boolean): Include totals per account (default: true)
-  - max_vouchers (number): Max vouchers to scan, 10-500 (default: 500)
+  - max_vouchers (number): Max vouchers to scan without the ledger cache, 10-500 (default: 500)
+  - cursor (string): Continue a truncated scan from its next_cursor
   - response_format ('markdown' | 'json'): Output format
 
 Returns:
@@ -503,43 +475,28 @@ Examples:
           accountRangeTo = params.account_range.to;
         }
 
-        // Build query params
-        const queryParams: Record<string, string | number | boolean | undefined> = {
-          financialyear: params.financial_year
-        };
-
         // Handle period convenience filter
+        let fromDate = params.from_date;
+        let toDate = params.to_date;
         let dateRangeDescription: string | undefined;
         if (params.period) {
           const dateRange = periodToDateRange(params.period);
-          queryParams.fromdate = dateRange.from_date;
-          queryParams.todate = dateRange.to_date;
+          fromDate = dateRange.from_date;
+          toDate = dateRange.to_date;
           dateRangeDescription = getPeriodDescription(params.period);
-        } else {
-          if (params.from_date) queryParams.fromdate = params.from_date;
-          if (params.to_date) queryParams.todate = params.to_date;
-          if (params.from_date || params.to_date) {
-            dateRangeDescription = `${params.from_date || "start"} to ${params.to_date || "end"}`;
-          }
-        }
-
-        // Determine endpoint based on series filter
-        let endpoint = "/3/vouchers";
-        if (params.voucher_series) {
-          endpoint = `/3/vouchers/sublist/${encodeURIComponent(params.voucher_series)}`;
+        } else if (params.from_date || params.to_date) {
+          dateRangeDescription = `${params.from_date || "start"} to ${params.to_date || "end"}`;
         }
 
-        // Fetch voucher list
-        const result = await fetchAllPages<FortnoxVoucherListItem, VoucherListResponse>(
-          endpoint,
-          queryParams,
-          (r) => r.Vouchers || [],
-          (r) => r.MetaInformation?.["@TotalResources"] || 0,
-          { maxResults: params.max_vouchers, maxPages: Math.ceil(params.max_vouchers / 100) }
-        );
-
-        const voucherList = result.items;
-        const totalVouchers = result.total;
+        // Fetch vouchers with rows (ledger cache or direct scan)
+        const result = await queryLedger({
+          financialYear: params.financial_year,
+          fromDate,
+          toDate,
+          voucherSeries: params.voucher_series,
+          maxVouchers: params.max_vouchers,
+          cursor: params.cursor
+        });
 
         // Helper to check if account matches filter
         const accountMatches = (account: number): boolean => {
@@ -550,7 +507,6 @@ Examples:
           return false;
         };
 
-        // Batch fetch voucher details with rate limiting
         const matchingTransactions: Array<{
           voucher_series: string;
           voucher_number: number;
@@ -564,60 +520,32 @@ Examples:
 
         const accountSummary = new Map<number, { debit: number; credit: number; count: number }>();
 
-        // Process vouchers in batches of 10
-        const batchSize = 10;
-        for (let i = 0; i < voucherList.length; i += batchSize) {
-          const batch = voucherList.slice(i, i + batchSize);
-
-          // Fetch details for batch in parallel
-          const detailPromises = batch.map(async (v) => {
-            const detailEndpoint = `/3/vouchers/${encodeURIComponent(v.VoucherSeries)}/${v.VoucherNumber}`;
-            const detailParams: Record<string, string | number | boolean | undefined> = {
-              financialyear: params.financial_year
-            };
-            try {
-              const detail = await fortnoxRequest<VoucherResponse>(detailEndpoint, "GET", undefined, detailParams);
-              return detail.Voucher;
-            } catch {
-              return null;
-            }
-          });
-
-          const details = await Promise.all(detailPromises);
-
-          // Process results
-          for (const voucher of details) {
-            if (!voucher || !voucher.VoucherRows) continue;
-
-            for (const row of voucher.VoucherRows) {
-              if (accountMatches(row.Account)) {
-                matchingTransactions.push({
-                  voucher_series: voucher.VoucherSeries,
-                  voucher_number: voucher.VoucherNumber,
-                  transaction_date: voucher.TransactionDate,
-                  voucher_description: voucher.Description,
-                  account: row.Account,
-                  description: row.Description || null,
-                  debit: row.Debit || 0,
-                  credit: row.Credit || 0
-                });
-
-                // Update summary
-                if (params.include_summary) {
-                  const existing = accountSummary.get(row.Account) || { debit: 0, credit: 0, count: 0 };
-                  existing.debit += row.Debit || 0;
-                  existing.credit += row.Credit || 0;
-                  existing.count += 1;
-                  accountSummary.set(row.Account, existing);
-                }
+        for (const voucher of result.vouchers) {
+          if (!voucher.VoucherRows) continue;
+
+          for (const row of voucher.VoucherRows) {
+            if (accountMatches(row.Account)) {
+              matchingTransactions.push({
+                voucher_series: voucher.VoucherSeries,
+                voucher_number: voucher.VoucherNumber,
+                transaction_date: voucher.TransactionDate,
+                voucher_description: voucher.Description,
+                account: row.Account,
+                description: row.Description || null,
+                debit: row.Debit || 0,
+                credit: row.Credit || 0
+              });
+
+              // Update summary
+              if (params.include_summary) {
+                const existing = accountSummary.get(row.Account) || { debit: 0, credit: 0, count: 0 };
+                existing.debit += row.Debit || 0;
+                existing.credit += row.Credit || 0;
+                existing.count += 1;
+                accountSummary.set(row.Account, existing);
               }
             }
           }
-
-          // Rate limit delay between batches (except last batch)
-          if (i + batchSize < voucherList.length) {
-            await new Promise(resolve => setTimeout(resolve, FETCH_ALL_DELAY_MS));
-          }
         }
 
         // Sort transactions by date descending
@@ -647,10 +575,12 @@ Examples:
             date_range: dateRangeDescription || null,
             voucher_series: params.voucher_series || null
           },
-          vouchers_scanned: voucherList.length,
-          total_vouchers_available: totalVouchers,
+          source: result.source,
+          vouchers_scanned: result.vouchersScanned,
+          total_vouchers_available: result.totalVouchers,
           truncated: result.truncated,
           truncation_reason: result.truncationReason,
+          next_cursor: result.nextCursor,
           matching_transactions: matchingTransactions.length,
           summary: summaryArray,
           transactions: matchingTransactions
@@ -676,11 +606,14 @@ Examples:
             lines.push(`**Period**: ${dateRangeDescription}`);
           }
           lines.push(`**Financial Year**: ${params.financial_year}`);
-          lines.push(`**Vouchers Scanned**: ${voucherList.length} | **Matching Transactions**: ${matchingTransactions.length}`);
+          lines.push(`**Vouchers Scanned**: ${result.vouchersScanned}${result.source === "cache" ? " (ledger cache)" : ""} | **Matching Transactions**: ${matchingTransactions.length}`);
 
           if (result.truncated) {
             lines.push("");
             lines.push(`⚠️ **Note**: ${result.truncationReason}`);
+            if (result.nextCursor) {
+              lines.push(`**Next cursor** (pass as \`cursor\` to continue): \`${result.nextCursor}\``);
+            }
           }
 
           if (summaryArray && summaryArray.length > 0) {
@@ -741,7 +674,8 @@ Examples:
 IMPORTANT: The financial_year parameter uses Fortnox sequential IDs (1, 2, 3...), NOT calendar years.
 Use fortnox_list_financial_years first to find the correct ID for your target year.
 
-Performs client-side text search across voucher descriptions.
+Performs client-side text search across voucher descriptions (and row descriptions with include_rows).
+Vouchers are served from the local ledger cache when it is enabled.
 
 Args:
   - search_text (string): Text to search for in voucher descriptions (min 2 chars)
@@ -751,8 +685,9 @@ Args:
   - to_date (string): Filter vouchers to this date (YYYY-MM-DD)
   - voucher_series (string): Filter by voucher series (e.g., 'A')
   - case_sensitive (boolean): Case-sensitive search (default: false)
-  - include_rows (boolean): Include voucher row details (default: false)
-  - max_vouchers (number): Max vouchers to scan, 10-500 (default: 500)
+  - include_rows (boolean): Include voucher row details and search row descriptions (default: false)
+  - max_vouchers (number): Max vouchers to scan without the ledger cache, 10-500 (default: 500)
+  - cursor (string): Continue a truncated scan from its next_cursor
   - response_format ('markdown' | 'json'): Output format
 
 Returns:
@@ -772,43 +707,53 @@ Examples:
     },
     async (params: SearchVouchersInput) => {
       try {
-        // Build query params
-        const queryParams: Record<string, string | number | boolean | undefined> = {
-          financialyear: params.financial_year
-        };
-
         // Handle period convenience filter
+        let fromDate = params.from_date;
+        let toDate = params.to_date;
         let dateRangeDescription: string | undefined;
         if (params.period) {
           const dateRange = periodToDateRange(params.period);
-          queryParams.fromdate = dateRange.from_date;
-          queryParams.todate = dateRange.to_date;
+          fromDate = dateRange.from_date;
+          toDate = dateRange.to_date;
           dateRangeDescription = getPeriodDescription(params.period);
-        } else {
-          if (params.from_date) queryParams.fromdate = params.from_date;
-          if (params.to_date) queryParams.todate = params.to_date;
-          if (params.from_date || params.to_date) {
-            dateRangeDescription = `${params.from_date || "start"} to ${params.to_date || "end"}`;
-          }
-        }
-
-        // Determine endpoint based on series filter
-        let endpoint = "/3/vouchers";
-        if (params.voucher_series) {
-          endpoint = `/3/vouchers/sublist/${encodeURIComponent(params.voucher_series)}`;
+        } else if (params.from_date || params.to_date) {
+          dateRangeDescription = `${params.from_date || "start"} to ${params.to_date || "end"}`;
         }
 
-        // Fetch voucher list
-        const result = await fetchAllPages<FortnoxVoucherListItem, VoucherListResponse>(
-          endpoint,
-          queryParams,
-          (r) => r.Vouchers || [],
-          (r) => r.MetaInformation?.["@TotalResources"] || 0,
-          { maxResults: params.max_vouchers, maxPages: Math.ceil(params.max_vouchers / 100) }
-        );
+        const filter = {
+          financialYear: params.financial_year,
+          fromDate,
+          toDate,
+          voucherSeries: params.voucher_series,
+          maxVouchers: params.max_vouchers,
+          cursor: params.cursor
+        };
 
-        const voucherList = result.items;
-        const totalVouchers = result.total;
+        // Full vouchers come from the ledger cache (or a detail scan when rows are needed);
+        // without the cache, a description-only search just needs the voucher list
+        let vouchers: Array<Pick<ScannedVoucher, "VoucherSeries" | "VoucherNumber" | "TransactionDate" | "Description" | "VoucherRows">>;
+        let totalVouchers: number;
+        let truncated: boolean;
+        let truncationReason: string | undefined;
+        let nextCursor: string | undefined;
+        let source: "cache" | "fortnox" = "fortnox";
+
+        if (params.include_rows || getLedgerCacheStorage()) {
+          const result = await queryLedger(filter);
+          vouchers = result.vouchers;
+          totalVouchers = result.totalVouchers;
+          truncated = result.truncated;
+          truncationReason = result.truncationReason;
+          nextCursor = result.nextCursor;
+          source = result.source;
+        } else {
+          const result = await fetchVoucherList(filter);
+          vouchers = result.items;
+          totalVouchers = result.total;
+          truncated = result.truncated;
+          truncationReason = result.truncationReason;
+          nextCursor = result.nextCursor;
+        }
 
         // Prepare search
         const searchText = params.case_sensitive
@@ -821,10 +766,6 @@ Examples:
           return compareText.includes(searchText);
         };
 
-        // First pass: filter by description in list
-        const candidateVouchers = voucherList.filter(v => textMatches(v.Description));
-
-        // If include_rows is true, we need to fetch details and also check row descriptions
         interface MatchingVoucher {
           voucher_series: string;
           voucher_number: number;
@@ -841,64 +782,27 @@ Examples:
 
         const matchingVouchers: MatchingVoucher[] = [];
 
-        if (params.include_rows) {
-          // Fetch details for all vouchers (to check row descriptions too)
-          const batchSize = 10;
-          for (let i = 0; i < voucherList.length; i += batchSize) {
-            const batch = voucherList.slice(i, i + batchSize);
-
-            const detailPromises = batch.map(async (v) => {
-              const detailEndpoint = `/3/vouchers/${encodeURIComponent(v.VoucherSeries)}/${v.VoucherNumber}`;
-              const detailParams: Record<string, string | number | boolean | undefined> = {
-                financialyear: params.financial_year
-              };
-              try {
-                const detail = await fortnoxRequest<VoucherResponse>(detailEndpoint, "GET", undefined, detailParams);
-                return detail.Voucher;
-              } catch {
-                return null;
-              }
-            });
-
-            const details = await Promise.all(detailPromises);
-
-            for (const voucher of details) {
-              if (!voucher) continue;
-
-              const descriptionMatch = textMatches(voucher.Description);
-              const rowMatch = voucher.VoucherRows?.some(row => textMatches(row.Description));
-
-              if (descriptionMatch || rowMatch) {
-                matchingVouchers.push({
-                  voucher_series: voucher.VoucherSeries,
-                  voucher_number: voucher.VoucherNumber,
-                  transaction_date: voucher.TransactionDate,
-                  description: voucher.Description,
-                  matched_in: descriptionMatch ? "description" : "row",
-                  rows: voucher.VoucherRows?.map(row => ({
-                    account: row.Account,
-                    description: row.Description || null,
-                    debit: row.Debit || 0,
-                    credit: row.Credit || 0
-                  }))
-                });
-              }
-            }
+        for (const voucher of vouchers) {
+          const descriptionMatch = textMatches(voucher.Description);
+          // Row descriptions are only searched when rows are included
+          const rowMatch = params.include_rows &&
+            voucher.VoucherRows?.some(row => textMatches(row.Description));
 
-            // Rate limit delay between batches
-            if (i + batchSize < voucherList.length) {
-              await new Promise(resolve => setTimeout(resolve, FETCH_ALL_DELAY_MS));
-            }
-          }
-        } else {
-          // Just use the list descriptions
-          for (const v of candidateVouchers) {
+          if (descriptionMatch || rowMatch) {
             matchingVouchers.push({
-              voucher_series: v.VoucherSeries,
-              voucher_number: v.VoucherNumber,
-              transaction_date: v.TransactionDate,
-              description: v.Description,
-              matched_in: "description"
+              voucher_series: voucher.VoucherSeries,
+              voucher_number: voucher.VoucherNumber,
+              transaction_date: voucher.TransactionDate,
+              description: voucher.Description,
+              matched_in: descriptionMatch ? "description" : "row",
+              rows: params.include_rows
+                ? voucher.VoucherRows?.map(row => ({
+                  account: row.Account,
+                  description: row.Description || null,
+                  debit: row.Debit || 0,
+                  credit: row.Credit || 0
+                }))
+                : undefined
             });
           }
         }
@@ -916,10 +820,12 @@ Examples:
           financial_year: params.financial_year,
           date_range: dateRangeDescription || null,
           voucher_series: params.voucher_series || null,
-          vouchers_scanned: voucherList.length,
+          source,
+          vouchers_scanned: vouchers.length,
           total_vouchers_available: totalVouchers,
-          truncated: result.truncated,
-          truncation_reason: result.truncationReason,
+          truncated,
+          truncation_reason: truncationReason,
+          next_cursor: nextCursor,
           matching_count: matchingVouchers.length,
           vouchers: matchingVouchers
         };
@@ -938,11 +844,14 @@ Examples:
             lines.push(`**Period**: ${dateRangeDescription}`);
           }
           lines.push(`**Financial Year**: ${params.financial_year}`);
-          lines.push(`**Vouchers Scanned**: ${voucherList.length} | **Matches**: ${matchingVouchers.length}`);
+          lines.push(`**Vouchers Scanned**: ${vouchers.length}${source === "cache" ? " (ledger cache)" : ""} | **Matches**: ${matchingVouchers.length}`);
 
-          if (result.truncated) {
+          if (truncated) {
             lines.push("");
-            lines.push(`⚠️ **Note**: ${result.truncationReason}`);
+            lines.push(`⚠️ **Note**: ${truncationReason}`);
+            if (nextCursor) {
+              lines.push(`**Next cursor** (pass as \`cursor\` to continue): \`${nextCursor}\``);
+            }
           }
 
           if (matchingVouchers.length > 0) {
@@ -987,4 +896,60 @@ Examples:
       }
     }
   );
+
+  // Refresh ledger cache
+  server.registerTool(
+    "fortnox_refresh_ledger_cache",
+    {
+      title: "Refresh Ledger Cache",
+      description: `Sync the local ledger cache (all vouchers with rows) for a financial year.
+
+The cache is used by fortnox_account_activity, fortnox_search_vouchers and fortnox_financial_statements
+and is refreshed automatically. Use this to pick up changes immediately, or with full=true to rebuild it.
+
+Args:
+  - financial_year (number): Fortnox financial year ID (required)
+  - full (boolean): Rebuild from scratch (default: false, fetch modified vouchers only)
+  - response_format ('markdown' | 'json'): Output format
+
+Returns:
+  Number of cached vouchers, vouchers updated, and sync time.`,
+      inputSchema: RefreshLedgerCacheSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      }
+    },
+    async (params: RefreshLedgerCacheInput) => {
+      try {
+        const result = await syncLedger(params.financial_year, { full: params.full, force: true });
+
+        const output = {
+          financial_year: params.financial_year,
+          rebuilt: result.rebuilt,
+          vouchers_updated: result.updated,
+          vouchers_cached: result.entry.vouchers.length,
+          synced_at: new Date(result.entry.syncedAt).toISOString(),
+          created_at: new Date(result.entry.createdAt).toISOString()
+        };
+
+        let textContent: string;
+        if (params.response_format === ResponseFormat.JSON) {
+          textContent = JSON.stringify(output, null, 2);
+        } else {
+          textContent = `# Ledger Cache ${result.rebuilt ? "Rebuilt" : "Refreshed"}\n\n` +
+            `**Financial Year**: ${params.financial_year}\n` +
+            `**Vouchers Cached**: ${output.vouchers_cached}\n` +
+            `**Vouchers ${result.rebuilt ? "Loaded" : "Updated"}**: ${output.vouchers_updated}\n` +
+            `**Synced At**: ${output.synced_at}`;
+        }
+
+        return buildToolResponse(textContent, output);
+      } catch (error) {
+        return buildErrorResponse(error);
+      }
+    }
+  );
 }
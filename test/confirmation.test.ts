@@ -0,0 +1,106 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildConfirmationResponse,
+  verifyConfirmationToken,
+  requiresConfirmation
+} from "../src/services/confirmation.js";
+import { runWithContext } from "../src/auth/context.js";
+import { ConfirmationError } from "../src/services/errors.js";
+import { ResponseFormat } from "../src/constants.js";
+
+const TOOL = "fortnox_create_invoice_payment";
+const PARAMS = { invoice_number: "1001", amount: 500, bookkeep: true };
+const REQUESTS = [{ method: "POST" as const, endpoint: "/3/invoicepayments", payload: null }];
+
+const alice = { userId: "alice", clientId: "client" };
+
+/**
+ * Get a token the way the first call of a tool does
+ */
+async function issueToken(params: unknown = PARAMS, toolName = TOOL): Promise<string> {
+  const response = await buildConfirmationResponse(toolName, params, REQUESTS, ResponseFormat.JSON);
+  return (response.structuredContent as { confirmation_token: string }).confirmation_token;
+}
+
+describe("verifyConfirmationToken", () => {
+  it("accepts a token for the same tool, arguments and user", async () => {
+    await runWithContext(alice, async () => {
+      const token = await issueToken();
+      await verifyConfirmationToken(token, TOOL, { ...PARAMS, response_format: "json" });
+    });
+  });
+
+  it("accepts the same arguments in another order", async () => {
+    await runWithContext(alice, async () => {
+      const token = await issueToken();
+      await verifyConfirmationToken(token, TOOL, { bookkeep: true, amount: 500, invoice_number: "1001" });
+    });
+  });
+
+  it("rejects a token that has already been used", async () => {
+    await runWithContext(alice, async () => {
+      const token = await issueToken();
+      await verifyConfirmationToken(token, TOOL, PARAMS);
+      await assert.rejects(verifyConfirmationToken(token, TOOL, PARAMS), /already been used/);
+    });
+  });
+
+  it("rejects a token issued for another tool", async () => {
+    await runWithContext(alice, async () => {
+      const token = await issueToken();
+      await assert.rejects(
+        verifyConfirmationToken(token, "fortnox_create_supplier_invoice_payment", PARAMS),
+        /not issued for fortnox_create_supplier_invoice_payment/
+      );
+    });
+  });
+
+  it("rejects a token issued for other arguments", async () => {
+    await runWithContext(alice, async () => {
+      const token = await issueToken();
+      await assert.rejects(verifyConfirmationToken(token, TOOL, { ...PARAMS, amount: 50000 }), /different arguments/);
+    });
+  });
+
+  it("rejects a token issued to another user or for another company", async () => {
+    const token = await runWithContext(alice, () => issueToken());
+
+    await runWithContext({ userId: "bob", clientId: "client" }, async () => {
+      await assert.rejects(verifyConfirmationToken(token, TOOL, PARAMS), /another user or for another company/);
+    });
+    await runWithContext({ ...alice, companyId: "other" }, async () => {
+      await assert.rejects(verifyConfirmationToken(token, TOOL, PARAMS), /another user or for another company/);
+    });
+  });
+
+  it("rejects tokens that are not valid", async () => {
+    await runWithContext(alice, async () => {
+      const token = await issueToken();
+      const tampered = `${token.slice(0, -2)}${token.endsWith("AA") ? "BB" : "AA"}`;
+      for (const value of ["not a token", tampered]) {
+        await assert.rejects(verifyConfirmationToken(value, TOOL, PARAMS), (error: unknown) =>
+          error instanceof ConfirmationError && /Invalid confirmation token/.test(error.message));
+      }
+    });
+  });
+});
+
+describe("requiresConfirmation", () => {
+  it("requires confirmation for destructive and irreversible tools", () => {
+    assert.equal(requiresConfirmation("fortnox_delete_customer", { destructiveHint: true }), true);
+    assert.equal(requiresConfirmation("fortnox_bookkeep_invoice"), true);
+    assert.equal(requiresConfirmation("fortnox_create_invoice"), false);
+  });
+
+  it("requires confirmation for payments only when they are bookkept", () => {
+    assert.equal(requiresConfirmation(TOOL), true);
+    assert.equal(requiresConfirmation(TOOL, undefined, PARAMS), true);
+    assert.equal(requiresConfirmation(TOOL, undefined, { ...PARAMS, bookkeep: false }), false);
+  });
+
+  it("requires confirmation for SIE imports only when they create vouchers", () => {
+    assert.equal(requiresConfirmation("fortnox_import_sie", undefined, { dry_run: false }), true);
+    assert.equal(requiresConfirmation("fortnox_import_sie", undefined, { dry_run: true }), false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodePageCursor, decodePageCursor, type PageCursor } from "../src/services/pageCursor.js";
+import { ValidationError, toStructuredError } from "../src/services/errors.js";
+
+const cursor: PageCursor = {
+  endpoint: "/3/invoices",
+  params: { fromdate: "2024-01-01", filter: "unpaid" },
+  page: 101,
+  pageSize: 100
+};
+
+const encodeRaw = (value: unknown) => Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+
+describe("pageCursor", () => {
+  it("round-trips a cursor", () => {
+    assert.deepEqual(decodePageCursor(encodePageCursor(cursor)), cursor);
+    assert.deepEqual(decodePageCursor(encodePageCursor(cursor), "/3/invoices"), cursor);
+  });
+
+  it("is opaque and URL safe", () => {
+    assert.match(encodePageCursor(cursor), /^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects a cursor issued for another endpoint", () => {
+    assert.throws(() => decodePageCursor(encodePageCursor(cursor), "/3/orders"), /issued for \/3\/invoices, not \/3\/orders/);
+  });
+
+  it("rejects malformed cursors with a validation error", () => {
+    for (const value of ["not a cursor", encodeRaw(null), encodeRaw([1]), encodeRaw({ ...cursor, v: 2 })]) {
+      assert.throws(() => decodePageCursor(value), ValidationError);
+    }
+  });
+
+  it("rejects pages and page sizes that are not positive integers", () => {
+    for (const page of [0, -1, 1.5, "2", null]) {
+      const value = encodeRaw({ v: 1, ...cursor, page });
+      assert.throws(() => decodePageCursor(value), ValidationError, `page ${JSON.stringify(page)}`);
+    }
+    for (const pageSize of [0, 2.5]) {
+      assert.throws(() => decodePageCursor(encodeRaw({ v: 1, ...cursor, pageSize })), ValidationError);
+    }
+  });
+
+  it("reports invalid cursors as validation errors", () => {
+    try {
+      decodePageCursor(encodeRaw({ v: 1, ...cursor, page: -3 }));
+      assert.fail("expected an error");
+    } catch (error) {
+      assert.equal(toStructuredError(error).error.type, "validation_error");
+    }
+  });
+});
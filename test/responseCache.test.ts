@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryResponseCache } from "../src/services/responseCache/memory.js";
+
+const years = () => ({ FinancialYears: [{ Id: 2 }, { Id: 1 }] });
+
+describe("MemoryResponseCache", () => {
+  it("is not changed by changing a value after set", async () => {
+    const cache = new MemoryResponseCache();
+    const value = years();
+    await cache.set("financialyears", "all", value, 60);
+
+    value.FinancialYears.reverse();
+
+    assert.deepEqual(await cache.get("financialyears", "all"), years());
+  });
+
+  it("is not changed by changing a value returned by get", async () => {
+    const cache = new MemoryResponseCache();
+    await cache.set("financialyears", "all", years(), 60);
+
+    const cached = await cache.get<ReturnType<typeof years>>("financialyears", "all");
+    cached!.FinancialYears.sort((a, b) => a.Id - b.Id);
+
+    assert.deepEqual(await cache.get("financialyears", "all"), years());
+  });
+
+  it("does not return expired entries", async () => {
+    const cache = new MemoryResponseCache();
+    await cache.set("invoices", "list", { Invoices: [] }, 0);
+
+    assert.equal(await cache.get("invoices", "list"), null);
+  });
+
+  it("evicts the entry that expires first when full", async () => {
+    const cache = new MemoryResponseCache(2);
+    await cache.set("invoices", "a", 1, 10);
+    await cache.set("invoices", "b", 2, 60);
+    await cache.set("invoices", "c", 3, 60);
+
+    assert.equal(await cache.get("invoices", "a"), null);
+    assert.equal(await cache.get("invoices", "b"), 2);
+    assert.equal(await cache.get("invoices", "c"), 3);
+  });
+});
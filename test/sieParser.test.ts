@@ -0,0 +1,157 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeSie,
+  tokenizeSieLine,
+  parseSieObjectList,
+  sieDateToIso,
+  parseSie
+} from "../src/services/sieParser.js";
+
+const SIE4 = [
+  "#FLAGGA 0",
+  "#FORMAT PC8",
+  "#SIETYP 4",
+  "#PROGRAM \"Fortnox\" 3.0",
+  "#GEN 20240115",
+  "#FNAMN \"Exempel AB\"",
+  "#ORGNR 556677-8899",
+  "#VALUTA SEK",
+  "#RAR 0 20240101 20241231",
+  "#RAR -1 20230101 20231231",
+  "#KONTO 1930 \"Företagskonto\"",
+  "#KTYP 1930 T",
+  "#SRU 1930 7281",
+  "#KONTO 3001 \"Försäljning 25%\"",
+  "#DIM 1 \"Kostnadsställe\"",
+  "#OBJEKT 1 \"100\" \"Sälj\"",
+  "#IB 0 1930 1500.50",
+  "#UB 0 1930 2750.50",
+  "#RES 0 3001 -1250.00",
+  "#PSALDO 0 202401 3001 {1 \"100\"} -1250.00",
+  "#VER A 1 20240110 \"Kundfaktura 1\" 20240111",
+  "{",
+  "   #TRANS 1930 {} 1250.00",
+  "   #TRANS 3001 {1 \"100\" 6 \"P1\"} -1250.00 20240110 \"Rad \\\"1\\\"\" 2",
+  "}",
+  "#VER B 7 2024011 \"Fel datum\"",
+  "#TRANS 1930 {} 100"
+].join("\r\n");
+
+describe("decodeSie", () => {
+  it("decodes files declared as PC8 with codepage 437", () => {
+    const bytes = Buffer.from([
+      ...Buffer.from("#FORMAT PC8\n#FNAMN \"", "latin1"),
+      0x86, 0x84, 0x94, 0x8f, 0x8e, 0x99,
+      ...Buffer.from("\"", "latin1")
+    ]);
+    assert.equal(decodeSie(bytes), "#FORMAT PC8\n#FNAMN \"åäöÅÄÖ\"");
+  });
+
+  it("decodes undeclared UTF-8 files as UTF-8", () => {
+    assert.equal(decodeSie(Buffer.from("#FNAMN \"Företag\"", "utf8")), "#FNAMN \"Företag\"");
+  });
+
+  it("falls back to codepage 437 for undeclared files that are not valid UTF-8", () => {
+    assert.equal(decodeSie(Buffer.from([0x23, 0x94])), "#ö");
+  });
+});
+
+describe("tokenizeSieLine", () => {
+  it("keeps quoted strings and object lists together", () => {
+    assert.deepEqual(
+      tokenizeSieLine("#TRANS 3001 {1 \"100\"}  -50.00 \"Rad med mellanslag\""),
+      ["#TRANS", "3001", "{1 \"100\"}", "-50.00", "Rad med mellanslag"]
+    );
+  });
+
+  it("unescapes quotes inside strings", () => {
+    assert.deepEqual(tokenizeSieLine("#FNAMN \"Bolag \\\"X\\\"\""), ["#FNAMN", "Bolag \"X\""]);
+  });
+});
+
+describe("parseSieObjectList", () => {
+  it("parses dimension and object pairs", () => {
+    assert.deepEqual(parseSieObjectList("{1 \"100\" 6 \"P1\"}"), [
+      { dimension: "1", object: "100" },
+      { dimension: "6", object: "P1" }
+    ]);
+  });
+
+  it("returns no objects for empty or missing lists", () => {
+    assert.deepEqual(parseSieObjectList("{}"), []);
+    assert.deepEqual(parseSieObjectList(undefined), []);
+  });
+});
+
+describe("sieDateToIso", () => {
+  it("converts YYYYMMDD and rejects other formats", () => {
+    assert.equal(sieDateToIso("20240131"), "2024-01-31");
+    assert.equal(sieDateToIso("2024-01-31"), undefined);
+    assert.equal(sieDateToIso(undefined), undefined);
+  });
+});
+
+describe("parseSie", () => {
+  const sie = parseSie(SIE4);
+
+  it("parses the file header", () => {
+    assert.equal(sie.sieType, 4);
+    assert.equal(sie.program, "Fortnox 3.0");
+    assert.equal(sie.format, "PC8");
+    assert.equal(sie.generatedDate, "2024-01-15");
+    assert.equal(sie.companyName, "Exempel AB");
+    assert.equal(sie.organizationNumber, "556677-8899");
+    assert.equal(sie.currency, "SEK");
+    assert.deepEqual(sie.financialYears, [
+      { index: 0, fromDate: "2024-01-01", toDate: "2024-12-31" },
+      { index: -1, fromDate: "2023-01-01", toDate: "2023-12-31" }
+    ]);
+  });
+
+  it("merges #KONTO, #KTYP and #SRU into one account", () => {
+    assert.deepEqual(sie.accounts, [
+      { number: "1930", name: "Företagskonto", type: "T", sru: "7281" },
+      { number: "3001", name: "Försäljning 25%" }
+    ]);
+  });
+
+  it("parses dimensions, objects and balances", () => {
+    assert.deepEqual(sie.dimensions, [{ dimension: "1", name: "Kostnadsställe" }]);
+    assert.deepEqual(sie.objects, [{ dimension: "1", object: "100", name: "Sälj" }]);
+    assert.deepEqual(sie.openingBalances, [{ yearIndex: 0, account: "1930", amount: 1500.5, quantity: undefined }]);
+    assert.deepEqual(sie.closingBalances, [{ yearIndex: 0, account: "1930", amount: 2750.5, quantity: undefined }]);
+    assert.deepEqual(sie.results, [{ yearIndex: 0, account: "3001", amount: -1250, quantity: undefined }]);
+    assert.deepEqual(sie.periodBalances, [
+      { yearIndex: 0, period: "202401", account: "3001", objects: [{ dimension: "1", object: "100" }], amount: -1250 }
+    ]);
+  });
+
+  it("parses vouchers with their #TRANS rows and objects", () => {
+    assert.equal(sie.vouchers.length, 1);
+    const [voucher] = sie.vouchers;
+    assert.equal(voucher.series, "A");
+    assert.equal(voucher.number, "1");
+    assert.equal(voucher.date, "2024-01-10");
+    assert.equal(voucher.text, "Kundfaktura 1");
+    assert.equal(voucher.registrationDate, "2024-01-11");
+    assert.deepEqual(voucher.transactions, [
+      { account: "1930", objects: [], amount: 1250, date: undefined, text: undefined, quantity: undefined },
+      {
+        account: "3001",
+        objects: [{ dimension: "1", object: "100" }, { dimension: "6", object: "P1" }],
+        amount: -1250,
+        date: "2024-01-10",
+        text: "Rad \"1\"",
+        quantity: 2
+      }
+    ]);
+  });
+
+  it("skips malformed lines and reports them as warnings", () => {
+    assert.deepEqual(sie.warnings, [
+      "Line 26: Invalid voucher date (#VER)",
+      "Line 27: Transaction outside voucher (#TRANS)"
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.TOOL_POLICY = JSON.stringify({
+  default: "allow",
+  rules: [
+    { name: "no-account-deletions", effect: "deny", tools: ["fortnox_delete_account"] },
+    {
+      name: "junior-staff",
+      effect: "deny",
+      users: ["fortnox:1234567:42"],
+      tools: ["fortnox_bookkeep_*", "fortnox_credit_*"]
+    },
+    {
+      name: "junior-staff-payments",
+      effect: "deny",
+      users: ["fortnox:1234567:42"],
+      tools: ["fortnox_create_invoice_payment", "fortnox_create_supplier_invoice_payment"],
+      arguments: [{ argument: "bookkeep", equals: true }]
+    },
+    {
+      name: "large-payments",
+      effect: "deny",
+      tools: ["fortnox_create_invoice_payment"],
+      arguments: [{ argument: "amount", gt: 50000 }]
+    },
+    {
+      name: "small-vouchers",
+      effect: "allow",
+      tools: ["fortnox_create_voucher"],
+      arguments: [{ argument: "rows.debit", lte: 1000 }]
+    },
+    { name: "no-vouchers", effect: "deny", tools: ["fortnox_create_voucher"], clients: ["bot-*"] }
+  ]
+});
+
+const { evaluateToolPolicy, enforceToolPolicy, parseToolPolicy } = await import("../src/services/toolPolicy.js");
+const { runWithContext } = await import("../src/auth/context.js");
+const { PolicyDeniedError } = await import("../src/services/errors.js");
+
+const asUser = <T>(userId: string, fn: () => T, clientId = "client") => runWithContext({ userId, clientId }, fn);
+const ruleName = (toolName: string, params: unknown) => evaluateToolPolicy(toolName, params).rule?.name ?? null;
+
+describe("evaluateToolPolicy", () => {
+  it("denies listed tools and allows others by default", () => {
+    assert.equal(evaluateToolPolicy("fortnox_delete_account", {}).allowed, false);
+    assert.deepEqual(evaluateToolPolicy("fortnox_list_accounts", {}), { allowed: true, rule: null });
+  });
+
+  it("matches users and tool name wildcards", () => {
+    assert.equal(asUser("fortnox:1234567:42", () => ruleName("fortnox_bookkeep_invoice", {})), "junior-staff");
+    assert.equal(asUser("fortnox:1234567:42", () => ruleName("fortnox_credit_supplier_invoice", {})), "junior-staff");
+    assert.equal(asUser("fortnox:1234567:7", () => evaluateToolPolicy("fortnox_bookkeep_invoice", {}).allowed), true);
+  });
+
+  it("denies bookkeeping through the bookkeep flag of payment tools", () => {
+    const params = { invoice_number: 5, bookkeep: true };
+    assert.equal(asUser("fortnox:1234567:42", () => ruleName("fortnox_create_invoice_payment", params)), "junior-staff-payments");
+    assert.equal(
+      asUser("fortnox:1234567:42", () => ruleName("fortnox_create_supplier_invoice_payment", params)),
+      "junior-staff-payments"
+    );
+    assert.equal(
+      asUser("fortnox:1234567:42", () => evaluateToolPolicy("fortnox_create_invoice_payment", { invoice_number: 5, amount: 100, bookkeep: false }).allowed),
+      true
+    );
+  });
+
+  it("compares argument values", () => {
+    assert.equal(ruleName("fortnox_create_invoice_payment", { invoice_number: 5, amount: 60000 }), "large-payments");
+    assert.equal(evaluateToolPolicy("fortnox_create_invoice_payment", { invoice_number: 5, amount: 100 }).allowed, true);
+  });
+
+  it("denies when a deny rule compares an argument the call leaves out", () => {
+    // Without amount the payment is the invoice's remaining balance, which may be any size
+    const decision = evaluateToolPolicy("fortnox_create_invoice_payment", { invoice_number: 5 });
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.rule?.name, "large-payments");
+  });
+
+  it("does not allow when an allow rule compares an argument the call leaves out", () => {
+    assert.equal(ruleName("fortnox_create_voucher", { rows: [{ debit: 500 }] }), "small-vouchers");
+    assert.equal(asUser("u", () => ruleName("fortnox_create_voucher", { rows: [{ credit: 500 }] }), "bot-1"), "no-vouchers");
+  });
+
+  it("matches any element of arrays on an argument path", () => {
+    assert.equal(ruleName("fortnox_create_voucher", { rows: [{ debit: 5000 }, { debit: 10 }] }), "small-vouchers");
+    assert.equal(asUser("u", () => ruleName("fortnox_create_voucher", { rows: [{ debit: 5000 }] }), "bot-1"), "no-vouchers");
+  });
+});
+
+describe("enforceToolPolicy", () => {
+  it("throws PolicyDeniedError with the rule name", () => {
+    assert.throws(
+      () => enforceToolPolicy("fortnox_delete_account", {}),
+      (error: unknown) => error instanceof PolicyDeniedError && /no-account-deletions/.test(error.message)
+    );
+  });
+});
+
+describe("parseToolPolicy", () => {
+  it("rejects invalid JSON and unknown fields", () => {
+    assert.throws(() => parseToolPolicy("{", "test"), /Invalid tool policy in test/);
+    assert.throws(() => parseToolPolicy('{"rules":[{"effect":"deny","tool":["x"]}]}', "test"), /Invalid tool policy in test/);
+  });
+
+  it("defaults to allow with no rules", () => {
+    assert.deepEqual(parseToolPolicy("{}", "test"), { default: "allow", rules: [] });
+  });
+});